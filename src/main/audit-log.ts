@@ -0,0 +1,119 @@
+import * as crypto from 'crypto';
+import type { AuditRecord } from '@/shared/types';
+import { getDatabase } from './database';
+import type { ProviderRequest, ProviderResponse } from './providers';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Shortest string taken for inline image data rather than text
+const MIN_IMAGE_LENGTH = 256;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+const DATA_URL_PATTERN = /^data:[^;,]+;base64,/;
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+// Images are logged by content hash, never the image itself. Each provider inlines them
+// in its own shape, so any long base64 string or data URL in the body is taken for one.
+function redactImages(value: unknown): unknown {
+  if (typeof value === 'string') {
+    if (value.length < MIN_IMAGE_LENGTH) return value;
+    const base64 = value.replace(DATA_URL_PATTERN, '');
+    if (base64 !== value || BASE64_PATTERN.test(base64)) {
+      return `[image sha256:${sha256(Buffer.from(base64, 'base64'))}]`;
+    }
+    return value;
+  }
+  if (Array.isArray(value)) return value.map(redactImages);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactImages(item)]));
+  }
+  return value;
+}
+
+// Keeps the exact request and outcome of every provider call, so a wrong reply can be
+// traced back to the history, image and parameters the model actually received
+class AuditLog {
+  private lastPrunedAt = 0;
+
+  // Run a provider call and record it, whether it succeeds, fails or is cancelled.
+  // The backend hands over the body it serialized, which is what gets logged.
+  async track(
+    requestId: string,
+    providerId: string,
+    attempt: number,
+    request: ProviderRequest,
+    send: (request: ProviderRequest) => Promise<ProviderResponse>
+  ): Promise<ProviderResponse> {
+    const startedAt = Date.now();
+    let body: unknown = null;
+    const trackedRequest: ProviderRequest = { ...request, onRequestBody: sent => { body = sent; } };
+    try {
+      const response = await send(trackedRequest);
+      this.record({ requestId, providerId, attempt, request, body, latencyMs: Date.now() - startedAt, status: 'ok', usage: response.usage });
+      return response;
+    } catch (error: any) {
+      this.record({
+        requestId,
+        providerId,
+        attempt,
+        request,
+        body,
+        latencyMs: Date.now() - startedAt,
+        status: request.signal?.aborted ? 'cancelled' : 'error',
+        error: { message: error.message, status: error.status, code: error.code, body: error.body }
+      });
+      throw error;
+    }
+  }
+
+  private record(entry: {
+    requestId: string;
+    providerId: string;
+    attempt: number;
+    request: ProviderRequest;
+    body: unknown;
+    latencyMs: number;
+    status: AuditRecord['status'];
+    usage?: AuditRecord['usage'];
+    error?: AuditRecord['error'];
+  }): void {
+    const db = getDatabase();
+    const retentionDays = db.getSettings().auditRetentionDays ?? DEFAULT_RETENTION_DAYS;
+    if (retentionDays <= 0) return;
+
+    const { request } = entry;
+    try {
+      db.saveAuditRecord({
+        requestId: entry.requestId,
+        providerId: entry.providerId,
+        modelId: request.modelId,
+        attempt: entry.attempt,
+        body: redactImages(entry.body),
+        params: {
+          generation: request.generation,
+          responseSchema: request.responseSchema?.name,
+          tools: request.tools?.map(tool => tool.name),
+          baseUrl: request.baseUrl
+        },
+        latencyMs: entry.latencyMs,
+        status: entry.status,
+        usage: entry.usage,
+        error: entry.error
+      });
+
+      if (Date.now() - this.lastPrunedAt > PRUNE_INTERVAL_MS) {
+        this.lastPrunedAt = Date.now();
+        const removed = db.pruneAuditLog(retentionDays);
+        if (removed > 0) console.log(`🧹 Removed ${removed} audit records older than ${retentionDays} days`);
+      }
+    } catch (error: any) {
+      // Logging must never fail the request it describes
+      console.error('❌ Failed to write audit record:', error.message);
+    }
+  }
+}
+
+export const auditLog = new AuditLog();
@@ -0,0 +1,62 @@
+import * as crypto from 'crypto';
+import type { Message } from '@/shared/types';
+import { getDatabase } from './database';
+
+// What a summary model wrote and who wrote it
+export interface GeneratedSummary {
+  content: string;
+  providerId: string;
+  modelId: string;
+}
+
+// Edits to a message in the range make its cached summary stale
+function hashMessages(messages: Message[]): string {
+  const hash = crypto.createHash('sha256');
+  messages.forEach(msg => hash.update(`${msg.id}\0${msg.role}\0${msg.content}\0${msg.imageDescription || ''}\0`));
+  return hash.digest('hex');
+}
+
+// Model-written summaries of older chat messages, stored per message range so a range is
+// summarized once rather than on every turn that sends it
+class ChatSummarizer {
+  find(messages: Message[]): string | undefined {
+    if (messages.length === 0) return undefined;
+    const first = messages[0];
+    const last = messages[messages.length - 1];
+    try {
+      const cached = getDatabase().getChatSummary(first.chatId, first.id, last.id);
+      return cached && cached.sourceHash === hashMessages(messages) ? cached.content : undefined;
+    } catch (error: any) {
+      console.error('❌ Failed to read chat summary:', error.message);
+      return undefined;
+    }
+  }
+
+  // Generate and store a summary of the messages; null when the model fails, leaving the keyword summary in place
+  async summarize(messages: Message[], generate: () => Promise<GeneratedSummary>): Promise<GeneratedSummary | null> {
+    const first = messages[0];
+    const last = messages[messages.length - 1];
+    try {
+      const summary = await generate();
+      const content = summary.content.trim();
+      if (!content) return null;
+
+      getDatabase().saveChatSummary({
+        chatId: first.chatId,
+        firstMessageId: first.id,
+        lastMessageId: last.id,
+        sourceHash: hashMessages(messages),
+        content,
+        providerId: summary.providerId,
+        modelId: summary.modelId
+      });
+      console.log(`📝 Summarized ${messages.length} messages of chat ${first.chatId} with ${summary.modelId}`);
+      return { ...summary, content };
+    } catch (error: any) {
+      console.error('❌ Summary model failed, using the keyword summary:', error.message);
+      return null;
+    }
+  }
+}
+
+export const chatSummarizer = new ChatSummarizer();
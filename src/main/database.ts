@@ -2,7 +2,13 @@ import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { Chat, Message, AppSettings } from '@/shared/types';
+import { Chat, ChatCheckpoint, MemorySource, Message, AppSettings, AuditRecord, ExtractionSchema, GenerationParams, Persona } from '@/shared/types';
+import { PROVIDER_DEFINITIONS } from '../shared/providers';
+import { collapseCompareGroups } from '../shared/compare';
+import { foldCheckpoints } from '../shared/checkpoints';
+import { buildMemorySnippet, buildMemoryText } from '../shared/memory';
+import { readImageSize } from './image-size';
+import type { ModelInfo } from '@/shared/models';
 
 class DatabaseService {
   private db: Database.Database;
@@ -60,7 +66,7 @@ class DatabaseService {
       CREATE TABLE IF NOT EXISTS messages (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         chat_id INTEGER REFERENCES chats(id) ON DELETE CASCADE,
-        role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+        role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'tool')),
         content TEXT NOT NULL,
         image_path TEXT,
         provider TEXT,
@@ -118,6 +124,64 @@ class DatabaseService {
       }
     }
 
+    // Provider-reported usage, stored alongside actual_input_tokens
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN actual_output_tokens INTEGER DEFAULT 0');
+      console.log('✅ Added actual_output_tokens column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Output tokens column already exists');
+      } else {
+        console.log('⚠️ Error adding output tokens column:', error.message);
+      }
+    }
+
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN cached_tokens INTEGER DEFAULT 0');
+      console.log('✅ Added cached_tokens column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Cached tokens column already exists');
+      } else {
+        console.log('⚠️ Error adding cached tokens column:', error.message);
+      }
+    }
+
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN reasoning_tokens INTEGER DEFAULT 0');
+      console.log('✅ Added reasoning_tokens column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Reasoning tokens column already exists');
+      } else {
+        console.log('⚠️ Error adding reasoning tokens column:', error.message);
+      }
+    }
+
+    // Track assistant turns that were stopped by the user before completing
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN cancelled INTEGER DEFAULT 0');
+      console.log('✅ Added cancelled column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Cancelled column already exists');
+      } else {
+        console.log('⚠️ Error adding cancelled column:', error.message);
+      }
+    }
+
+    // Assistant turns that failed after every retry and fallback
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN error TEXT');
+      console.log('✅ Added error column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Error column already exists');
+      } else {
+        console.log('⚠️ Error adding error column:', error.message);
+      }
+    }
+
     // Add chat-level cost tracking
     try {
       this.db.exec('ALTER TABLE chats ADD COLUMN total_cost REAL DEFAULT 0.0');
@@ -141,6 +205,370 @@ class DatabaseService {
       }
     }
 
+    // Add per-chat system prompt
+    try {
+      this.db.exec('ALTER TABLE chats ADD COLUMN system_prompt TEXT');
+      console.log('✅ Added system_prompt column to chats table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ System prompt column already exists');
+      } else {
+        console.log('⚠️ Error adding system prompt column:', error.message);
+      }
+    }
+
+    // Add generation parameter overrides (JSON) on chats and the parameters sent for each reply
+    try {
+      this.db.exec('ALTER TABLE chats ADD COLUMN generation_params TEXT');
+      console.log('✅ Added generation_params column to chats table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Chat generation params column already exists');
+      } else {
+        console.log('⚠️ Error adding chat generation params column:', error.message);
+      }
+    }
+
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN generation_params TEXT');
+      console.log('✅ Added generation_params column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Message generation params column already exists');
+      } else {
+        console.log('⚠️ Error adding message generation params column:', error.message);
+      }
+    }
+
+    // Add compare mode grouping for sibling assistant replies
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN compare_group_id INTEGER');
+      console.log('✅ Added compare_group_id column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Compare group column already exists');
+      } else {
+        console.log('⚠️ Error adding compare group column:', error.message);
+      }
+    }
+
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN compare_selected INTEGER DEFAULT 0');
+      console.log('✅ Added compare_selected column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Compare selected column already exists');
+      } else {
+        console.log('⚠️ Error adding compare selected column:', error.message);
+      }
+    }
+
+    // Add vision fallback tracking for images sent to text-only models
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN image_description TEXT');
+      console.log('✅ Added image_description column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Image description column already exists');
+      } else {
+        console.log('⚠️ Error adding image description column:', error.message);
+      }
+    }
+
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN vision_note TEXT');
+      console.log('✅ Added vision_note column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Vision note column already exists');
+      } else {
+        console.log('⚠️ Error adding vision note column:', error.message);
+      }
+    }
+
+    // Add prompt cache writes, billed separately from cache reads
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN cache_write_tokens INTEGER DEFAULT 0');
+      console.log('✅ Added cache_write_tokens column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Cache write tokens column already exists');
+      } else {
+        console.log('⚠️ Error adding cache write tokens column:', error.message);
+      }
+    }
+
+    // Add extract mode results
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN extraction TEXT');
+      console.log('✅ Added extraction column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Extraction column already exists');
+      } else {
+        console.log('⚠️ Error adding extraction column:', error.message);
+      }
+    }
+
+    // Add reasoning traces
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN reasoning TEXT');
+      console.log('✅ Added reasoning column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Reasoning column already exists');
+      } else {
+        console.log('⚠️ Error adding reasoning column:', error.message);
+      }
+    }
+
+    // Add link from replies to their audit log records
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN request_id TEXT');
+      console.log('✅ Added request ID column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Request ID column already exists');
+      } else {
+        console.log('⚠️ Error adding request ID column:', error.message);
+      }
+    }
+
+    // Add tool call columns: the calls an assistant turn made, and which call a tool message answers
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN tool_calls TEXT');
+      console.log('✅ Added tool calls column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Tool calls column already exists');
+      } else {
+        console.log('⚠️ Error adding tool calls column:', error.message);
+      }
+    }
+
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN tool_call_id TEXT');
+      console.log('✅ Added tool call ID column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Tool call ID column already exists');
+      } else {
+        console.log('⚠️ Error adding tool call ID column:', error.message);
+      }
+    }
+
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN tool_name TEXT');
+      console.log('✅ Added tool name column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Tool name column already exists');
+      } else {
+        console.log('⚠️ Error adding tool name column:', error.message);
+      }
+    }
+
+    // Add marker for replies served from the response cache
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN cached_at TEXT');
+      console.log('✅ Added cached at column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Cached at column already exists');
+      } else {
+        console.log('⚠️ Error adding cached at column:', error.message);
+      }
+    }
+
+    // Add image pixel size for image token estimates, read once from the files already saved
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN image_width INTEGER');
+      this.db.exec('ALTER TABLE messages ADD COLUMN image_height INTEGER');
+      console.log('✅ Added image size columns to messages table');
+
+      const rows = this.db.prepare('SELECT id, image_path FROM messages WHERE image_path IS NOT NULL').all() as any[];
+      const updateSize = this.db.prepare('UPDATE messages SET image_width = ?, image_height = ? WHERE id = ?');
+      rows.forEach(row => {
+        const size = readImageSize(row.image_path);
+        if (size) updateSize.run(size.width, size.height, row.id);
+      });
+      console.log(`✅ Recorded image sizes for ${rows.length} messages`);
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Image size columns already exist');
+      } else {
+        console.log('⚠️ Error adding image size columns:', error.message);
+      }
+    }
+
+    // Add folding of compressed messages behind a checkpoint summary
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN checkpoint_id INTEGER');
+      console.log('✅ Added checkpoint id column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Checkpoint id column already exists');
+      } else {
+        console.log('⚠️ Error adding checkpoint id column:', error.message);
+      }
+    }
+
+    // Add the past messages the memory strategy recalled for a reply
+    try {
+      this.db.exec('ALTER TABLE messages ADD COLUMN memory_sources TEXT');
+      console.log('✅ Added memory sources column to messages table');
+    } catch (error: any) {
+      if (error.message && error.message.includes('duplicate column name')) {
+        console.log('✅ Memory sources column already exists');
+      } else {
+        console.log('⚠️ Error adding memory sources column:', error.message);
+      }
+    }
+
+    // Allow the 'tool' role in older databases. SQLite can't alter a CHECK constraint,
+    // so the table is rebuilt from its own schema with only the constraint changed.
+    const messagesTable = this.db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'messages'").get() as any;
+    if (messagesTable && !messagesTable.sql.includes("'tool'")) {
+      try {
+        this.db.exec('PRAGMA foreign_keys = OFF');
+        this.db.transaction(() => {
+          const createSql = messagesTable.sql
+            .replace("CHECK (role IN ('user', 'assistant'))", "CHECK (role IN ('user', 'assistant', 'tool'))")
+            .replace(/^CREATE TABLE (IF NOT EXISTS )?"?messages"?/, 'CREATE TABLE messages_new');
+          this.db.exec(createSql);
+          this.db.exec('INSERT INTO messages_new SELECT * FROM messages');
+          this.db.exec('DROP TABLE messages');
+          this.db.exec('ALTER TABLE messages_new RENAME TO messages');
+        })();
+        console.log('✅ Allowed tool messages in messages table');
+      } catch (error: any) {
+        console.log('⚠️ Error allowing tool messages:', error.message);
+      } finally {
+        this.db.exec('PRAGMA foreign_keys = ON');
+      }
+    }
+
+    console.log('🎭 Creating personas table...');
+    // Create persona presets table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS personas (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        system_prompt TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log('✅ Personas table ready');
+
+    console.log('🧾 Creating extraction schemas table...');
+    // Create extract mode schema table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS extraction_schemas (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        schema TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log('✅ Extraction schemas table ready');
+
+    console.log('📚 Creating model catalog table...');
+    // Create model catalog cache, one row per provider
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS model_catalog (
+        provider_id TEXT PRIMARY KEY,
+        models TEXT NOT NULL,
+        refreshed_at DATETIME NOT NULL
+      )
+    `);
+    console.log('✅ Model catalog table ready');
+
+    console.log('🔍 Creating audit log table...');
+    // Create audit log, one row per provider call
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        request_id TEXT NOT NULL,
+        provider_id TEXT NOT NULL,
+        model_id TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        body TEXT NOT NULL,
+        params TEXT NOT NULL,
+        latency_ms INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        usage TEXT,
+        error TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log('✅ Audit log table ready');
+
+    console.log('♻️ Creating response cache table...');
+    // Create response cache, one row per distinct request
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS response_cache (
+        cache_key TEXT PRIMARY KEY,
+        provider_id TEXT NOT NULL,
+        model_id TEXT NOT NULL,
+        response TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL
+      )
+    `);
+    console.log('✅ Response cache table ready');
+
+    console.log('📝 Creating chat summaries table...');
+    // Create chat summaries, one model-written summary per summarized message range
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS chat_summaries (
+        chat_id INTEGER NOT NULL,
+        first_message_id INTEGER NOT NULL,
+        last_message_id INTEGER NOT NULL,
+        source_hash TEXT NOT NULL,
+        content TEXT NOT NULL,
+        provider_id TEXT NOT NULL,
+        model_id TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chat_id, first_message_id, last_message_id),
+        FOREIGN KEY (chat_id) REFERENCES chats (id) ON DELETE CASCADE
+      )
+    `);
+    console.log('✅ Chat summaries table ready');
+
+    console.log('📦 Creating chat checkpoints table...');
+    // Create compression checkpoints; folded messages point at theirs through checkpoint_id
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS chat_checkpoints (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chat_id INTEGER NOT NULL,
+        summary TEXT NOT NULL,
+        up_to_message_id INTEGER NOT NULL,
+        message_count INTEGER NOT NULL,
+        saved_tokens INTEGER DEFAULT 0,
+        cost REAL DEFAULT 0.0,
+        folded_into INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (chat_id) REFERENCES chats (id) ON DELETE CASCADE
+      )
+    `);
+    console.log('✅ Chat checkpoints table ready');
+
+    console.log('🧠 Creating message embeddings table...');
+    // Create the memory index, one vector per message and embedder
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS message_embeddings (
+        message_id INTEGER NOT NULL,
+        embedder TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (message_id, embedder),
+        FOREIGN KEY (message_id) REFERENCES messages (id) ON DELETE CASCADE
+      )
+    `);
+    console.log('✅ Message embeddings table ready');
+
     console.log('⚙️ Creating settings table...');
     // Create settings table
     this.db.exec(`
@@ -156,6 +584,9 @@ class DatabaseService {
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_messages_chat_id ON messages(chat_id);
       CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_request_id ON audit_log(request_id);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+      CREATE INDEX IF NOT EXISTS idx_response_cache_expires_at ON response_cache(expires_at);
     `);
     console.log('✅ Database indexes created');
   }
@@ -185,7 +616,9 @@ class DatabaseService {
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       totalCost: row.total_cost || 0,
-      messageCount: row.message_count || 0
+      messageCount: row.message_count || 0,
+      systemPrompt: row.system_prompt || undefined,
+      generationParams: row.generation_params ? JSON.parse(row.generation_params) : undefined
     }));
   }
 
@@ -203,7 +636,9 @@ class DatabaseService {
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       totalCost: row.total_cost || 0,
-      messageCount: row.message_count || 0
+      messageCount: row.message_count || 0,
+      systemPrompt: row.system_prompt || undefined,
+      generationParams: row.generation_params ? JSON.parse(row.generation_params) : undefined
     };
   }
 
@@ -214,6 +649,21 @@ class DatabaseService {
     stmt.run(title, id);
   }
 
+  updateChatSystemPrompt(id: number, systemPrompt: string | null): void {
+    const stmt = this.db.prepare(`
+      UPDATE chats SET system_prompt = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `);
+    stmt.run(systemPrompt && systemPrompt.trim() ? systemPrompt : null, id);
+  }
+
+  updateChatGenerationParams(id: number, params: GenerationParams | null): void {
+    const hasOverrides = params && Object.values(params).some(value => value !== undefined);
+    const stmt = this.db.prepare(`
+      UPDATE chats SET generation_params = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `);
+    stmt.run(hasOverrides ? JSON.stringify(params) : null, id);
+  }
+
   deleteChat(id: number): void {
     const stmt = this.db.prepare(`
       DELETE FROM chats WHERE id = ?
@@ -224,10 +674,13 @@ class DatabaseService {
   // Message operations
   saveMessage(message: Omit<Message, 'id' | 'timestamp'>): Message {
     const stmt = this.db.prepare(`
-      INSERT INTO messages (chat_id, role, content, image_path, provider, model, optimization_method, actual_input_tokens, actual_cost)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO messages (chat_id, role, content, image_path, provider, model, optimization_method, actual_input_tokens, actual_output_tokens, cached_tokens, reasoning_tokens, actual_cost, cancelled, error, generation_params, compare_group_id, image_description, vision_note, cache_write_tokens, extraction, reasoning, request_id, tool_calls, tool_call_id, tool_name, cached_at, image_width, image_height, memory_sources)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
+    const imageSize = message.imageWidth && message.imageHeight
+      ? { width: message.imageWidth, height: message.imageHeight }
+      : readImageSize(message.imagePath);
     const result = stmt.run(
       message.chatId,
       message.role,
@@ -237,7 +690,27 @@ class DatabaseService {
       message.model || null,
       message.optimizationMethod || null,
       message.actualInputTokens || 0,
-      message.actualCost || 0.0
+      message.actualOutputTokens || 0,
+      message.cachedTokens || 0,
+      message.reasoningTokens || 0,
+      message.actualCost || 0.0,
+      message.cancelled ? 1 : 0,
+      message.error || null,
+      message.generationParams ? JSON.stringify(message.generationParams) : null,
+      message.compareGroupId ?? null,
+      message.imageDescription || null,
+      message.visionNote || null,
+      message.cacheWriteTokens || 0,
+      message.extraction ? JSON.stringify(message.extraction) : null,
+      message.reasoning || null,
+      message.requestId || null,
+      message.toolCalls ? JSON.stringify(message.toolCalls) : null,
+      message.toolCallId || null,
+      message.toolName || null,
+      message.cachedAt || null,
+      imageSize?.width ?? null,
+      imageSize?.height ?? null,
+      message.memorySources?.length ? JSON.stringify(message.memorySources) : null
     );
 
     // Update chat's updated_at timestamp and cost tracking
@@ -256,28 +729,51 @@ class DatabaseService {
       role: message.role,
       content: message.content,
       imagePath: message.imagePath,
+      imageWidth: imageSize?.width,
+      imageHeight: imageSize?.height,
       provider: message.provider,
       model: message.model,
       optimizationMethod: message.optimizationMethod,
       actualInputTokens: message.actualInputTokens,
+      actualOutputTokens: message.actualOutputTokens,
+      cachedTokens: message.cachedTokens,
+      cacheWriteTokens: message.cacheWriteTokens,
+      reasoningTokens: message.reasoningTokens,
+      reasoning: message.reasoning,
       actualCost: message.actualCost,
+      cancelled: message.cancelled || false,
+      error: message.error,
+      generationParams: message.generationParams,
+      compareGroupId: message.compareGroupId,
+      compareSelected: false,
+      imageDescription: message.imageDescription,
+      visionNote: message.visionNote,
+      extraction: message.extraction,
+      requestId: message.requestId,
+      memorySources: message.memorySources,
       timestamp: new Date().toISOString()
     };
   }
 
-  updateMessage(id: number, updates: { content?: string; imagePath?: string }): Message | null {
+  updateMessage(id: number, updates: { content?: string; imagePath?: string; imageDescription?: string }): Message | null {
     const stmt = this.db.prepare(`
       UPDATE messages 
       SET content = COALESCE(?, content),
-          image_path = COALESCE(?, image_path)
+          image_path = COALESCE(?, image_path),
+          image_description = COALESCE(?, image_description),
+          image_width = COALESCE(?, image_width),
+          image_height = COALESCE(?, image_height)
       WHERE id = ?
     `);
     
-    const result = stmt.run(updates.content, updates.imagePath, id);
+    const imageSize = readImageSize(updates.imagePath);
+    const result = stmt.run(updates.content, updates.imagePath, updates.imageDescription ?? null, imageSize?.width ?? null, imageSize?.height ?? null, id);
     
     if (result.changes === 0) {
       return null; // Message not found
     }
+    // The edited text is embedded again the next time the memory index is brought up to date
+    this.db.prepare('DELETE FROM message_embeddings WHERE message_id = ?').run(id);
 
     // Get the updated message
     const getStmt = this.db.prepare(`
@@ -293,8 +789,11 @@ class DatabaseService {
       role: row.role,
       content: row.content,
       imagePath: row.image_path,
+      imageWidth: row.image_width ?? undefined,
+      imageHeight: row.image_height ?? undefined,
       provider: row.provider,
       model: row.model,
+      imageDescription: row.image_description || undefined,
       timestamp: row.timestamp
     };
   }
@@ -311,17 +810,64 @@ class DatabaseService {
       role: row.role,
       content: row.content,
       imagePath: row.image_path,
+      imageWidth: row.image_width ?? undefined,
+      imageHeight: row.image_height ?? undefined,
       provider: row.provider,
       model: row.model,
       optimizationMethod: row.optimization_method,
       actualInputTokens: row.actual_input_tokens,
+      actualOutputTokens: row.actual_output_tokens,
+      cachedTokens: row.cached_tokens,
+      cacheWriteTokens: row.cache_write_tokens,
+      reasoningTokens: row.reasoning_tokens,
       actualCost: row.actual_cost,
+      cancelled: !!row.cancelled,
+      error: row.error || undefined,
+      generationParams: row.generation_params ? JSON.parse(row.generation_params) : undefined,
+      compareGroupId: row.compare_group_id ?? undefined,
+      compareSelected: !!row.compare_selected,
+      imageDescription: row.image_description || undefined,
+      visionNote: row.vision_note || undefined,
+      extraction: row.extraction ? JSON.parse(row.extraction) : undefined,
+      reasoning: row.reasoning || undefined,
+      requestId: row.request_id || undefined,
+      toolCalls: row.tool_calls ? JSON.parse(row.tool_calls) : undefined,
+      toolCallId: row.tool_call_id || undefined,
+      toolName: row.tool_name || undefined,
+      cachedAt: row.cached_at || undefined,
+      checkpointId: row.checkpoint_id ?? undefined,
+      memorySources: row.memory_sources ? JSON.parse(row.memory_sources) : undefined,
       timestamp: row.timestamp
     }));
   }
 
+  // The chat as the model sees it: compressed ranges replaced by their checkpoint summaries
+  getFoldedChatMessages(chatId: number): Message[] {
+    return foldCheckpoints(this.getChatMessages(chatId), this.getChatCheckpoints(chatId));
+  }
+
+  // Messages that are sent back to the model: cancelled and failed turns are kept for the
+  // user only, and each compare group contributes just its chosen reply. Tool rounds are kept
+  // for the user too; the final reply already carries what the model learned from them.
+  getConversationMessages(chatId: number): Message[] {
+    // Reasoning traces are only for the user; providers expect them left out of later turns
+    return collapseCompareGroups(this.getFoldedChatMessages(chatId).filter(msg => !msg.cancelled && !msg.error && msg.role !== 'tool' && !msg.toolCalls))
+      .map(({ reasoning, ...msg }) => msg);
+  }
+
+  // Pick which compare mode sibling continues the conversation
+  selectCompareReply(messageId: number): void {
+    const row = this.db.prepare('SELECT compare_group_id FROM messages WHERE id = ?').get(messageId) as any;
+    if (!row || row.compare_group_id === null) return;
+
+    const stmt = this.db.prepare(`
+      UPDATE messages SET compare_selected = CASE WHEN id = ? THEN 1 ELSE 0 END WHERE compare_group_id = ?
+    `);
+    stmt.run(messageId, row.compare_group_id);
+  }
+
   getOptimizedChatMessages(chatId: number): Message[] {
-    const allMessages = this.getChatMessages(chatId);
+    const allMessages = this.getConversationMessages(chatId);
     const settings = this.getSettings();
     
     // Import token optimizer functions dynamically
@@ -343,6 +889,7 @@ class DatabaseService {
         return allMessages;
         
       case 'rolling-window':
+      case 'memory':
         return applyRollingWindow(allMessages, rollingWindowSize).messages;
         
       case 'smart-summary':
@@ -367,6 +914,352 @@ class DatabaseService {
     stmt.run(id);
   }
 
+  // Persona operations
+  getPersonas(): Persona[] {
+    const stmt = this.db.prepare('SELECT * FROM personas ORDER BY name COLLATE NOCASE');
+    const rows = stmt.all() as any[];
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      systemPrompt: row.system_prompt,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  savePersona(persona: { id?: number; name: string; systemPrompt: string }): Persona {
+    if (persona.id) {
+      const stmt = this.db.prepare(`
+        UPDATE personas SET name = ?, system_prompt = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+      `);
+      stmt.run(persona.name, persona.systemPrompt, persona.id);
+    } else {
+      const stmt = this.db.prepare(`
+        INSERT INTO personas (name, system_prompt) VALUES (?, ?)
+      `);
+      persona.id = stmt.run(persona.name, persona.systemPrompt).lastInsertRowid as number;
+    }
+
+    const row = this.db.prepare('SELECT * FROM personas WHERE id = ?').get(persona.id) as any;
+    return {
+      id: row.id,
+      name: row.name,
+      systemPrompt: row.system_prompt,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  deletePersona(id: number): void {
+    const stmt = this.db.prepare('DELETE FROM personas WHERE id = ?');
+    stmt.run(id);
+  }
+
+  // Extraction schema operations
+  getExtractionSchemas(): ExtractionSchema[] {
+    const stmt = this.db.prepare('SELECT * FROM extraction_schemas ORDER BY name COLLATE NOCASE');
+    const rows = stmt.all() as any[];
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      schema: JSON.parse(row.schema),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  saveExtractionSchema(schema: { id?: number; name: string; schema: Record<string, any> }): ExtractionSchema {
+    if (schema.id) {
+      const stmt = this.db.prepare(`
+        UPDATE extraction_schemas SET name = ?, schema = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+      `);
+      stmt.run(schema.name, JSON.stringify(schema.schema), schema.id);
+    } else {
+      const stmt = this.db.prepare(`
+        INSERT INTO extraction_schemas (name, schema) VALUES (?, ?)
+      `);
+      schema.id = stmt.run(schema.name, JSON.stringify(schema.schema)).lastInsertRowid as number;
+    }
+
+    const row = this.db.prepare('SELECT * FROM extraction_schemas WHERE id = ?').get(schema.id) as any;
+    return {
+      id: row.id,
+      name: row.name,
+      schema: JSON.parse(row.schema),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  deleteExtractionSchema(id: number): void {
+    const stmt = this.db.prepare('DELETE FROM extraction_schemas WHERE id = ?');
+    stmt.run(id);
+  }
+
+  // Model catalog operations
+  getModelCatalog(providerId: string): { models: ModelInfo[]; refreshedAt: string } | null {
+    const stmt = this.db.prepare('SELECT models, refreshed_at FROM model_catalog WHERE provider_id = ?');
+    const row = stmt.get(providerId) as any;
+    if (!row) return null;
+
+    return {
+      models: JSON.parse(row.models),
+      refreshedAt: row.refreshed_at
+    };
+  }
+
+  saveModelCatalog(providerId: string, models: ModelInfo[]): string {
+    const refreshedAt = new Date().toISOString();
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO model_catalog (provider_id, models, refreshed_at) VALUES (?, ?, ?)
+    `);
+    stmt.run(providerId, JSON.stringify(models), refreshedAt);
+    return refreshedAt;
+  }
+
+  clearModelCatalog(providerId: string): void {
+    const stmt = this.db.prepare('DELETE FROM model_catalog WHERE provider_id = ?');
+    stmt.run(providerId);
+  }
+
+  // Messages containing the query, newest first, for the search_chats tool
+  searchMessages(query: string, limit: number, excludeChatId?: number): { chatId: number; chatTitle: string; role: string; content: string; timestamp: string }[] {
+    const pattern = `%${query.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+    const stmt = this.db.prepare(`
+      SELECT m.chat_id, c.title, m.role, m.content, m.timestamp
+      FROM messages m JOIN chats c ON c.id = m.chat_id
+      WHERE m.content LIKE ? ESCAPE '\\' AND m.role IN ('user', 'assistant') AND m.error IS NULL AND m.chat_id != ?
+      ORDER BY m.timestamp DESC
+      LIMIT ?
+    `);
+    const rows = stmt.all(pattern, excludeChatId ?? -1, limit) as any[];
+
+    return rows.map((row: any) => ({
+      chatId: row.chat_id,
+      chatTitle: row.title,
+      role: row.role,
+      content: row.content,
+      timestamp: row.timestamp
+    }));
+  }
+
+  // Audit log operations
+  saveAuditRecord(record: Omit<AuditRecord, 'id' | 'createdAt'>): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO audit_log (request_id, provider_id, model_id, attempt, body, params, latency_ms, status, usage, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      record.requestId,
+      record.providerId,
+      record.modelId,
+      record.attempt,
+      JSON.stringify(record.body),
+      JSON.stringify(record.params),
+      record.latencyMs,
+      record.status,
+      record.usage ? JSON.stringify(record.usage) : null,
+      record.error ? JSON.stringify(record.error) : null
+    );
+  }
+
+  getAuditRecords(requestId: string): AuditRecord[] {
+    const stmt = this.db.prepare('SELECT * FROM audit_log WHERE request_id = ? ORDER BY id ASC');
+    const rows = stmt.all(requestId) as any[];
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      requestId: row.request_id,
+      providerId: row.provider_id,
+      modelId: row.model_id,
+      attempt: row.attempt,
+      body: JSON.parse(row.body),
+      params: JSON.parse(row.params),
+      latencyMs: row.latency_ms,
+      status: row.status,
+      usage: row.usage ? JSON.parse(row.usage) : undefined,
+      error: row.error ? JSON.parse(row.error) : undefined,
+      createdAt: row.created_at
+    }));
+  }
+
+  // Delete records older than the retention period; returns how many were removed
+  pruneAuditLog(retentionDays: number): number {
+    const stmt = this.db.prepare(`DELETE FROM audit_log WHERE created_at < datetime('now', ?)`);
+    return stmt.run(`-${retentionDays} days`).changes;
+  }
+
+  // Response cache operations
+  getCachedResponse(cacheKey: string): { response: any; createdAt: string } | null {
+    const stmt = this.db.prepare(`
+      SELECT response, created_at FROM response_cache WHERE cache_key = ? AND expires_at > datetime('now')
+    `);
+    const row = stmt.get(cacheKey) as any;
+    return row ? { response: JSON.parse(row.response), createdAt: row.created_at } : null;
+  }
+
+  saveCachedResponse(cacheKey: string, providerId: string, modelId: string, response: unknown, ttlHours: number): void {
+    // Expired entries are never read again, so drop them whenever a new one is written
+    this.db.prepare(`DELETE FROM response_cache WHERE expires_at <= datetime('now')`).run();
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO response_cache (cache_key, provider_id, model_id, response, created_at, expires_at)
+      VALUES (?, ?, ?, ?, datetime('now'), datetime('now', ?))
+    `);
+    stmt.run(cacheKey, providerId, modelId, JSON.stringify(response), `+${ttlHours} hours`);
+  }
+
+  clearResponseCache(): number {
+    return this.db.prepare('DELETE FROM response_cache').run().changes;
+  }
+
+  // Checkpoint operations
+  getChatCheckpoints(chatId: number): ChatCheckpoint[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM chat_checkpoints WHERE chat_id = ? ORDER BY id ASC
+    `);
+    const rows = stmt.all(chatId) as any[];
+    return rows.map(row => this.mapCheckpoint(row));
+  }
+
+  // Fold every message up to upToMessageId that isn't folded yet, and earlier checkpoints, behind a new summary
+  createCheckpoint(checkpoint: { chatId: number; summary: string; upToMessageId: number; savedTokens: number; cost: number }): ChatCheckpoint {
+    const create = this.db.transaction(() => {
+      const folded = this.db.prepare(`
+        SELECT COUNT(*) AS count FROM messages WHERE chat_id = ? AND id <= ? AND checkpoint_id IS NULL
+      `).get(checkpoint.chatId, checkpoint.upToMessageId) as any;
+
+      const result = this.db.prepare(`
+        INSERT INTO chat_checkpoints (chat_id, summary, up_to_message_id, message_count, saved_tokens, cost)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(checkpoint.chatId, checkpoint.summary, checkpoint.upToMessageId, folded.count, checkpoint.savedTokens, checkpoint.cost);
+      const id = result.lastInsertRowid as number;
+
+      this.db.prepare(`
+        UPDATE messages SET checkpoint_id = ? WHERE chat_id = ? AND id <= ? AND checkpoint_id IS NULL
+      `).run(id, checkpoint.chatId, checkpoint.upToMessageId);
+      this.db.prepare(`
+        UPDATE chat_checkpoints SET folded_into = ? WHERE chat_id = ? AND id != ? AND folded_into IS NULL
+      `).run(id, checkpoint.chatId, id);
+
+      // The summary model's cost belongs to the chat even if the compression is undone later
+      this.db.prepare(`
+        UPDATE chats SET updated_at = CURRENT_TIMESTAMP, total_cost = total_cost + ? WHERE id = ?
+      `).run(checkpoint.cost, checkpoint.chatId);
+
+      return this.db.prepare('SELECT * FROM chat_checkpoints WHERE id = ?').get(id) as any;
+    });
+    return this.mapCheckpoint(create());
+  }
+
+  // Undo a compression: its messages and the checkpoints it folded are shown and sent again
+  restoreCheckpoint(id: number): boolean {
+    const restore = this.db.transaction(() => {
+      const checkpoint = this.db.prepare('SELECT folded_into FROM chat_checkpoints WHERE id = ?').get(id) as any;
+      // Only the newest layer can be undone; an earlier one is part of its summary
+      if (!checkpoint || checkpoint.folded_into !== null) return false;
+
+      this.db.prepare('UPDATE messages SET checkpoint_id = NULL WHERE checkpoint_id = ?').run(id);
+      this.db.prepare('UPDATE chat_checkpoints SET folded_into = NULL WHERE folded_into = ?').run(id);
+      this.db.prepare('DELETE FROM chat_checkpoints WHERE id = ?').run(id);
+      return true;
+    });
+    return restore();
+  }
+
+  private mapCheckpoint(row: any): ChatCheckpoint {
+    return {
+      id: row.id,
+      chatId: row.chat_id,
+      summary: row.summary,
+      upToMessageId: row.up_to_message_id,
+      messageCount: row.message_count,
+      savedTokens: row.saved_tokens,
+      cost: row.cost,
+      foldedInto: row.folded_into ?? undefined,
+      createdAt: row.created_at
+    };
+  }
+
+  // Chat summary operations
+  getChatSummary(chatId: number, firstMessageId: number, lastMessageId: number): { content: string; sourceHash: string } | null {
+    const stmt = this.db.prepare(`
+      SELECT content, source_hash FROM chat_summaries WHERE chat_id = ? AND first_message_id = ? AND last_message_id = ?
+    `);
+    const row = stmt.get(chatId, firstMessageId, lastMessageId) as any;
+    return row ? { content: row.content, sourceHash: row.source_hash } : null;
+  }
+
+  saveChatSummary(summary: { chatId: number; firstMessageId: number; lastMessageId: number; sourceHash: string; content: string; providerId: string; modelId: string }): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO chat_summaries (chat_id, first_message_id, last_message_id, source_hash, content, provider_id, model_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+    `);
+    stmt.run(summary.chatId, summary.firstMessageId, summary.lastMessageId, summary.sourceHash, summary.content, summary.providerId, summary.modelId);
+  }
+
+  // Memory index operations
+  // Messages worth recalling that have no vector from this embedder yet, newest first
+  getUnembeddedMessages(embedder: string, limit: number): Array<{ id: number; text: string }> {
+    const stmt = this.db.prepare(`
+      SELECT m.id, m.content, m.image_description FROM messages m
+      LEFT JOIN message_embeddings e ON e.message_id = m.id AND e.embedder = ?
+      WHERE e.message_id IS NULL
+        AND m.role IN ('user', 'assistant')
+        AND m.cancelled = 0 AND m.error IS NULL AND m.tool_calls IS NULL
+        AND TRIM(m.content) != ''
+      ORDER BY m.id DESC
+      LIMIT ?
+    `);
+    const rows = stmt.all(embedder, limit) as any[];
+    return rows.map(row => ({ id: row.id, text: buildMemoryText(row.content, row.image_description || undefined) }));
+  }
+
+  saveMessageEmbeddings(embedder: string, embeddings: Array<{ messageId: number; vector: Float32Array }>): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO message_embeddings (message_id, embedder, vector) VALUES (?, ?, ?)
+    `);
+    const save = this.db.transaction(() => {
+      embeddings.forEach(({ messageId, vector }) => {
+        stmt.run(messageId, embedder, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength));
+      });
+    });
+    save();
+  }
+
+  getMessageEmbeddings(embedder: string): Array<{ messageId: number; vector: Float32Array }> {
+    const stmt = this.db.prepare(`
+      SELECT message_id, vector FROM message_embeddings WHERE embedder = ? AND LENGTH(vector) > 0
+    `);
+    const rows = stmt.all(embedder) as any[];
+    // Copied out, since a blob's bytes aren't guaranteed to be aligned for a Float32Array
+    return rows.map(row => ({ messageId: row.message_id, vector: new Float32Array(new Uint8Array(row.vector).buffer) }));
+  }
+
+  // Recalled messages with their chat, as shown to the model and listed under the reply
+  getMemorySources(scores: Map<number, number>): MemorySource[] {
+    if (scores.size === 0) return [];
+    const ids = Array.from(scores.keys());
+    const stmt = this.db.prepare(`
+      SELECT m.id, m.chat_id, m.role, m.content, m.image_description, m.timestamp, c.title FROM messages m
+      JOIN chats c ON c.id = m.chat_id
+      WHERE m.id IN (${ids.map(() => '?').join(', ')})
+    `);
+    const rows = stmt.all(...ids) as any[];
+    return rows
+      .map(row => ({
+        messageId: row.id,
+        chatId: row.chat_id,
+        chatTitle: row.title,
+        role: row.role,
+        snippet: buildMemorySnippet(buildMemoryText(row.content, row.image_description || undefined)),
+        score: scores.get(row.id) || 0,
+        timestamp: row.timestamp
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
   // Settings operations
   getSetting(key: string): string | null {
     const stmt = this.db.prepare(`
@@ -398,10 +1291,18 @@ class DatabaseService {
       }
     });
 
+    // Every registered provider gets its key (and endpoint) from the database, then .env
+    const apiKeys: Record<string, string> = {};
+    PROVIDER_DEFINITIONS.forEach(provider => {
+      apiKeys[provider.apiKeySetting] = settings[provider.apiKeySetting] || process.env[provider.envVar] || '';
+      if (provider.baseUrlSetting) {
+        apiKeys[provider.baseUrlSetting] = settings[provider.baseUrlSetting] || provider.defaultBaseUrl || '';
+      }
+    });
+
     return {
-      openaiApiKey: settings.openaiApiKey || process.env.OPENAI_API_KEY || '',
-      claudeApiKey: settings.claudeApiKey || process.env.CLAUDE_API_KEY || '',
-      deepseekApiKey: settings.deepseekApiKey || process.env.DEEPSEEK_API_KEY || '',
+      ...settings,
+      ...apiKeys,
       selectedProvider: settings.selectedProvider || 'openai',
       overlayPosition: settings.overlayPosition || { x: 100, y: 100 },
       overlaySize: settings.overlaySize || { width: 500, height: 700 },
@@ -418,6 +1319,11 @@ class DatabaseService {
 
   saveSettings(settings: Partial<AppSettings>): void {
     Object.entries(settings).forEach(([key, value]) => {
+      // Unset values fall back to their defaults rather than being stored as "undefined"
+      if (value === undefined) {
+        this.db.prepare('DELETE FROM settings WHERE key = ?').run(key);
+        return;
+      }
       const serializedValue = typeof value === 'object' ? JSON.stringify(value) : String(value);
       this.setSetting(key, serializedValue);
     });
@@ -458,27 +1364,15 @@ class DatabaseService {
     }
 
     const envContent = fs.readFileSync(envPath, 'utf8');
-    const openaiMatch = envContent.match(/OPENAI_API_KEY=(.+)/);
-    const claudeMatch = envContent.match(/CLAUDE_API_KEY=(.+)/);
-    const deepseekMatch = envContent.match(/DEEPSEEK_API_KEY=(.+)/);
-
-    if (openaiMatch && openaiMatch[1] && openaiMatch[1] !== 'your_openai_api_key_here') {
-      const key = openaiMatch[1].trim();
-      this.setSetting('openaiApiKey', key);
-      console.log('✅ Synced OpenAI API key to database');
-    }
 
-    if (claudeMatch && claudeMatch[1] && claudeMatch[1] !== 'your_claude_api_key_here') {
-      const key = claudeMatch[1].trim();
-      this.setSetting('claudeApiKey', key);
-      console.log('✅ Synced Claude API key to database');
-    }
-
-    if (deepseekMatch && deepseekMatch[1] && deepseekMatch[1] !== 'your_deepseek_api_key_here') {
-      const key = deepseekMatch[1].trim();
-      this.setSetting('deepseekApiKey', key);
-      console.log('✅ Synced DeepSeek API key to database');
-    }
+    PROVIDER_DEFINITIONS.forEach(provider => {
+      const match = envContent.match(new RegExp(`${provider.envVar}=(.+)`));
+      if (match && match[1] && match[1] !== provider.apiKeyPlaceholder) {
+        const key = match[1].trim();
+        this.setSetting(provider.apiKeySetting, key);
+        console.log(`✅ Synced ${provider.name} API key to database`);
+      }
+    });
 
     console.log('✅ Env to database sync completed');
   }
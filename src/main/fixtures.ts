@@ -0,0 +1,130 @@
+import { app } from 'electron';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FixtureMode } from '@/shared/types';
+import type { AIProviderBackend, KeyTestResult, ProviderRequest, ProviderResponse } from './providers';
+import type { ModelInfo } from '@/shared/models';
+
+// Reasoning and reply are replayed in pieces so streaming code paths still run
+const REPLAY_CHUNK_SIZE = 24;
+
+// What identifies a request: everything sent to the model, minus credentials and
+// machine-specific details (image paths become flags, image data a hash)
+interface FixtureRequest {
+  providerId: string;
+  modelId: string;
+  text: string;
+  imageSha256?: string;
+  systemPrompt?: string;
+  chatHistory: { role: string; content: string; hasImage: boolean }[];
+  generation: ProviderRequest['generation'];
+  responseSchema?: ProviderRequest['responseSchema'];
+  tools?: string[];
+  toolTurns?: ProviderRequest['toolTurns'];
+}
+
+interface Fixture {
+  recordedAt: string;
+  request: FixtureRequest;
+  response: ProviderResponse;
+}
+
+// Saves real provider request/response pairs as JSON files and answers from them,
+// so the whole send pipeline can run on a machine without network or API keys
+class FixtureStore {
+  // Under the app's own data folder, since the working directory of a packaged app can be anywhere
+  get directory(): string {
+    return path.join(app.getPath('userData'), 'fixtures');
+  }
+
+  // The file a request is stored in; identical requests share one fixture
+  private getFixturePath(request: FixtureRequest): string {
+    const hash = crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, 16);
+    const model = request.modelId.replace(/[^a-zA-Z0-9._-]+/g, '_');
+    return path.join(this.directory, request.providerId, `${model}-${hash}.json`);
+  }
+
+  private describeRequest(providerId: string, request: ProviderRequest): FixtureRequest {
+    return {
+      providerId,
+      modelId: request.modelId,
+      text: request.text,
+      imageSha256: request.image ? crypto.createHash('sha256').update(request.image).digest('hex') : undefined,
+      systemPrompt: request.systemPrompt,
+      chatHistory: (request.chatHistory || []).map(msg => ({ role: msg.role, content: msg.content, hasImage: !!msg.imagePath })),
+      generation: request.generation,
+      responseSchema: request.responseSchema,
+      tools: request.tools?.map(tool => tool.name),
+      toolTurns: request.toolTurns
+    };
+  }
+
+  record(providerId: string, request: ProviderRequest, response: ProviderResponse): void {
+    const fixtureRequest = this.describeRequest(providerId, request);
+    const fixturePath = this.getFixturePath(fixtureRequest);
+    const fixture: Fixture = { recordedAt: new Date().toISOString(), request: fixtureRequest, response };
+
+    try {
+      fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+      fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2));
+      console.log(`📼 Recorded fixture: ${path.relative(this.directory, fixturePath)}`);
+    } catch (error: any) {
+      // A failed recording must not fail the reply the user is waiting for
+      console.error('❌ Failed to record fixture:', error.message);
+    }
+  }
+
+  async replay(providerId: string, request: ProviderRequest): Promise<ProviderResponse> {
+    const fixtureRequest = this.describeRequest(providerId, request);
+    // Nothing is sent, so the audit log gets what the fixture is matched on
+    request.onRequestBody?.(fixtureRequest);
+    const fixturePath = this.getFixturePath(fixtureRequest);
+    if (!fs.existsSync(fixturePath)) {
+      throw new Error(`No recorded fixture for this request (${path.relative(this.directory, fixturePath)}). Record it first with fixture mode set to record.`);
+    }
+
+    const { response }: Fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+    console.log(`📼 Replaying fixture: ${path.relative(this.directory, fixturePath)}`);
+
+    const emit = (text: string | undefined, onDelta?: (delta: string) => void) => {
+      for (let start = 0; text && start < text.length; start += REPLAY_CHUNK_SIZE) {
+        if (request.signal?.aborted) throw new Error('Request cancelled');
+        onDelta?.(text.slice(start, start + REPLAY_CHUNK_SIZE));
+      }
+    };
+    emit(response.reasoning, request.onReasoningDelta);
+    emit(response.content, request.onDelta);
+
+    return response;
+  }
+
+  // Number of recorded fixtures, for the settings screen
+  countFixtures(): number {
+    if (!fs.existsSync(this.directory)) return 0;
+    return fs.readdirSync(this.directory, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .reduce((count, entry) => count + fs.readdirSync(path.join(this.directory, entry.name)).filter(file => file.endsWith('.json')).length, 0);
+  }
+}
+
+export const fixtureStore = new FixtureStore();
+
+// Route a backend's sends through the fixture store; the mock provider is never recorded
+export function withFixtures(backend: AIProviderBackend, mode: FixtureMode = 'off'): AIProviderBackend {
+  if (mode === 'off' || backend.definition.id === 'mock') return backend;
+
+  return {
+    definition: backend.definition,
+    async sendMessage(request: ProviderRequest): Promise<ProviderResponse> {
+      if (mode === 'replay') {
+        return fixtureStore.replay(backend.definition.id, request);
+      }
+      const response = await backend.sendMessage(request);
+      fixtureStore.record(backend.definition.id, request, response);
+      return response;
+    },
+    testApiKey: (apiKey: string, baseUrl?: string): Promise<KeyTestResult> => backend.testApiKey(apiKey, baseUrl),
+    listModels: (apiKey: string, baseUrl?: string): Promise<ModelInfo[]> => backend.listModels(apiKey, baseUrl)
+  };
+}
@@ -0,0 +1,142 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as https from 'https';
+import * as tls from 'tls';
+import * as url from 'url';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import type { AppSettings } from '@/shared/types';
+
+// Loopback is never proxied, so local model servers keep working behind a corporate proxy
+const ALWAYS_DIRECT = ['localhost', '127.0.0.1', '::1'];
+
+// Connection failures that, with a proxy configured, mean the proxy itself couldn't be reached
+const PROXY_CONNECT_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH', 'ETIMEDOUT', 'ECONNRESET', 'EAI_AGAIN']);
+
+// Certificate problems, usually a TLS-inspecting proxy whose root CA isn't trusted yet
+const TLS_ERROR_CODES = new Set([
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'CERT_HAS_EXPIRED',
+  'CERT_UNTRUSTED',
+  'ERR_TLS_CERT_ALTNAME_INVALID'
+]);
+
+// The tunnel's TLS upgrade only sees request options, so the extra CAs are added there
+class CaProxyAgent extends HttpsProxyAgent {
+  constructor(proxyUrl: string, private readonly ca?: (string | Buffer)[]) {
+    // url.parse keeps user:pass in `auth`, which the agent sends as Proxy-Authorization
+    super({ ...url.parse(proxyUrl), ca });
+  }
+
+  callback(...[req, opts]: Parameters<HttpsProxyAgent['callback']>) {
+    return super.callback(req, this.ca ? { ...opts, ca: this.ca } as typeof opts : opts);
+  }
+}
+
+// NO_PROXY-style matching: "*", exact hosts, domain suffixes (".corp.example" or
+// "*.corp.example"), optionally with a port
+export function shouldBypassProxy(url: string, noProxy: string[]): boolean {
+  const { hostname, port, protocol } = new URL(url);
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const effectivePort = port || (protocol === 'https:' ? '443' : '80');
+  if (ALWAYS_DIRECT.includes(host)) return true;
+
+  return noProxy.some(entry => {
+    if (entry === '*') return true;
+    const [pattern, entryPort] = entry.toLowerCase().split(':');
+    if (entryPort && entryPort !== effectivePort) return false;
+    const domain = pattern.replace(/^\*?\./, '');
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+// Proxy, no-proxy list and extra CA bundle for every outbound provider call. Without a
+// proxy setting axios keeps its default behaviour, including HTTPS_PROXY from the environment.
+class NetworkConfig {
+  private signature = '';
+  private proxyUrl?: string;
+  private noProxy: string[] = [];
+  private directAgent?: https.Agent;
+  private proxyAgent?: CaProxyAgent;
+  caError?: string; // Set when the CA bundle couldn't be read
+
+  configure(settings: Pick<AppSettings, 'proxyUrl' | 'noProxy' | 'caBundlePath'>): void {
+    const signature = JSON.stringify([settings.proxyUrl, settings.noProxy, settings.caBundlePath]);
+    if (signature === this.signature) return;
+    this.signature = signature;
+
+    let ca: (string | Buffer)[] | undefined;
+    this.caError = undefined;
+    if (settings.caBundlePath) {
+      try {
+        ca = [...tls.rootCertificates, fs.readFileSync(settings.caBundlePath, 'utf8')];
+      } catch (error: any) {
+        this.caError = `Could not read CA bundle ${settings.caBundlePath}: ${error.message}`;
+        console.error(`❌ ${this.caError}`);
+      }
+    }
+
+    this.proxyUrl = settings.proxyUrl?.trim() || undefined;
+    this.noProxy = (settings.noProxy || '').split(/[,\s]+/).map(entry => entry.trim()).filter(Boolean);
+    this.directAgent = ca ? new https.Agent({ ca, keepAlive: true }) : undefined;
+    this.proxyAgent = undefined;
+    if (this.proxyUrl) {
+      try {
+        this.proxyAgent = new CaProxyAgent(this.proxyUrl, ca);
+      } catch (error: any) {
+        console.error(`❌ Invalid proxy URL ${this.proxyUrl}: ${error.message}`);
+      }
+    }
+    console.log(`🌐 Network: ${this.proxyAgent ? `proxy ${new URL(this.proxyUrl!).host}` : 'direct'}${ca ? ', custom CA bundle' : ''}`);
+  }
+
+  // Agents for one request, and whether it goes through the proxy
+  route(url: string): { httpAgent?: any; httpsAgent?: any; viaProxy: boolean } {
+    if (this.proxyAgent && !shouldBypassProxy(url, this.noProxy)) {
+      return { httpAgent: this.proxyAgent, httpsAgent: this.proxyAgent, viaProxy: true };
+    }
+    return { httpsAgent: this.directAgent, viaProxy: false };
+  }
+
+  get hasProxy(): boolean {
+    return !!this.proxyAgent;
+  }
+}
+
+export const networkConfig = new NetworkConfig();
+
+// Shared axios instance for provider calls and key checks
+export const httpClient = axios.create();
+
+httpClient.interceptors.request.use(config => {
+  const url = axios.getUri(config);
+  const { httpAgent, httpsAgent, viaProxy } = networkConfig.route(url);
+  if (httpAgent) config.httpAgent = httpAgent;
+  if (httpsAgent) config.httpsAgent = httpsAgent;
+  // Our agent does the proxying; stop axios from also applying HTTPS_PROXY
+  if (networkConfig.hasProxy) config.proxy = false;
+  (config as any).viaProxy = viaProxy;
+  return config;
+});
+
+httpClient.interceptors.response.use(undefined, error => {
+  if (error?.config?.viaProxy) error.viaProxy = true;
+  return Promise.reject(error);
+});
+
+// A proxy or certificate failure, as opposed to a problem with the key or the provider
+export function describeNetworkError(error: any): { status: 'proxy_error' | 'tls_error'; message: string } | undefined {
+  if (error?.response?.status === 407) {
+    return { status: 'proxy_error', message: 'Proxy authentication required - check the proxy username and password' };
+  }
+  if (error?.viaProxy && !error.response && PROXY_CONNECT_CODES.has(error.code)) {
+    return { status: 'proxy_error', message: `Cannot reach the proxy (${error.code})` };
+  }
+  if (TLS_ERROR_CODES.has(error?.code)) {
+    return { status: 'tls_error', message: `Certificate not trusted (${error.code}) - add your network's root CA bundle in Settings` };
+  }
+  return undefined;
+}
@@ -0,0 +1,11 @@
+import { nativeImage } from 'electron';
+import * as fs from 'fs';
+import type { ImageSize } from '../shared/image-tokens';
+
+// Pixel size of an image file, or undefined if it's missing or unreadable
+export function readImageSize(imagePath?: string): ImageSize | undefined {
+  if (!imagePath || !fs.existsSync(imagePath)) return undefined;
+  const image = nativeImage.createFromPath(imagePath);
+  if (image.isEmpty()) return undefined;
+  return image.getSize();
+}
@@ -1,457 +1,560 @@
 import { ipcMain, BrowserWindow, shell, app } from 'electron';
 import { getDatabase } from './database';
-import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
+import { requestRegistry } from './request-registry';
+import { modelCatalog } from './model-catalog';
+import { fixtureStore, withFixtures } from './fixtures';
+import { networkConfig } from './http-client';
+import { auditLog } from './audit-log';
+import { toolSandbox } from './tool-sandbox';
+import { responseCache } from './response-cache';
+import { tokenCounter } from './token-counter';
+import { readImageSize } from './image-size';
+import { chatSummarizer } from './chat-summarizer';
+import { memoryIndex } from './memory-index';
+import { getProviderBackend, getProviderBackends, StreamDeltaHandler } from './providers';
+import { getProviderApiKey, getProviderBaseUrl, getModelDisplayName, getProviderDefinition } from '../shared/providers';
+import { DEFAULT_MODELS } from '../shared/models';
+import { DEFAULT_GENERATION_PARAMS, mergeGenerationParams, validateGenerationParams } from '../shared/generation-params';
+import { buildExtractionPrompt, parseExtraction } from '../shared/extraction';
+import { buildMemoryPrompt } from '../shared/memory';
+import { estimateImageTokens } from '../shared/image-tokens';
+import { IMAGE_DESCRIPTION_PROMPT, modelSupportsVision, resolveVisionTarget, withImageDescription, withoutHistoryImages } from '../shared/vision';
+import { getEnabledTools, getToolDefinition, getToolPermission, modelSupportsTools, MAX_TOOL_ROUNDS } from '../shared/tools';
+import type { ToolDefinition } from '../shared/tools';
+import type { OptimizationResult, SummaryLookup } from '../shared/token-optimizer';
+import type { AppSettings, FallbackTarget, GenerationParams, ImageHandling, MemorySource, Message, TokenUsage, ToolCall, ToolResult, ToolTurn } from '@/shared/types';
+import { withRetry, isProviderUnavailable, isRetryableError, DEFAULT_RETRY_OPTIONS } from './retry-policy';
 
 // Version constant - update this when releasing new versions
 const APP_VERSION = '1.1.0';
 
+interface SendParams {
+  text: string;
+  image?: string;
+  apiKey: string;
+  chatHistory?: any[];
+  systemPrompt?: string;
+  modelId?: string;
+  generation?: GenerationParams; // Merged defaults and chat overrides, validated per model before sending
+  disableFallback?: boolean; // Compare mode asks each model directly
+  responseSchema?: { name: string; schema: Record<string, any> }; // Extract mode
+  requestId?: string; // Audit log key shared by every provider call made for this send
+  tools?: ToolDefinition[]; // Tools the model may call, filtered per model before sending
+  toolTurns?: ToolTurn[]; // Earlier tool rounds of this send
+  onDelta?: StreamDeltaHandler;
+  onReasoningDelta?: StreamDeltaHandler;
+  onStreamReset?: () => void; // A new tool round starts, so the text streamed so far isn't the reply
+  onStatus?: (status: string) => void; // Retry and failover progress for the UI
+  signal?: AbortSignal;
+}
+
+interface SendResult {
+  content: string;
+  reasoning?: string; // Reasoning trace, for models that return one
+  toolCalls?: ToolCall[]; // Tools the model asked to run before it answers
+  toolTurns?: ToolTurn[]; // Tool rounds run before the final reply
+  provider: string; // Display name of the provider that answered
+  providerId: string;
+  model: string;
+  modelId: string;
+  generationParams: GenerationParams; // As sent, after validation
+  usage?: TokenUsage;
+  fallbackFrom?: string; // Requested provider ID when a fallback provider answered
+  visionNote?: string; // Set when the image was withheld because the model can't see it
+  cachedAt?: string; // Served from the response cache instead of the provider
+}
+
+interface ProviderCandidate {
+  providerId: string;
+  modelId?: string;
+  apiKey: string;
+}
+
 // AI Service implementation for main process
-class MainAIService {
-  async sendMessage(provider: string, params: {
-    text: string;
-    image?: string;
-    apiKey: string;
-    chatHistory?: any[];
-    modelId?: string;
-  }): Promise<{content: string, provider: string, model: string}> {
+export class MainAIService {
+  async sendMessage(provider: string, params: SendParams): Promise<SendResult> {
     console.log(`🔀 sendMessage called with provider: ${provider}, text: ${params.text.substring(0, 50)}...`);
-    const imageData = params.image;
-    
-    switch (provider.toLowerCase()) {
-      case 'openai':
-        console.log(`🟢 Routing to OpenAI with model: ${params.modelId || 'gpt-4o'}`);
-        const openaiResponse = await this.sendToOpenAI(params);
-        const openaiResult = {
-          content: openaiResponse,
-          provider: 'OpenAI',
-          model: this.getModelDisplayName('openai', params.modelId || 'gpt-4o')
-        };
-        console.log(`✅ OpenAI result - Provider: ${openaiResult.provider}, Model: ${openaiResult.model}, Content preview: "${openaiResult.content.substring(0, 50)}..."`);
-        return openaiResult;
-        
-      case 'claude':
-        console.log(`🟠 Routing to Claude with model: ${params.modelId || 'claude-3-7-sonnet-20250219'}`);
-        const claudeResponse = await this.sendToClaude(params);
-        const claudeResult = {
-          content: claudeResponse,
-          provider: 'Claude',
-          model: this.getModelDisplayName('claude', params.modelId || 'claude-3-7-sonnet-20250219')
-        };
-        console.log(`✅ Claude result - Provider: ${claudeResult.provider}, Model: ${claudeResult.model}, Content preview: "${claudeResult.content.substring(0, 50)}..."`);
-        return claudeResult;
-        
-      case 'deepseek':
-        console.log(`🟣 Routing to DeepSeek with model: ${params.modelId || 'deepseek-chat'}`);
-        const deepseekResponse = await this.sendToDeepSeek(params);
-        const deepseekResult = {
-          content: deepseekResponse,
-          provider: 'DeepSeek',
-          model: this.getModelDisplayName('deepseek', params.modelId || 'deepseek-chat')
-        };
-        console.log(`✅ DeepSeek result - Provider: ${deepseekResult.provider}, Model: ${deepseekResult.model}, Content preview: "${deepseekResult.content.substring(0, 50)}..."`);
-        return deepseekResult;
-        
-      default:
-        console.error(`❌ Unsupported AI provider: ${provider}`);
-        throw new Error(`Unsupported AI provider: ${provider}`);
+
+    if (!getProviderBackend(provider)) {
+      console.error(`❌ Unsupported AI provider: ${provider}`);
+      throw new Error(`Unsupported AI provider: ${provider}`);
     }
-  }
 
-  private getModelDisplayName(provider: string, modelId: string): string {
-    // Map API model IDs to display names
-    const modelMap: { [key: string]: { [key: string]: string } } = {
-      openai: {
-        'gpt-4o': 'GPT-4o',
-        'gpt-4o-mini': 'GPT-4o Mini',
-        'gpt-4-turbo': 'GPT-4 Turbo'
-      },
-      claude: {
-        'claude-3-7-sonnet-20250219': 'Claude Sonnet 3.7',
-        'claude-sonnet-4-20250514': 'Claude Sonnet 4',
-        'claude-opus-4-1-20250805': 'Claude Opus 4.1',
-        'claude-opus-4-20250514': 'Claude Opus 4',
-        'claude-3-5-haiku-20241022': 'Claude Haiku 3.5'
-      },
-      deepseek: {
-        'deepseek-chat': 'DeepSeek Chat',
-        'deepseek-reasoner': 'DeepSeek Reasoner'
-      }
+    // Once output has reached the user, a retry or fallback would duplicate it
+    let receivedOutput = false;
+    const onDelta = (delta: string) => {
+      receivedOutput = true;
+      params.onDelta?.(delta);
+    };
+    const onReasoningDelta = (delta: string) => {
+      receivedOutput = true;
+      params.onReasoningDelta?.(delta);
     };
 
-    return modelMap[provider]?.[modelId] || modelId;
-  }
+    const settings = getDatabase().getSettings();
+    const candidates = this.getProviderCandidates(provider, params, settings);
+    const requestId = params.requestId || `untracked-${Date.now()}`;
+    let lastError: any;
 
-  private async sendToOpenAI(params: { text: string; image?: string; apiKey: string; chatHistory?: any[]; modelId?: string }): Promise<string> {
-    try {
-      console.log(`🤖 OpenAI request - Model: ${params.modelId || 'gpt-4o'}, Text preview: "${params.text.substring(0, 50)}..."`);
-      
-      const messages: any[] = [];
-      
-      // Add system message to clarify identity
-      messages.push({
-        role: 'system',
-        content: 'You are GPT-4, ChatGPT, or another OpenAI language model. You were created by OpenAI, NOT by Anthropic. You are NOT Claude. When asked who you are, always respond that you are an AI assistant made by OpenAI. Never claim to be Claude or any other AI assistant from another company. This is very important - you must identify yourself correctly as an OpenAI model.'
-      });
-      
-      // Add chat history context
-      if (params.chatHistory && params.chatHistory.length > 0) {
-        params.chatHistory.forEach(msg => {
-          if (msg.role === 'user') {
-            const content: any[] = [{ type: 'text', text: msg.content }];
-            if (msg.imagePath && fs.existsSync(msg.imagePath)) {
-              const imageBuffer = fs.readFileSync(msg.imagePath);
-              const imageBase64 = imageBuffer.toString('base64');
-              content.push({ type: 'image_url', image_url: { url: `data:image/png;base64,${imageBase64}` } });
-            }
-            messages.push({
-              role: 'user',
-              content: content.length === 1 ? content[0].text : content
-            });
-          } else if (msg.role === 'assistant') {
-            messages.push({
-              role: 'assistant',
-              content: msg.content
-            });
-          }
-        });
+    for (const [index, candidate] of candidates.entries()) {
+      if (index > 0) {
+        const name = getProviderDefinition(candidate.providerId)!.name;
+        console.log(`↪️ Failing over to ${name} (${candidate.modelId || 'default model'})`);
+        params.onStatus?.(`${getProviderDefinition(candidates[index - 1].providerId)!.name} is unavailable, trying ${name}...`);
       }
-      
-      // Add current message
-      const messageText = params.text.trim() || "What do you see in this image?";
-      messages.push({
-        role: 'user',
-        content: params.image ? [
-          { type: 'text', text: messageText },
-          {
-            type: 'image_url',
-            image_url: {
-              url: `data:image/png;base64,${params.image}`,
-              detail: 'high'
-            }
-          }
-        ] : messageText
-      });
-
-      // Determine if we're using an o1 model (which uses different parameters)
-      const isO1Model = params.modelId?.includes('o1');
-      const requestBody: any = {
-        model: params.modelId || (params.image ? 'gpt-4o' : 'gpt-4o'),
-        messages
-      };
 
-      // o1 models use max_completion_tokens instead of max_tokens and don't support temperature
-      if (isO1Model) {
-        requestBody.max_completion_tokens = 1000;
-      } else {
-        requestBody.max_tokens = 1000;
-        requestBody.temperature = 0.7;
-      }
-
-      console.log(`🔍 OpenAI Request Body:`, JSON.stringify(requestBody, null, 2));
-      console.log(`🌐 Making request to: https://api.openai.com/v1/chat/completions`);
-      console.log(`🔑 Using API key: ${params.apiKey.substring(0, 15)}...`);
-
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        requestBody,
-        {
-          headers: {
-            'Authorization': `Bearer ${params.apiKey}`,
-            'Content-Type': 'application/json'
-          }
+      try {
+        const result = await this.sendWithRetry(candidate, { ...params, requestId, onDelta, onReasoningDelta }, settings);
+        return index > 0 ? { ...result, fallbackFrom: provider } : result;
+      } catch (error: any) {
+        if (params.signal?.aborted || receivedOutput || !isProviderUnavailable(error)) {
+          throw error;
         }
-      );
+        console.error(`❌ ${candidate.providerId} unavailable after retries:`, error.message);
+        lastError = error;
+      }
+    }
 
-      console.log(`🔍 OpenAI Full Response:`, JSON.stringify(response.data, null, 2));
+    throw lastError;
+  }
 
-      const aiResponse = response.data.choices[0]?.message?.content || 'No response from OpenAI';
-      console.log(`🤖 OpenAI response preview: "${aiResponse.substring(0, 100)}..."`);
-      return aiResponse;
-    } catch (error: any) {
-      console.error('OpenAI API Error:', error);
-      throw new Error(error.response?.data?.error?.message || 'Failed to communicate with OpenAI');
+  // The requested provider first, then the configured fallback chain
+  private getProviderCandidates(provider: string, params: SendParams, settings: AppSettings): ProviderCandidate[] {
+    const candidates: ProviderCandidate[] = [
+      { providerId: provider.toLowerCase(), modelId: params.modelId, apiKey: params.apiKey }
+    ];
+    if (params.disableFallback) {
+      return candidates;
     }
-  }
 
-  private async sendToClaude(params: { text: string; image?: string; apiKey: string; chatHistory?: any[]; modelId?: string }): Promise<string> {
-    try {
-      console.log(`🤖 Claude request - Model: ${params.modelId || 'claude-3-7-sonnet-20250219'}, Text preview: "${params.text.substring(0, 50)}..."`);
-      
-      const messages: any[] = [];
-      
-      // Add chat history context
-      if (params.chatHistory && params.chatHistory.length > 0) {
-        params.chatHistory.forEach(msg => {
-          if (msg.role === 'user') {
-            const content: any[] = [{ type: 'text', text: msg.content }];
-            if (msg.imagePath && fs.existsSync(msg.imagePath)) {
-              const imageBuffer = fs.readFileSync(msg.imagePath);
-              const imageBase64 = imageBuffer.toString('base64');
-              content.unshift({
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: 'image/png',
-                  data: imageBase64
-                }
-              });
-            }
-            messages.push({ role: 'user', content });
-          } else if (msg.role === 'assistant') {
-            messages.push({
-              role: 'assistant',
-              content: [{ type: 'text', text: msg.content }]
-            });
-          }
-        });
-      }
-      
-      // Add current message
-      const messageText = params.text.trim() || "What do you see in this image?";
-      const content: any[] = [{ type: 'text', text: messageText }];
-      if (params.image) {
-        content.unshift({
-          type: 'image',
-          source: {
-            type: 'base64',
-            media_type: 'image/png',
-            data: params.image
-          }
-        });
+    (settings.fallbackChain || []).forEach(target => {
+      const definition = getProviderDefinition(target.provider);
+      if (!definition) return;
+
+      const apiKey = getProviderApiKey(settings, definition.id) || '';
+      if (!apiKey && !definition.apiKeyOptional) return;
+
+      const modelId = target.model || settings.selectedModels?.[definition.id];
+      const isDuplicate = candidates.some(c => c.providerId === definition.id && (c.modelId || '') === (modelId || ''));
+      if (!isDuplicate) {
+        candidates.push({ providerId: definition.id, modelId, apiKey });
       }
-      messages.push({ role: 'user', content });
-
-      const response = await axios.post(
-        'https://api.anthropic.com/v1/messages',
-        {
-          model: params.modelId || 'claude-3-7-sonnet-20250219',
-          max_tokens: 1000,
-          messages,
-          system: 'You are Claude, an AI assistant made by Anthropic. Please identify yourself correctly as Claude when asked.'
-        },
-        {
-          headers: {
-            'x-api-key': params.apiKey,
-            'Content-Type': 'application/json',
-            'anthropic-version': '2023-06-01'
-          }
-        }
-      );
+    });
 
-      const aiResponse = response.data.content[0]?.text || 'No response from Claude';
-      console.log(`🤖 Claude response preview: "${aiResponse.substring(0, 100)}..."`);
-      return aiResponse;
-    } catch (error: any) {
-      console.error('Claude API Error:', error);
-      throw new Error(error.response?.data?.error?.message || 'Failed to communicate with Claude');
-    }
+    return candidates;
   }
 
-  private async sendToDeepSeek(params: { text: string; image?: string; apiKey: string; chatHistory?: any[]; modelId?: string }): Promise<string> {
-    try {
-      console.log(`🤖 DeepSeek request - Model: ${params.modelId || 'deepseek-chat'}, Text preview: "${params.text.substring(0, 50)}..."`);
-      
-      const messages: any[] = [];
-      
-      // Add system message to clarify identity
-      messages.push({
-        role: 'system',
-        content: 'You are DeepSeek, an AI assistant made by DeepSeek AI. You are NOT Claude or ChatGPT. Please respond as DeepSeek and identify yourself correctly.'
+  // Send, run the tools the model asks for, and send the results back until it answers.
+  // Later rounds stay on the model that made the calls, since tool turns are serialized in
+  // its provider's format and a fallback could not continue them.
+  async sendMessageWithTools(provider: string, params: SendParams & { runTool: (call: ToolCall) => Promise<ToolResult> }): Promise<SendResult> {
+    const { runTool, ...sendParams } = params;
+    const toolTurns: ToolTurn[] = [];
+    let usage: TokenUsage | undefined;
+    let target = { provider, modelId: params.modelId, apiKey: params.apiKey };
+
+    for (let round = 1; ; round++) {
+      // The round after the last allowed one gets no tools, so the model has to answer in text
+      const finalRound = round > MAX_TOOL_ROUNDS;
+      const result = await this.sendMessage(target.provider, {
+        ...sendParams,
+        ...target,
+        tools: finalRound ? undefined : sendParams.tools,
+        toolTurns,
+        disableFallback: sendParams.disableFallback || round > 1
       });
-      
-      // Add chat history context
-      if (params.chatHistory && params.chatHistory.length > 0) {
-        params.chatHistory.forEach(msg => {
-          if (msg.role === 'user') {
-            // For DeepSeek, use simple text format for history
-            messages.push({
-              role: 'user',
-              content: msg.content
-            });
-          } else if (msg.role === 'assistant') {
-            messages.push({
-              role: 'assistant',
-              content: msg.content
-            });
-          }
-        });
-      }
-      
-      // Add current message - DeepSeek uses different format for vision
-      const messageText = params.text.trim() || "What do you see in this image?";
-      if (params.image) {
-        // For now, disable image support for DeepSeek to avoid format errors
-        messages.push({
-          role: 'user',
-          content: messageText + " [Note: Image was provided but DeepSeek vision API format needs verification]"
-        });
-      } else {
-        messages.push({
-          role: 'user',
-          content: messageText
-        });
+      usage = addUsage(usage, result.usage);
+
+      if (!result.toolCalls?.length || finalRound) {
+        const content = result.content || (result.toolCalls?.length ? `Stopped after ${MAX_TOOL_ROUNDS} rounds of tool calls without an answer.` : '');
+        return { ...result, content, toolCalls: undefined, toolTurns, usage };
       }
 
-      const response = await axios.post(
-        'https://api.deepseek.com/v1/chat/completions',
-        {
-          model: params.modelId || 'deepseek-chat', // Use text model for now until vision format is resolved
-          messages,
-          max_tokens: 1000,
-          temperature: 0.7
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${params.apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
+      // This round's text belongs to its tool turn; the next round streams the reply afresh
+      params.onStreamReset?.();
+      const results: ToolResult[] = [];
+      for (const call of result.toolCalls) {
+        params.onStatus?.(`Running tool "${getToolDefinition(call.name)?.label || call.name}"...`);
+        results.push(await runTool(call));
+      }
+      toolTurns.push({ content: result.content, calls: result.toolCalls, results });
 
-      const aiResponse = response.data.choices[0]?.message?.content || 'No response from DeepSeek';
-      console.log(`🤖 DeepSeek response preview: "${aiResponse.substring(0, 100)}..."`);
-      return aiResponse;
-    } catch (error: any) {
-      console.error('DeepSeek API Error:', error);
-      throw new Error(error.response?.data?.error?.message || 'Failed to communicate with DeepSeek');
+      if (result.providerId !== target.provider) {
+        target = { provider: result.providerId, modelId: result.modelId, apiKey: getProviderApiKey(getDatabase().getSettings(), result.providerId) || '' };
+      } else {
+        target.modelId = result.modelId;
+      }
     }
   }
-}
 
-const aiService = new MainAIService();
+  private async sendWithRetry(candidate: ProviderCandidate, params: SendParams, settings: AppSettings): Promise<SendResult> {
+    // Fixture mode records real replies to disk or answers from them without the network
+    const backend = withFixtures(getProviderBackend(candidate.providerId)!, settings.fixtureMode);
+    const { definition } = backend;
+    const baseUrl = getProviderBaseUrl(settings, definition.id);
+
+    // Providers without a fixed catalog fall back to the first model the endpoint reports
+    let modelId = candidate.modelId || definition.defaultModel;
+    if (!modelId && definition.discoverModels) {
+      const models = await backend.listModels(candidate.apiKey, baseUrl);
+      modelId = models[0]?.id;
+    }
+    if (!modelId) {
+      throw new Error(`No model available for ${definition.name}`);
+    }
+    console.log(`🔀 Routing to ${definition.name} with model: ${modelId}`);
+
+    // Validated per candidate, since a fallback may be a model with different limits
+    const model = modelCatalog.findModel(definition.id, modelId);
+    const { params: generation, adjustments } = validateGenerationParams(
+      params.generation || DEFAULT_GENERATION_PARAMS,
+      model,
+      definition.capabilities.maxTemperature
+    );
+    adjustments.forEach(note => console.log(`🎛️ ${definition.name}: ${note}`));
+
+    // Text-only models never receive images, including a fallback picked after the choice was made
+    const modelName = model?.name || getModelDisplayName(definition.id, modelId);
+    let visionNote: string | undefined;
+    let { image, chatHistory } = params;
+    if (!modelSupportsVision(definition.id, modelId, model)) {
+      if (image) {
+        visionNote = `Image not sent: ${modelName} has no vision support`;
+        console.log(`🙈 ${visionNote}`);
+        image = undefined;
+      }
+      chatHistory = chatHistory && withoutHistoryImages(chatHistory);
+    }
 
-// API Key Testing Functions
-async function testOpenAIKey(keyStatus: any) {
-  if (!keyStatus.key) {
-    keyStatus.status = 'not_configured';
-    keyStatus.message = 'API key not configured';
-    return;
-  }
+    // Tool results that are images only go to models that can see them
+    let { tools, toolTurns } = params;
+    if (!modelSupportsTools(definition.id, modelId, model)) {
+      tools = undefined;
+    } else if (tools && !modelSupportsVision(definition.id, modelId, model)) {
+      tools = tools.filter(tool => !tool.returnsImage);
+      toolTurns = toolTurns?.map(turn => ({
+        ...turn,
+        results: turn.results.map(({ imagePath, ...result }) => result)
+      }));
+    }
+    tools = tools?.length ? tools : undefined;
 
-  try {
-    const response = await axios.post(
-      'https://api.openai.com/v1/chat/completions',
-      {
-        model: 'gpt-3.5-turbo',
-        messages: [{ role: 'user', content: 'test' }],
-        max_tokens: 1
-      },
+    // A stream that fails partway is not retried, since the output already shown would repeat
+    let receivedOutput = false;
+    const onDelta = (delta: string) => {
+      receivedOutput = true;
+      params.onDelta?.(delta);
+    };
+    const onReasoningDelta = (delta: string) => {
+      receivedOutput = true;
+      params.onReasoningDelta?.(delta);
+    };
+
+    const request = { ...params, image, chatHistory, tools, toolTurns, apiKey: candidate.apiKey, baseUrl, modelId, generation, onDelta, onReasoningDelta };
+    const requestId = params.requestId || `untracked-${Date.now()}`;
+    let attempt = 0;
+    const { content, reasoning, toolCalls, usage } = await withRetry(
+      () => auditLog.track(requestId, definition.id, ++attempt, request, tracked => backend.sendMessage(tracked)),
       {
-        headers: {
-          'Authorization': `Bearer ${keyStatus.key}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 10000
+        signal: params.signal,
+        shouldRetry: error => !receivedOutput && isRetryableError(error),
+        onRetry: ({ attempt, delayMs, error }) => {
+          console.log(`🔁 ${definition.name} ${error.status || error.code} - retry ${attempt}/${DEFAULT_RETRY_OPTIONS.maxRetries} in ${delayMs}ms`);
+          params.onStatus?.(`${definition.name} is busy, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt}/${DEFAULT_RETRY_OPTIONS.maxRetries})...`);
+        }
       }
     );
-    
-    keyStatus.status = 'ready';
-    keyStatus.message = 'API key working';
-  } catch (error: any) {
-    if (error.response?.status === 401) {
-      keyStatus.status = 'invalid';
-      keyStatus.message = 'Invalid API key';
-    } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-      keyStatus.status = 'server_down';
-      keyStatus.message = 'Cannot reach OpenAI servers';
-    } else {
-      keyStatus.status = 'error';
-      keyStatus.message = error.response?.data?.error?.message || 'Unknown error';
-    }
+
+    const result = {
+      content,
+      reasoning,
+      toolCalls,
+      provider: definition.name,
+      providerId: definition.id,
+      model: modelName,
+      modelId,
+      generationParams: generation,
+      usage,
+      visionNote
+    };
+    console.log(`✅ ${result.provider} result - Provider: ${result.provider}, Model: ${result.model}, Content preview: "${result.content.substring(0, 50)}..."`);
+    return result;
   }
-}
 
-async function testClaudeKey(keyStatus: any) {
-  if (!keyStatus.key) {
-    keyStatus.status = 'not_configured';
-    keyStatus.message = 'API key not configured';
-    return;
+  // Have a vision model write a text description of an image for a text-only model
+  async describeImage(target: Required<FallbackTarget>, image: string, settings: AppSettings, params: Pick<SendParams, 'requestId' | 'onStatus' | 'signal'>): Promise<SendResult> {
+    console.log(`🖼️ Describing image with ${target.provider} (${target.model})`);
+    params.onStatus?.(`Describing the image with ${getModelDisplayName(target.provider, target.model)}...`);
+
+    const result = await this.sendWithRetry(
+      { providerId: target.provider, modelId: target.model, apiKey: getProviderApiKey(settings, target.provider) || '' },
+      { text: IMAGE_DESCRIPTION_PROMPT, image, apiKey: '', generation: DEFAULT_GENERATION_PARAMS, ...params },
+      settings
+    );
+    return result;
   }
 
-  try {
-    const response = await axios.post(
-      'https://api.anthropic.com/v1/messages',
-      {
-        model: 'claude-3-7-sonnet-20250219',
-        max_tokens: 1,
-        messages: [{ 
-          role: 'user', 
-          content: 'test'
-        }]
-      },
-      {
-        headers: {
-          'x-api-key': keyStatus.key,
-          'Content-Type': 'application/json',
-          'anthropic-version': '2023-06-01'
-        },
-        timeout: 10000
-      }
+  // Have the summary model condense older chat messages into a context checkpoint
+  async summarizeMessages(target: Required<FallbackTarget>, messages: Message[], settings: AppSettings, params: Pick<SendParams, 'requestId' | 'onStatus' | 'signal'>): Promise<SendResult> {
+    const { buildSummaryPrompt } = require('../shared/token-optimizer');
+    console.log(`📝 Summarizing ${messages.length} messages with ${target.provider} (${target.model})`);
+    params.onStatus?.(`Summarizing earlier messages with ${getModelDisplayName(target.provider, target.model)}...`);
+
+    return this.sendWithRetry(
+      { providerId: target.provider, modelId: target.model, apiKey: getProviderApiKey(settings, target.provider) || '' },
+      { text: buildSummaryPrompt(messages), apiKey: '', generation: DEFAULT_GENERATION_PARAMS, ...params },
+      settings
     );
-    
-    keyStatus.status = 'ready';
-    keyStatus.message = 'API key working';
-  } catch (error: any) {
-    console.error('Claude API Test Error:', error.response?.data || error.message);
-    if (error.response?.status === 401) {
-      keyStatus.status = 'invalid';
-      keyStatus.message = 'Invalid API key';
-    } else if (error.response?.status === 429 || error.response?.data?.error?.type === 'rate_limit_error') {
-      keyStatus.status = 'error';
-      keyStatus.message = 'Rate limit exceeded, try again later';
-    } else if (error.response?.data?.error?.type === 'overloaded_error') {
-      keyStatus.status = 'error';
-      keyStatus.message = 'Claude servers are overloaded, try again later';
-    } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-      keyStatus.status = 'server_down';
-      keyStatus.message = 'Cannot reach Claude servers';
-    } else {
-      keyStatus.status = 'error';
-      keyStatus.message = error.response?.data?.error?.message || 'Unknown error';
-    }
   }
 }
 
-async function testDeepSeekKey(keyStatus: any) {
-  if (!keyStatus.key) {
-    keyStatus.status = 'not_configured';
-    keyStatus.message = 'API key not configured';
-    return;
+const aiService = new MainAIService();
+
+// Token usage over several provider calls; undefined unless one of them reported it
+function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!total || !usage) return total || usage;
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    cachedTokens: total.cachedTokens + usage.cachedTokens,
+    cacheWriteTokens: total.cacheWriteTokens + usage.cacheWriteTokens,
+    reasoningTokens: total.reasoningTokens + usage.reasoningTokens
+  };
+}
+
+// Summary checkpoints come from the configured summary model. A range it hasn't summarized
+// yet is summarized once and cached, and the history is optimized again with that summary;
+// without a summary model, or if it fails, the offline keyword summary is used.
+async function optimizeWithModelSummary(
+  optimize: (findSummary: SummaryLookup) => OptimizationResult,
+  settings: AppSettings,
+  params: Pick<SendParams, 'requestId' | 'onStatus' | 'signal'>
+): Promise<{ result: OptimizationResult; summaryCost: number }> {
+  const findSummary: SummaryLookup = messages => chatSummarizer.find(messages);
+  const result = optimize(findSummary);
+  const target = settings.summaryModel;
+  if (result.summarySource !== 'keywords' || !result.summarized?.length || !target?.model) {
+    return { result, summaryCost: 0 };
   }
 
-  try {
-    const response = await axios.post(
-      'https://api.deepseek.com/v1/chat/completions',
-      {
-        model: 'deepseek-chat',
-        messages: [{ role: 'user', content: 'test' }],
-        max_tokens: 1
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${keyStatus.key}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 10000
-      }
-    );
+  let summaryCost = 0;
+  const summarized = result.summarized;
+  const summary = await chatSummarizer.summarize(summarized, async () => {
+    const response = await aiService.summarizeMessages({ provider: target.provider, model: target.model! }, summarized, settings, params);
+    const { calculateUsageCost, estimateChatTokens } = require('../shared/token-optimizer');
+    const usage: TokenUsage = response.usage || {
+      inputTokens: estimateChatTokens(summarized),
+      outputTokens: Math.ceil(response.content.length / 4),
+      cachedTokens: 0,
+      cacheWriteTokens: 0,
+      reasoningTokens: 0
+    };
+    summaryCost = calculateUsageCost(usage, response.providerId, response.modelId).totalCost;
+    return { content: response.content, providerId: response.providerId, modelId: response.modelId };
+  });
+  return { result: summary ? optimize(findSummary) : result, summaryCost };
+}
+
+// Everything a chat request needs besides the target model
+interface ChatRequestContext {
+  imageData: string;
+  chatHistory: any[];
+  systemPrompt?: string;
+  generation: GenerationParams; // Merged defaults and chat overrides, validated per model when sending
+  optimizationUsed: string;
+  actualInputTokens: number; // Estimate, used when the provider doesn't report usage
+  summaryCost: number; // Spent on the summary model for this request's history
+  memorySources: MemorySource[]; // Past messages the memory strategy sent as context
+  memoryCost: number; // Spent on the embedding model to index and search them
+}
+
+// Tokens are counted with the tokenizer of the model the history is optimized for
+async function buildChatRequestContext(
+  text: string,
+  imagePath: string | undefined,
+  chatId: number | undefined,
+  providerId: string,
+  modelId: string | undefined,
+  params: Pick<SendParams, 'requestId' | 'onStatus' | 'signal'> = {}
+): Promise<ChatRequestContext> {
+  const db = getDatabase();
+  const settings = db.getSettings();
+  let imageData = '';
+  let optimizationUsed = 'full-history';
+  let actualInputTokens = 0;
+  let summaryCost = 0;
+  let memorySources: MemorySource[] = [];
+  let memoryCost = 0;
+  
+  if (imagePath && fs.existsSync(imagePath)) {
+    const imageBuffer = fs.readFileSync(imagePath);
+    imageData = imageBuffer.toString('base64');
+  }
+
+  let chatHistory: any[] = [];
+  const chat = chatId ? db.getChat(chatId) : null;
+  let systemPrompt = chat?.systemPrompt;
+  
+  if (chatId) {
+    // Cancelled, failed and unpicked compare replies are kept for the user but never sent back to the model
+    const messages = await tokenCounter.annotate(db.getConversationMessages(chatId), providerId, modelId);
+    const { 
+      applyRollingWindow, 
+      applySmartSummary, 
+      applyRollingWithSummary,
+      estimateMessageTokens
+    } = require('../shared/token-optimizer');
+    
+    // Get optimization strategy from settings
+    const tokenOptimization = settings.tokenOptimization || {
+      strategy: 'full-history',
+      rollingWindowSize: 15,
+      summaryThreshold: 5000
+    };
+    
+    // Apply optimization based on strategy
+    switch (tokenOptimization.strategy) {
+      case 'rolling-window':
+        const rollingResult = applyRollingWindow(messages, tokenOptimization.rollingWindowSize, providerId, modelId);
+        chatHistory = rollingResult.messages;
+        optimizationUsed = 'rolling-window';
+        break;
+      case 'smart-summary':
+        const summaryResult = await optimizeWithModelSummary(
+          findSummary => applySmartSummary(messages, tokenOptimization.summaryThreshold, providerId, modelId, findSummary),
+          settings,
+          params
+        );
+        chatHistory = summaryResult.result.messages;
+        summaryCost = summaryResult.summaryCost;
+        optimizationUsed = 'smart-summary';
+        break;
+      case 'rolling-with-summary':
+        const hybridResult = await optimizeWithModelSummary(
+          findSummary => applyRollingWithSummary(messages, tokenOptimization.rollingWindowSize, tokenOptimization.summaryThreshold, providerId, modelId, findSummary),
+          settings,
+          params
+        );
+        chatHistory = hybridResult.result.messages;
+        summaryCost = hybridResult.summaryCost;
+        optimizationUsed = 'rolling-with-summary';
+        break;
+      case 'memory':
+        // The chat's recent messages, plus whatever past messages from any chat match the request
+        chatHistory = applyRollingWindow(messages, tokenOptimization.rollingWindowSize, providerId, modelId).messages;
+        params.onStatus?.('Searching earlier chats...');
+        const recall = await memoryIndex.recall(text, settings, new Set(chatHistory.map(msg => msg.id)), params.signal);
+        memorySources = recall.sources;
+        memoryCost = recall.cost;
+        if (memorySources.length > 0) {
+          systemPrompt = [buildMemoryPrompt(memorySources), systemPrompt].filter(Boolean).join('\n\n');
+        }
+        optimizationUsed = 'memory';
+        break;
+      default:
+        chatHistory = messages;
+        optimizationUsed = 'full-history';
+    }
+    
+    // Calculate actual input tokens that will be sent
+    actualInputTokens = chatHistory.reduce((total, msg) => total + estimateMessageTokens(msg, providerId, modelId), 0);
     
-    keyStatus.status = 'ready';
-    keyStatus.message = 'API key working';
-  } catch (error: any) {
-    if (error.response?.status === 401) {
-      keyStatus.status = 'invalid';
-      keyStatus.message = 'Invalid API key';
-    } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-      keyStatus.status = 'server_down';
-      keyStatus.message = 'Cannot reach DeepSeek servers';
-    } else {
-      keyStatus.status = 'error';
-      keyStatus.message = error.response?.data?.error?.message || 'Unknown error';
+    // Add current message tokens, its screenshot included
+    const [textTokens, systemPromptTokens] = await tokenCounter.countTexts([text, systemPrompt || ''], providerId, modelId) || [];
+    const imageSize = readImageSize(imagePath);
+    actualInputTokens += estimateMessageTokens({
+      content: text,
+      tokenCount: textTokens,
+      imagePath: imageData ? imagePath : undefined,
+      imageWidth: imageSize?.width,
+      imageHeight: imageSize?.height
+    }, providerId, modelId);
+    if (systemPrompt) {
+      actualInputTokens += estimateMessageTokens({ content: systemPrompt, tokenCount: systemPromptTokens }, providerId, modelId);
     }
   }
+
+  return {
+    imageData,
+    chatHistory,
+    systemPrompt,
+    generation: mergeGenerationParams(DEFAULT_GENERATION_PARAMS, settings.generationDefaults, chat?.generationParams),
+    optimizationUsed,
+    actualInputTokens,
+    summaryCost,
+    memorySources,
+    memoryCost
+  };
+}
+
+// Calculate actual costs from provider-reported usage, falling back to estimates
+// for servers that don't report it
+function buildTrackedResult(response: SendResult, context: ChatRequestContext) {
+  const { calculateUsageCost } = require('../shared/token-optimizer');
+  const { usage: reportedUsage, ...responseFields } = response;
+  const usage: TokenUsage = reportedUsage || {
+    inputTokens: context.actualInputTokens,
+    outputTokens: Math.ceil(response.content.length / 4),
+    cachedTokens: 0,
+    cacheWriteTokens: 0,
+    reasoningTokens: 0
+  };
+  // Bill the provider that actually answered, which may be a fallback
+  const { inputCost, outputCost, totalCost } = calculateUsageCost(usage, response.providerId, response.modelId);
+  
+  return {
+    ...responseFields,
+    cancelled: false,
+    optimizationUsed: context.optimizationUsed,
+    memorySources: context.memorySources.length > 0 ? context.memorySources : undefined,
+    usageReported: !!reportedUsage,
+    actualInputTokens: usage.inputTokens,
+    actualOutputTokens: usage.outputTokens,
+    cachedTokens: usage.cachedTokens,
+    cacheWriteTokens: usage.cacheWriteTokens,
+    reasoningTokens: usage.reasoningTokens,
+    inputCost,
+    outputCost,
+    totalCost
+  };
+}
+
+// The request already reached the provider, so bill whatever was streamed so far.
+// Providers only report usage once the stream completes, so this stays an estimate.
+function buildCancelledResult(partialContent: string, provider: string, model: string, context: ChatRequestContext, partialReasoning: string = '') {
+  const { calculateUsageCost } = require('../shared/token-optimizer');
+  const reasoningTokens = Math.ceil(partialReasoning.length / 4);
+  const actualOutputTokens = Math.ceil(partialContent.length / 4) + reasoningTokens;
+  const { inputCost, outputCost, totalCost } = calculateUsageCost(
+    { inputTokens: context.actualInputTokens, outputTokens: actualOutputTokens, cachedTokens: 0, cacheWriteTokens: 0, reasoningTokens },
+    provider,
+    model
+  );
+
+  // Labelled like a completed reply: the provider's name and the model's display name
+  const definition = getProviderDefinition(provider);
+  return {
+    content: partialContent,
+    reasoning: partialReasoning || undefined,
+    provider: definition?.name || provider,
+    providerId: definition?.id || provider,
+    model: getModelDisplayName(provider, model),
+    modelId: model,
+    cancelled: true,
+    optimizationUsed: context.optimizationUsed,
+    memorySources: context.memorySources.length > 0 ? context.memorySources : undefined,
+    usageReported: false,
+    actualInputTokens: context.actualInputTokens,
+    actualOutputTokens,
+    cachedTokens: 0,
+    cacheWriteTokens: 0,
+    reasoningTokens,
+    inputCost,
+    outputCost,
+    totalCost
+  };
 }
 
 export function setupIpcHandlers(): void {
@@ -461,6 +564,7 @@ export function setupIpcHandlers(): void {
     console.log('🗄️ Getting database instance...');
     const db = getDatabase();
     console.log('✅ Database instance retrieved');
+    networkConfig.configure(db.getSettings());
 
     console.log('💬 Setting up chat operation handlers...');
     // Chat operations
@@ -485,12 +589,46 @@ export function setupIpcHandlers(): void {
     db.deleteChat(id);
   });
 
+  ipcMain.handle('update-chat-system-prompt', async (_event: any, id: number, systemPrompt: string | null) => {
+    db.updateChatSystemPrompt(id, systemPrompt);
+  });
+
+  ipcMain.handle('update-chat-generation-params', async (_event: any, id: number, params: GenerationParams | null) => {
+    db.updateChatGenerationParams(id, params);
+  });
+
+  // Persona presets
+  ipcMain.handle('get-personas', async () => {
+    return db.getPersonas();
+  });
+
+  ipcMain.handle('save-persona', async (_event: any, persona: { id?: number; name: string; systemPrompt: string }) => {
+    return db.savePersona(persona);
+  });
+
+  ipcMain.handle('delete-persona', async (_event: any, id: number) => {
+    db.deletePersona(id);
+  });
+
+  // Extraction schema operations
+  ipcMain.handle('get-extraction-schemas', async () => {
+    return db.getExtractionSchemas();
+  });
+
+  ipcMain.handle('save-extraction-schema', async (_event: any, schema: { id?: number; name: string; schema: Record<string, any> }) => {
+    return db.saveExtractionSchema(schema);
+  });
+
+  ipcMain.handle('delete-extraction-schema', async (_event: any, id: number) => {
+    db.deleteExtractionSchema(id);
+  });
+
   // Message operations
   ipcMain.handle('save-message', async (_event: any, message: any) => {
     return db.saveMessage(message);
   });
 
-  ipcMain.handle('update-message', async (_event: any, id: number, updates: { content?: string; imagePath?: string }) => {
+  ipcMain.handle('update-message', async (_event: any, id: number, updates: { content?: string; imagePath?: string; imageDescription?: string }) => {
     return db.updateMessage(id, updates);
   });
 
@@ -502,6 +640,10 @@ export function setupIpcHandlers(): void {
     db.deleteMessage(id);
   });
 
+  ipcMain.handle('select-compare-reply', async (_event: any, messageId: number) => {
+    db.selectCompareReply(messageId);
+  });
+
   // Settings operations
   ipcMain.handle('get-settings', async () => {
     return db.getSettings();
@@ -509,6 +651,7 @@ export function setupIpcHandlers(): void {
 
   ipcMain.handle('save-settings', async (_event: any, settings: any) => {
     db.saveSettings(settings);
+    networkConfig.configure(db.getSettings());
   });
 
   // AI operations
@@ -553,8 +696,10 @@ export function setupIpcHandlers(): void {
     }
   });
 
-  // Enhanced AI message sending with optimization tracking
-  ipcMain.handle('send-ai-message-with-tracking', async (_event: any, params: {
+  // Enhanced AI message sending with optimization tracking.
+  // Partial output is pushed to the renderer on 'ai-message-chunk' keyed by requestId;
+  // the resolved value is the complete response once the stream has finished.
+  ipcMain.handle('send-ai-message-with-tracking', async (event: any, params: {
     text: string;
     imagePath?: string;
     provider: string;
@@ -562,114 +707,329 @@ export function setupIpcHandlers(): void {
     chatId?: number;
     modelId?: string;
     optimizationMethod?: string;
+    requestId?: string;
+    imageHandling?: ImageHandling; // How to send an image to a text-only model
+    extractSchema?: { name: string; schema: Record<string, any> }; // Extract mode: reply with JSON matching this schema
+    bypassCache?: boolean; // Call the provider even if the answer is cached
   }) => {
-    const { text, imagePath, provider, apiKey, chatId, modelId } = params;
+    const { imagePath, chatId, requestId, extractSchema, bypassCache } = params;
+    let { text, provider, apiKey, modelId } = params;
     
     console.log(`🔑 send-ai-message-with-tracking called with provider: ${provider}`);
     
+    // Register the request so cancel-ai-message can abort it
+    const registryId = requestId || `untracked-${Date.now()}`;
+    const controller = requestRegistry.register(registryId);
+    let partialContent = '';
+    let partialReasoning = '';
+    let context: ChatRequestContext | undefined;
+    let visionNote: string | undefined;
+    let imageDescription: string | undefined;
+    let descriptionCost = 0;
+
     try {
-      const db = getDatabase();
+      const onDelta = (delta: string) => {
+        partialContent += delta;
+        if (requestId && !event.sender.isDestroyed()) {
+          event.sender.send('ai-message-chunk', { requestId, delta });
+        }
+      };
+
+      const onReasoningDelta = (delta: string) => {
+        partialReasoning += delta;
+        if (requestId && !event.sender.isDestroyed()) {
+          event.sender.send('ai-message-chunk', { requestId, delta, reasoning: true });
+        }
+      };
+
+      // Text from an earlier tool round is kept with that round, not with the reply
+      const onStreamReset = () => {
+        partialContent = '';
+        partialReasoning = '';
+        if (requestId && !event.sender.isDestroyed()) {
+          event.sender.send('ai-message-chunk', { requestId, delta: '', reset: true });
+        }
+      };
+
+      const onStatus = (status: string) => {
+        if (requestId && !event.sender.isDestroyed()) {
+          event.sender.send('ai-message-status', { requestId, status });
+        }
+      };
+
+      context = await buildChatRequestContext(text, imagePath, chatId, provider, modelId, { requestId: registryId, onStatus, signal: controller.signal });
+
+      // The selected model can't see the image: send it to a vision model instead, or
+      // have one describe it first, or leave it out (the default when nothing was chosen)
       const settings = db.getSettings();
-      let imageData = '';
-      
-      if (imagePath && fs.existsSync(imagePath)) {
-        const imageBuffer = fs.readFileSync(imagePath);
-        imageData = imageBuffer.toString('base64');
-      }
+      const requestedModel = modelId || getProviderDefinition(provider)?.defaultModel || DEFAULT_MODELS[provider];
+      let image = context.imageData;
+      if (image && requestedModel && !modelSupportsVision(provider, requestedModel, modelCatalog.findModel(provider, requestedModel))) {
+        const requestedName = getModelDisplayName(provider, requestedModel);
+        const policy = settings.visionFallback && settings.visionFallback !== 'ask' ? settings.visionFallback : 'drop';
+        const handling = params.imageHandling || policy;
+        const visionTarget = handling === 'drop' ? null : resolveVisionTarget(settings);
+        if (handling !== 'drop' && !visionTarget) {
+          throw new Error(`${requestedName} can't see images and no vision-capable model is configured`);
+        }
 
-      let chatHistory: any[] = [];
-      let optimizationUsed = 'full-history';
-      let actualInputTokens = 0;
-      
-      if (chatId) {
-        const messages = db.getChatMessages(chatId);
-        const { 
-          applyRollingWindow, 
-          applySmartSummary, 
-          applyRollingWithSummary,
-          estimateMessageTokens
-        } = require('../shared/token-optimizer');
-        
-        // Get optimization strategy from settings
-        const tokenOptimization = settings.tokenOptimization || {
-          strategy: 'full-history',
-          rollingWindowSize: 15,
-          summaryThreshold: 5000
-        };
-        
-        // Apply optimization based on strategy
-        switch (tokenOptimization.strategy) {
-          case 'rolling-window':
-            const rollingResult = applyRollingWindow(messages, tokenOptimization.rollingWindowSize);
-            chatHistory = rollingResult.messages;
-            optimizationUsed = 'rolling-window';
-            break;
-          case 'smart-summary':
-            const summaryResult = applySmartSummary(messages, tokenOptimization.summaryThreshold);
-            chatHistory = summaryResult.messages;
-            optimizationUsed = 'smart-summary';
-            break;
-          case 'rolling-with-summary':
-            const hybridResult = applyRollingWithSummary(messages, tokenOptimization.rollingWindowSize, tokenOptimization.summaryThreshold);
-            chatHistory = hybridResult.messages;
-            optimizationUsed = 'rolling-with-summary';
-            break;
-          default:
-            chatHistory = messages;
-            optimizationUsed = 'full-history';
+        if (handling === 'route' && visionTarget) {
+          provider = visionTarget.provider;
+          modelId = visionTarget.model;
+          apiKey = getProviderApiKey(settings, provider) || '';
+          visionNote = `Sent to ${getModelDisplayName(provider, modelId)} because ${requestedName} has no vision support`;
+        } else if (handling === 'describe' && visionTarget) {
+          const description = await aiService.describeImage(visionTarget, image, settings, { requestId: registryId, onStatus, signal: controller.signal });
+          imageDescription = description.content.trim();
+          // Billed from the describe call's own usage; servers that don't report it get an estimate
+          // from the prompt and the image, not from the chat request
+          const { calculateUsageCost } = require('../shared/token-optimizer');
+          const descriptionUsage: TokenUsage = description.usage || {
+            inputTokens: Math.ceil(IMAGE_DESCRIPTION_PROMPT.length / 4) + estimateImageTokens(readImageSize(imagePath), description.providerId, description.modelId),
+            outputTokens: Math.ceil(description.content.length / 4),
+            cachedTokens: 0,
+            cacheWriteTokens: 0,
+            reasoningTokens: 0
+          };
+          descriptionCost = calculateUsageCost(descriptionUsage, description.providerId, description.modelId).totalCost;
+          text = withImageDescription(text, imageDescription);
+          image = '';
+          visionNote = `${requestedName} saw a description of the image written by ${description.model}`;
         }
-        
-        // Calculate actual input tokens that will be sent
-        actualInputTokens = chatHistory.reduce((total, msg) => total + estimateMessageTokens(msg), 0);
-        
-        // Add current message tokens
-        actualInputTokens += estimateMessageTokens({ content: text });
+        if (visionNote) console.log(`🖼️ ${visionNote}`);
       }
 
-      const aiService = new MainAIService();
-      const response = await aiService.sendMessage(provider, {
+      // Extract turns carry the schema in the system prompt too, for providers with only a JSON object mode
+      const systemPrompt = extractSchema
+        ? [context.systemPrompt, buildExtractionPrompt(extractSchema.schema)].filter(Boolean).join('\n\n')
+        : context.systemPrompt;
+
+      const sendParams: SendParams = {
         text,
-        image: imageData,
+        image,
         apiKey,
-        chatHistory,
-        modelId
-      });
+        chatHistory: context.chatHistory,
+        systemPrompt,
+        modelId,
+        generation: context.generation,
+        responseSchema: extractSchema,
+        requestId: registryId,
+        onDelta,
+        onReasoningDelta,
+        onStreamReset,
+        onStatus,
+        signal: controller.signal
+      };
 
-      // Calculate actual costs
-      const { estimateCost } = require('../shared/token-optimizer');
-      const model = modelId || 'gpt-4o';
-      const inputCost = estimateCost(actualInputTokens, provider, model, 'input');
-      
-      // Estimate output tokens and cost (rough estimate based on response length)
-      const estimatedOutputTokens = Math.ceil(response.content.length / 4);
-      const outputCost = estimateCost(estimatedOutputTokens, provider, model, 'output');
-      
+      // Extract turns must answer with the schema, so they never get tools
+      const tools = extractSchema ? [] : getEnabledTools(settings);
+      const runTool = async (call: ToolCall): Promise<ToolResult> => {
+        const permission = getToolPermission(db.getSettings(), call.name);
+        const approved = permission === 'allow'
+          || (permission === 'ask' && await toolSandbox.requestConfirmation(event.sender, registryId, call, controller.signal));
+        if (controller.signal.aborted) throw new Error('Request cancelled');
+        if (!approved) {
+          return { callId: call.id, name: call.name, content: 'The user declined this tool call.', isError: true };
+        }
+        return toolSandbox.run(call, { window: BrowserWindow.fromWebContents(event.sender), chatId, signal: controller.signal });
+      };
+
+      // Identical requests to the same model can reuse an earlier answer when the cache is on
+      const cacheTtlHours = settings.responseCacheTtlHours || 0;
+      const cacheKey = cacheTtlHours > 0 ? responseCache.buildKey({
+        providerId: provider,
+        modelId: modelId || getProviderDefinition(provider)?.defaultModel || DEFAULT_MODELS[provider] || '',
+        generation: context.generation,
+        systemPrompt,
+        responseSchema: extractSchema,
+        chatHistory: context.chatHistory,
+        text,
+        image
+      }) : null;
+      const cached = cacheKey && !bypassCache ? responseCache.get(cacheKey) : null;
+
+      let response: SendResult;
+      if (cached) {
+        console.log(`♻️ Answered from the response cache (first answered ${cached.cachedAt})`);
+        response = cached;
+      } else {
+        response = tools.length > 0
+          ? await aiService.sendMessageWithTools(provider, { ...sendParams, tools, runTool })
+          : await aiService.sendMessage(provider, sendParams);
+
+        // Only cache what the requested model answered on its own: a fallback's reply or one
+        // that depended on tool results wouldn't be the answer to this exact request
+        if (cacheKey && response.content && !response.fallbackFrom && !response.toolTurns?.length) {
+          responseCache.save(cacheKey, response, cacheTtlHours);
+        }
+      }
+
+      const result = buildTrackedResult({ ...response, visionNote: visionNote || response.visionNote }, context);
+      const extraction = extractSchema && parseExtraction(result.content, extractSchema.name, extractSchema.schema);
+      if (extraction?.errors.length) {
+        console.log(`🧾 Extraction has ${extraction.errors.length} schema errors`);
+      }
       return {
-        ...response,
-        optimizationUsed,
-        actualInputTokens,
-        inputCost,
-        outputCost,
-        totalCost: inputCost + outputCost
+        ...result,
+        // Stored pretty-printed so the message stays readable as text
+        content: extraction?.data != null ? JSON.stringify(extraction.data, null, 2) : result.content,
+        extraction,
+        imageDescription,
+        // The image description, history summary and memory search are billed to the turn they were made for
+        totalCost: result.totalCost + descriptionCost + context.summaryCost + context.memoryCost
       };
     } catch (error: any) {
+      if (controller.signal.aborted && context) {
+        console.log(`🛑 AI request cancelled after ${partialContent.length} characters`);
+        const result = buildCancelledResult(partialContent, provider, modelId || DEFAULT_MODELS[provider], context, partialReasoning);
+        return {
+          ...result,
+          visionNote,
+          imageDescription,
+          // Spent before the cancel, so billed the same as on a completed reply
+          totalCost: result.totalCost + descriptionCost + context.summaryCost + context.memoryCost
+        };
+      }
+
       console.error('Enhanced AI message sending failed:', error);
       throw error;
+    } finally {
+      requestRegistry.release(registryId);
     }
   });
 
+  // Compare mode: one prompt fanned out to several models in parallel. Chunks and status
+  // updates carry the target's index, and each target resolves to its own result so one
+  // failing model doesn't lose the others. Fallbacks are disabled so every reply comes
+  // from the model that was asked.
+  ipcMain.handle('send-ai-message-compare', async (event: any, params: {
+    text: string;
+    imagePath?: string;
+    chatId?: number;
+    targets: FallbackTarget[];
+    requestId?: string;
+  }) => {
+    const { text, imagePath, chatId, targets, requestId } = params;
+
+    console.log(`⚖️ send-ai-message-compare called with ${targets.length} targets`);
+
+    // One controller for the whole fan-out, so cancelling stops every target
+    const registryId = requestId || `untracked-${Date.now()}`;
+    const controller = requestRegistry.register(registryId);
+
+    try {
+      // The history is shared, so its estimate is counted once with the first target's tokenizer
+      const context = await buildChatRequestContext(text, imagePath, chatId, targets[0]?.provider || 'openai', targets[0]?.model, {
+        requestId: registryId,
+        signal: controller.signal
+      });
+      const settings = db.getSettings();
+
+      return await Promise.all(targets.map(async (target, targetIndex) => {
+        const definition = getProviderDefinition(target.provider);
+        const providerId = definition?.id || target.provider;
+        const modelId = target.model || settings.selectedModels?.[providerId] || DEFAULT_MODELS[providerId];
+        // Each target gets its own audit key so a reply's records don't mix with its siblings'
+        const targetRequestId = `${registryId}/${targetIndex}`;
+        // A history summary or memory search made for the fan-out is billed once, to the first
+        // target, whether its reply completes, is cancelled or fails
+        const contextCost = targetIndex === 0 ? context.summaryCost + context.memoryCost : 0;
+        let partialContent = '';
+        let partialReasoning = '';
+
+        try {
+          const apiKey = getProviderApiKey(settings, providerId) || '';
+          if (!apiKey && !definition?.apiKeyOptional) {
+            throw new Error(`API key not configured for ${definition?.name || target.provider}`);
+          }
+
+          const response = await aiService.sendMessage(providerId, {
+            text,
+            image: context.imageData,
+            apiKey,
+            chatHistory: context.chatHistory,
+            systemPrompt: context.systemPrompt,
+            modelId,
+            generation: context.generation,
+            disableFallback: true,
+            requestId: targetRequestId,
+            onDelta: (delta: string) => {
+              partialContent += delta;
+              if (requestId && !event.sender.isDestroyed()) {
+                event.sender.send('ai-message-chunk', { requestId, delta, targetIndex });
+              }
+            },
+            onReasoningDelta: (delta: string) => {
+              partialReasoning += delta;
+              if (requestId && !event.sender.isDestroyed()) {
+                event.sender.send('ai-message-chunk', { requestId, delta, reasoning: true, targetIndex });
+              }
+            },
+            onStatus: (status: string) => {
+              if (requestId && !event.sender.isDestroyed()) {
+                event.sender.send('ai-message-status', { requestId, status, targetIndex });
+              }
+            },
+            signal: controller.signal
+          });
+
+          const result = buildTrackedResult(response, context);
+          return { ...result, totalCost: result.totalCost + contextCost, requestId: targetRequestId, targetIndex };
+        } catch (error: any) {
+          if (controller.signal.aborted) {
+            const result = buildCancelledResult(partialContent, providerId, modelId, context, partialReasoning);
+            return { ...result, totalCost: result.totalCost + contextCost, requestId: targetRequestId, targetIndex };
+          }
+
+          console.error(`❌ Compare target ${providerId} (${modelId || 'default model'}) failed:`, error.message);
+          return {
+            content: '',
+            provider: definition?.name || providerId,
+            providerId,
+            model: modelId ? getModelDisplayName(providerId, modelId) : '',
+            cancelled: false,
+            error: error.message || 'Request failed',
+            optimizationUsed: context.optimizationUsed,
+            usageReported: false,
+            actualInputTokens: 0,
+            actualOutputTokens: 0,
+            cachedTokens: 0,
+            cacheWriteTokens: 0,
+            reasoningTokens: 0,
+            inputCost: 0,
+            outputCost: 0,
+            totalCost: contextCost,
+            requestId: targetRequestId,
+            targetIndex
+          };
+        }
+      }));
+    } finally {
+      requestRegistry.release(registryId);
+    }
+  });
+
+  ipcMain.handle('respond-tool-confirmation', async (_event: any, confirmationId: string, approved: boolean) => {
+    toolSandbox.resolveConfirmation(confirmationId, approved);
+  });
+
+  ipcMain.handle('cancel-ai-message', async (_event: any, requestId: string) => {
+    return requestRegistry.cancel(requestId);
+  });
+
   // Token optimization operations
   ipcMain.handle('estimate-chat-tokens', async (_event: any, chatId: number) => {
     const db = getDatabase();
-    const messages = db.getChatMessages(chatId);
+    let messages = db.getFoldedChatMessages(chatId);
     
     try {
-      const { estimateChatTokens, estimateAccurateChatCost } = require('../shared/token-optimizer');
+      const { estimateChatTokens, estimateAccurateChatCost, getBilledUsage } = require('../shared/token-optimizer');
       const settings = db.getSettings();
       
-      const totalTokens = estimateChatTokens(messages);
       const fallbackProvider = settings.selectedProvider || 'openai';
-      const fallbackModel = settings.selectedModels?.[fallbackProvider] || 'gpt-4o';
+      const fallbackModel = settings.selectedModels?.[fallbackProvider] || DEFAULT_MODELS[fallbackProvider];
+      messages = await tokenCounter.annotate(messages, fallbackProvider, fallbackModel);
+      const totalTokens = estimateChatTokens(messages, fallbackProvider, fallbackModel);
       
       // Use accurate cost calculation that considers each message's actual model
       const accurateCostBreakdown = estimateAccurateChatCost(messages, fallbackProvider, fallbackModel);
@@ -683,7 +1043,11 @@ export function setupIpcHandlers(): void {
           estimatedOutputCost: accurateCostBreakdown.estimatedOutputCost,
           totalCost: accurateCostBreakdown.totalCost
         },
-        modelBreakdown: accurateCostBreakdown.breakdown
+        modelBreakdown: accurateCostBreakdown.breakdown,
+        imageTokens: accurateCostBreakdown.imageTokens,
+        imageCost: accurateCostBreakdown.imageCost,
+        // Folded replies were still billed
+        billedUsage: getBilledUsage(db.getChatMessages(chatId))
       };
     } catch (error) {
       console.error('Failed to estimate tokens:', error);
@@ -699,7 +1063,7 @@ export function setupIpcHandlers(): void {
 
   ipcMain.handle('get-optimization-preview', async (_event: any, chatId: number) => {
     const db = getDatabase();
-    const messages = db.getChatMessages(chatId);
+    let messages = db.getFoldedChatMessages(chatId);
     const settings = db.getSettings();
     
     try {
@@ -707,29 +1071,35 @@ export function setupIpcHandlers(): void {
         applyRollingWindow, 
         applySmartSummary, 
         applyRollingWithSummary,
-        estimateAccurateChatCost
+        estimateAccurateChatCost,
+        estimateChatTokens
       } = require('../shared/token-optimizer');
       
       const { strategy, rollingWindowSize, summaryThreshold } = settings.tokenOptimization;
       const fallbackProvider = settings.selectedProvider || 'openai';
-      const fallbackModel = settings.selectedModels?.[fallbackProvider] || 'gpt-4o';
+      const fallbackModel = settings.selectedModels?.[fallbackProvider] || DEFAULT_MODELS[fallbackProvider];
+      messages = await tokenCounter.annotate(messages, fallbackProvider, fallbackModel);
       
+      // Previewed with the summaries already cached, never generating one
+      const findSummary: SummaryLookup = msgs => chatSummarizer.find(msgs);
       let result;
       switch (strategy) {
         case 'rolling-window':
-          result = applyRollingWindow(messages, rollingWindowSize);
+        // Memories depend on the message being sent, so only the chat's own share is previewed
+        case 'memory':
+          result = applyRollingWindow(messages, rollingWindowSize, fallbackProvider, fallbackModel);
           break;
         case 'smart-summary':
-          result = applySmartSummary(messages, summaryThreshold);
+          result = applySmartSummary(messages, summaryThreshold, fallbackProvider, fallbackModel, findSummary);
           break;
         case 'rolling-with-summary':
-          result = applyRollingWithSummary(messages, rollingWindowSize, summaryThreshold);
+          result = applyRollingWithSummary(messages, rollingWindowSize, summaryThreshold, fallbackProvider, fallbackModel, findSummary);
           break;
         default:
           result = { 
             messages, 
-            originalTokens: messages.reduce((acc, msg) => acc + Math.ceil(msg.content.length / 4), 0), 
-            optimizedTokens: messages.reduce((acc, msg) => acc + Math.ceil(msg.content.length / 4), 0), 
+            originalTokens: estimateChatTokens(messages, fallbackProvider, fallbackModel), 
+            optimizedTokens: estimateChatTokens(messages, fallbackProvider, fallbackModel), 
             savedTokens: 0, 
             strategy: 'full-history' 
           };
@@ -770,31 +1140,36 @@ export function setupIpcHandlers(): void {
 
   ipcMain.handle('compress-chat-history', async (_event: any, chatId: number) => {
     const db = getDatabase();
-    const messages = db.getChatMessages(chatId);
     const settings = db.getSettings();
+    const selectedProvider = settings.selectedProvider || 'openai';
+    const selectedModel = settings.selectedModels?.[selectedProvider] || DEFAULT_MODELS[selectedProvider];
+    // Compress what the model is sent, so an earlier checkpoint's summary is folded in too
+    const messages = await tokenCounter.annotate(db.getConversationMessages(chatId), selectedProvider, selectedModel);
     
     try {
       const { applySmartSummary } = require('../shared/token-optimizer');
-      const result = applySmartSummary(messages, settings.tokenOptimization.summaryThreshold);
+      const { result, summaryCost } = await optimizeWithModelSummary(
+        findSummary => applySmartSummary(messages, settings.tokenOptimization.summaryThreshold, selectedProvider, selectedModel, findSummary),
+        settings,
+        {}
+      );
       
-      if (result.checkpoint) {
-        // Save the summary message to database
-        const summaryMessage = db.saveMessage({
-          chatId: chatId,
-          role: result.checkpoint.role,
-          content: result.checkpoint.content,
-          provider: result.checkpoint.provider,
-          model: result.checkpoint.model
+      // Fold the messages the summary actually replaced; checkpoint summaries have negative IDs
+      const upToMessageId = Math.max(0, ...(result.summarized || []).map((msg: Message) => msg.id));
+      if (result.checkpoint && upToMessageId > 0) {
+        const checkpoint = db.createCheckpoint({
+          chatId,
+          summary: result.checkpoint.content,
+          upToMessageId,
+          savedTokens: result.savedTokens,
+          cost: summaryCost
         });
-        
-        // Delete the old messages that were summarized
-        const messagesToDelete = messages.slice(0, -Math.max(5, Math.floor(messages.length * 0.3)));
-        messagesToDelete.forEach(msg => db.deleteMessage(msg.id));
+        console.log(`📦 Folded ${checkpoint.messageCount} messages of chat ${chatId} behind checkpoint ${checkpoint.id}`);
         
         return {
           success: true,
-          summaryMessage,
-          deletedCount: messagesToDelete.length,
+          checkpoint,
+          foldedCount: checkpoint.messageCount,
           savedTokens: result.savedTokens
         };
       }
@@ -812,6 +1187,16 @@ export function setupIpcHandlers(): void {
     }
   });
 
+  ipcMain.handle('get-chat-checkpoints', async (_event: any, chatId: number) => {
+    return db.getChatCheckpoints(chatId);
+  });
+
+  ipcMain.handle('restore-checkpoint', async (_event: any, checkpointId: number) => {
+    const restored = db.restoreCheckpoint(checkpointId);
+    if (restored) console.log(`📦 Restored the messages folded behind checkpoint ${checkpointId}`);
+    return restored;
+  });
+
   // Window operations
   ipcMain.handle('minimize-window', async (event: any) => {
     const window = BrowserWindow.fromWebContents(event.sender);
@@ -866,41 +1251,23 @@ export function setupIpcHandlers(): void {
   ipcMain.handle('get-api-keys-status', async () => {
     const db = getDatabase();
     const settings = db.getSettings();
-    
-    const keyStatus = {
-      openai: { key: '', status: 'not_configured', message: '' },
-      claude: { key: '', status: 'not_configured', message: '' },
-      deepseek: { key: '', status: 'not_configured', message: '' }
-    };
 
     // Read current keys from database first, then fallback to .env
-    if (settings.openaiApiKey && settings.openaiApiKey !== 'your_openai_api_key_here') {
-      keyStatus.openai.key = settings.openaiApiKey;
-    }
-    if (settings.claudeApiKey && settings.claudeApiKey !== 'your_claude_api_key_here') {
-      keyStatus.claude.key = settings.claudeApiKey;
-    }
-    if (settings.deepseekApiKey && settings.deepseekApiKey !== 'your_deepseek_api_key_here') {
-      keyStatus.deepseek.key = settings.deepseekApiKey;
-    }
-
     console.log('🔍 API Key Status Check:');
-    console.log('OpenAI key exists:', !!keyStatus.openai.key);
-    console.log('Claude key exists:', !!keyStatus.claude.key);
-    console.log('DeepSeek key exists:', !!keyStatus.deepseek.key);
-
-    // Test each API key
-    await Promise.all([
-      testOpenAIKey(keyStatus.openai),
-      testClaudeKey(keyStatus.claude),
-      testDeepSeekKey(keyStatus.deepseek)
-    ]);
+    const results = await Promise.all(getProviderBackends().map(async (backend) => {
+      const key = getProviderApiKey(settings, backend.definition.id) || '';
+      const baseUrl = getProviderBaseUrl(settings, backend.definition.id);
+      console.log(`${backend.definition.name} key exists:`, !!key);
+      return { id: backend.definition.id, result: await backend.testApiKey(key, baseUrl) };
+    }));
 
     // Map internal status format to expected format
-    const mapStatus = (status: string): 'ready' | 'invalid' | 'error' | 'not-configured' => {
+    const mapStatus = (status: string): 'ready' | 'invalid' | 'error' | 'network-error' | 'not-configured' => {
       switch (status) {
         case 'ready': return 'ready';
         case 'invalid': return 'invalid';
+        case 'proxy_error':
+        case 'tls_error': return 'network-error';
         case 'server_down': 
         case 'error': return 'error';
         case 'not_configured':
@@ -908,39 +1275,31 @@ export function setupIpcHandlers(): void {
       }
     };
 
-    return {
-      openai: mapStatus(keyStatus.openai.status),
-      claude: mapStatus(keyStatus.claude.status),
-      deepseek: mapStatus(keyStatus.deepseek.status)
-    };
+    const keyStatus: Record<string, 'ready' | 'invalid' | 'error' | 'network-error' | 'not-configured'> = {};
+    results.forEach(({ id, result }) => {
+      keyStatus[id] = mapStatus(result.status);
+    });
+    return keyStatus;
   });
 
   ipcMain.handle('save-api-key', async (_event: any, { provider, key }: { provider: string, key: string }) => {
     try {
       console.log(`💾 Saving API key for provider: ${provider}`);
       
+      const definition = getProviderDefinition(provider);
+      if (!definition) {
+        throw new Error(`Unknown provider: ${provider}`);
+      }
+      
       const db = getDatabase();
       const currentSettings = db.getSettings();
       
       // Create the updated settings object
-      const updatedSettings = { ...currentSettings };
-      
-      switch (provider.toLowerCase()) {
-        case 'openai':
-          updatedSettings.openaiApiKey = key;
-          break;
-        case 'claude':
-          updatedSettings.claudeApiKey = key;
-          break;
-        case 'deepseek':
-          updatedSettings.deepseekApiKey = key;
-          break;
-        default:
-          throw new Error(`Unknown provider: ${provider}`);
-      }
+      const updatedSettings = { ...currentSettings, [definition.apiKeySetting]: key };
       
       // Save to database
       db.saveSettings(updatedSettings);
+      modelCatalog.invalidate(definition.id);
       console.log(`✅ API key saved to database for ${provider}`);
       
       return true;
@@ -950,6 +1309,30 @@ export function setupIpcHandlers(): void {
     }
   });
 
+  // Models the saved key can use, from the cache unless it is stale or a refresh is asked for
+  ipcMain.handle('get-model-catalog', async (_event: any, providerId: string, refresh?: boolean) => {
+    return modelCatalog.getCatalog(providerId, refresh);
+  });
+
+  // Recorded provider replies for offline replay
+  ipcMain.handle('get-fixture-status', async () => {
+    return { directory: fixtureStore.directory, count: fixtureStore.countFixtures() };
+  });
+
+  ipcMain.handle('open-fixtures-folder', async () => {
+    fs.mkdirSync(fixtureStore.directory, { recursive: true });
+    await shell.openPath(fixtureStore.directory);
+  });
+
+  // Audit log records of one send, for the request viewer
+  ipcMain.handle('get-audit-records', async (_event: any, requestId: string) => {
+    return db.getAuditRecords(requestId);
+  });
+
+  ipcMain.handle('clear-response-cache', async () => {
+    return responseCache.clear();
+  });
+
   // External link operations
   ipcMain.handle('open-external', async (_event: any, url: string) => {
     await shell.openExternal(url);
@@ -5,6 +5,7 @@ import * as path from 'path';
 import { initDatabase } from './database';
 import { setupIpcHandlers } from './ipc-handlers';
 import { ScreenCaptureService } from './screen-capture';
+import { toolSandbox } from './tool-sandbox';
 
 // Load environment variables from .env file manually
 const envPath = path.join(process.cwd(), '.env');
@@ -32,6 +33,7 @@ class Application {
     console.log('🏗️ Application constructor called');
     console.log('📹 Creating ScreenCaptureService...');
     this.screenCaptureService = new ScreenCaptureService();
+    toolSandbox.useScreenCapture(this.screenCaptureService);
     console.log('✅ ScreenCaptureService created');
     console.log('🔧 Calling init()...');
     this.init();
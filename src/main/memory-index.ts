@@ -0,0 +1,137 @@
+import type { AppSettings, MemorySource } from '@/shared/types';
+import { getDatabase } from './database';
+import { getProviderBackend } from './providers';
+import { getProviderApiKey, getProviderDefinition } from '../shared/providers';
+import { cosineSimilarity, DEFAULT_MEMORY_TOP_K, embedLocally, LOCAL_EMBEDDER, MIN_MEMORY_SCORE, normalizeVector } from '../shared/memory';
+
+// Messages indexed per request, so a long backlog is worked off over several sends instead
+// of stalling one. Embedding on-device is cheap enough to take far more at a time.
+const LOCAL_INDEX_LIMIT = 2000;
+const PROVIDER_INDEX_LIMIT = 256;
+const EMBED_BATCH_SIZE = 64; // Texts per embedding call
+// Characters per token assumed when cutting a text to an embedding model's limit; kept low
+// so code and non-English text, which take more tokens per character, still fit
+const CHARS_PER_TOKEN = 3;
+// Provider statuses that mean the input itself was refused, not that the provider is unavailable
+const REJECTED_INPUT_STATUSES = new Set([400, 413, 422]);
+
+interface Embedder {
+  id: string; // Stored with each vector; only vectors from the same embedder are compared
+  name: string;
+  embed(texts: string[], signal?: AbortSignal): Promise<{ vectors: Float32Array[]; cost: number }>;
+  indexLimit: number;
+}
+
+export interface MemoryRecall {
+  sources: MemorySource[];
+  cost: number; // Spent on the embedding model, indexing included
+}
+
+const localEmbedder: Embedder = {
+  id: LOCAL_EMBEDDER,
+  name: 'on-device embeddings',
+  embed: async texts => ({ vectors: texts.map(embedLocally), cost: 0 }),
+  indexLimit: LOCAL_INDEX_LIMIT
+};
+
+// Embeddings of past messages from every chat, searched for the ones closest to a request
+class MemoryIndex {
+  async recall(query: string, settings: AppSettings, excludeIds: Set<number>, signal?: AbortSignal): Promise<MemoryRecall> {
+    if (!query.trim()) return { sources: [], cost: 0 };
+
+    const embedder = this.resolveEmbedder(settings);
+    let cost = 0;
+    try {
+      cost += await this.update(embedder, signal);
+      const queryEmbedding = await embedder.embed([query], signal);
+      cost += queryEmbedding.cost;
+
+      const scores = getDatabase().getMessageEmbeddings(embedder.id)
+        .filter(({ messageId }) => !excludeIds.has(messageId))
+        .map(({ messageId, vector }) => ({ messageId, score: cosineSimilarity(queryEmbedding.vectors[0], vector) }))
+        .filter(({ score }) => score >= MIN_MEMORY_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, settings.memoryTopK ?? DEFAULT_MEMORY_TOP_K);
+
+      const sources = getDatabase().getMemorySources(new Map(scores.map(({ messageId, score }) => [messageId, score])));
+      console.log(`🧠 Recalled ${sources.length} past messages with ${embedder.name}`);
+      return { sources, cost };
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      // Memory is extra context; the request goes ahead without it
+      console.error(`❌ Memory recall with ${embedder.name} failed:`, error.response?.data || error.message);
+      return { sources: [], cost };
+    }
+  }
+
+  // Embed messages that have no vector from this embedder yet; returns what that cost
+  private async update(embedder: Embedder, signal?: AbortSignal): Promise<number> {
+    const db = getDatabase();
+    const pending = db.getUnembeddedMessages(embedder.id, embedder.indexLimit);
+    let cost = 0;
+    for (let start = 0; start < pending.length; start += EMBED_BATCH_SIZE) {
+      const batch = pending.slice(start, start + EMBED_BATCH_SIZE);
+      try {
+        const { vectors, cost: batchCost } = await embedder.embed(batch.map(msg => msg.text), signal);
+        db.saveMessageEmbeddings(embedder.id, batch.map((msg, i) => ({ messageId: msg.id, vector: vectors[i] })));
+        cost += batchCost;
+      } catch (error: any) {
+        if (signal?.aborted || !REJECTED_INPUT_STATUSES.has(error.response?.status)) throw error;
+        // One text the model refuses fails its whole batch, so embed them one at a time
+        cost += await this.embedEach(embedder, batch, signal);
+      }
+    }
+    if (pending.length > 0) {
+      console.log(`🧠 Indexed ${pending.length} messages with ${embedder.name}`);
+    }
+    return cost;
+  }
+
+  // Messages the model still refuses get an empty vector, which never matches, so they
+  // aren't sent again on every request and the rest of the backlog keeps moving
+  private async embedEach(embedder: Embedder, messages: Array<{ id: number; text: string }>, signal?: AbortSignal): Promise<number> {
+    let cost = 0;
+    for (const msg of messages) {
+      let vector: Float32Array = new Float32Array(0);
+      try {
+        const embedding = await embedder.embed([msg.text], signal);
+        vector = embedding.vectors[0];
+        cost += embedding.cost;
+      } catch (error: any) {
+        if (signal?.aborted || !REJECTED_INPUT_STATUSES.has(error.response?.status)) throw error;
+        console.error(`❌ ${embedder.name} refused message ${msg.id}, leaving it out of memory:`, error.response?.data || error.message);
+      }
+      getDatabase().saveMessageEmbeddings(embedder.id, [{ messageId: msg.id, vector }]);
+    }
+    return cost;
+  }
+
+  // The configured embedding model, or the on-device embedder when none is set or it can't be used
+  private resolveEmbedder(settings: AppSettings): Embedder {
+    const target = settings.memoryEmbedding;
+    if (!target) return localEmbedder;
+
+    const definition = getProviderDefinition(target.provider);
+    const model = definition?.embeddingModels?.find(m => m.id === target.model) || definition?.embeddingModels?.[0];
+    const backend = getProviderBackend(target.provider);
+    const apiKey = getProviderApiKey(settings, target.provider);
+    if (!definition || !model || !backend?.embed || !apiKey) {
+      console.log(`⚠️ ${target.provider} embeddings unavailable, using on-device embeddings`);
+      return localEmbedder;
+    }
+
+    const embed = backend.embed.bind(backend);
+    return {
+      id: `${definition.id}:${model.id}`,
+      name: model.name,
+      embed: async (texts, signal) => {
+        const maxLength = model.maxInputTokens * CHARS_PER_TOKEN;
+        const response = await embed({ texts: texts.map(text => text.slice(0, maxLength)), apiKey, modelId: model.id, signal });
+        return { vectors: response.vectors.map(normalizeVector), cost: response.inputTokens * model.price / 1000 };
+      },
+      indexLimit: PROVIDER_INDEX_LIMIT
+    };
+  }
+}
+
+export const memoryIndex = new MemoryIndex();
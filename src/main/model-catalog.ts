@@ -0,0 +1,76 @@
+import { getDatabase } from './database';
+import { getProviderBackend } from './providers';
+import { getProviderApiKey, getProviderBaseUrl, getModelInfo } from '../shared/providers';
+import { findCatalogModel, MODEL_CATALOG_TTL_MS, ModelCatalog } from '../shared/model-catalog';
+import type { ModelInfo } from '@/shared/models';
+
+// Lists each provider's models with the saved key and caches them in SQLite, so the
+// model pickers show what the account can actually use without asking on every open
+class ModelCatalogService {
+  private pending = new Map<string, Promise<ModelCatalog>>();
+
+  async getCatalog(providerId: string, refresh: boolean = false): Promise<ModelCatalog> {
+    const backend = getProviderBackend(providerId);
+    if (!backend) {
+      throw new Error(`Unknown provider: ${providerId}`);
+    }
+    const { definition } = backend;
+    const db = getDatabase();
+    const settings = db.getSettings();
+    const apiKey = getProviderApiKey(settings, definition.id) || '';
+
+    if (!apiKey && !definition.apiKeyOptional) {
+      return { providerId: definition.id, models: definition.models, source: 'builtin' };
+    }
+
+    // Local servers are cheap to ask and change their models often, so they are never cached
+    const cached = definition.discoverModels ? null : db.getModelCatalog(definition.id);
+    const isFresh = cached && Date.now() - new Date(cached.refreshedAt).getTime() < MODEL_CATALOG_TTL_MS;
+    if (cached && isFresh && !refresh) {
+      return { providerId: definition.id, models: cached.models, source: 'cache', refreshedAt: cached.refreshedAt };
+    }
+
+    // Pickers mounting together share one request per provider
+    const inFlight = this.pending.get(definition.id);
+    if (inFlight) return inFlight;
+
+    const request = (async (): Promise<ModelCatalog> => {
+      try {
+        console.log(`📚 Listing ${definition.name} models...`);
+        const models = await backend.listModels(apiKey, getProviderBaseUrl(settings, definition.id));
+        const refreshedAt = definition.discoverModels
+          ? new Date().toISOString()
+          : db.saveModelCatalog(definition.id, models);
+        console.log(`✅ ${definition.name} lists ${models.length} models`);
+        return { providerId: definition.id, models, source: 'remote', refreshedAt };
+      } catch (error: any) {
+        console.error(`❌ Failed to list models for ${definition.id}:`, error.message);
+        const message = error.response?.data?.error?.message || error.message || 'Failed to list models';
+        return cached
+          ? { providerId: definition.id, models: cached.models, source: 'cache', refreshedAt: cached.refreshedAt, error: message }
+          : { providerId: definition.id, models: definition.discoverModels ? [] : definition.models, source: 'builtin', error: message };
+      } finally {
+        this.pending.delete(definition.id);
+      }
+    })();
+
+    this.pending.set(definition.id, request);
+    return request;
+  }
+
+  // Metadata for a model, including models only known from the provider's list
+  findModel(providerId: string, modelId: string): ModelInfo | undefined {
+    const known = getModelInfo(providerId, modelId);
+    if (known) return known;
+
+    const cached = getDatabase().getModelCatalog(providerId);
+    return cached ? findCatalogModel(cached.models, modelId) : undefined;
+  }
+
+  // A different key may see different models
+  invalidate(providerId: string): void {
+    getDatabase().clearModelCatalog(providerId);
+  }
+}
+
+export const modelCatalog = new ModelCatalogService();
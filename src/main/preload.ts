@@ -1,5 +1,35 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import { AppSettings, Chat, Message, ScreenCapture } from '../shared/types';
+import { AppSettings, AuditRecord, Chat, ChatCheckpoint, ExtractionResult, ExtractionSchema, FallbackTarget, GenerationParams, ImageHandling, MemorySource, Message, Persona, ScreenCapture, ToolCall, ToolTurn } from '../shared/types';
+import type { ModelCatalog } from '../shared/model-catalog';
+
+// Result of a tracked AI request, with costs from provider-reported usage where available
+interface TrackedAIResponse {
+  content: string;
+  provider: string;
+  providerId: string;
+  fallbackFrom?: string;
+  model: string;
+  generationParams?: GenerationParams;
+  visionNote?: string; // How the image was handled for a text-only model
+  imageDescription?: string; // Set when the image was described before sending
+  extraction?: ExtractionResult; // Set for extract mode requests
+  reasoning?: string; // Reasoning trace, for models that return one
+  requestId?: string; // Key of the request's audit log records, for compare replies
+  toolTurns?: ToolTurn[]; // Tool rounds that came before the reply, to be saved as messages
+  cachedAt?: string; // Set when the reply came from the response cache instead of the provider
+  memorySources?: MemorySource[]; // Past messages retrieved as context by the memory strategy
+  cancelled: boolean;
+  optimizationUsed: string;
+  usageReported: boolean;
+  actualInputTokens: number;
+  actualOutputTokens: number;
+  cachedTokens: number;
+  cacheWriteTokens: number;
+  reasoningTokens: number;
+  inputCost: number;
+  outputCost: number;
+  totalCost: number;
+}
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
@@ -27,11 +57,37 @@ contextBridge.exposeInMainWorld('electronAPI', {
   deleteChat: (id: number): Promise<void> => 
     ipcRenderer.invoke('delete-chat', id),
 
+  updateChatSystemPrompt: (id: number, systemPrompt: string | null): Promise<void> =>
+    ipcRenderer.invoke('update-chat-system-prompt', id, systemPrompt),
+
+  updateChatGenerationParams: (id: number, params: GenerationParams | null): Promise<void> =>
+    ipcRenderer.invoke('update-chat-generation-params', id, params),
+
+  // Persona presets
+  getPersonas: (): Promise<Persona[]> =>
+    ipcRenderer.invoke('get-personas'),
+
+  savePersona: (persona: { id?: number; name: string; systemPrompt: string }): Promise<Persona> =>
+    ipcRenderer.invoke('save-persona', persona),
+
+  deletePersona: (id: number): Promise<void> =>
+    ipcRenderer.invoke('delete-persona', id),
+
+  // Extract mode schemas
+  getExtractionSchemas: (): Promise<ExtractionSchema[]> =>
+    ipcRenderer.invoke('get-extraction-schemas'),
+
+  saveExtractionSchema: (schema: { id?: number; name: string; schema: Record<string, any> }): Promise<ExtractionSchema> =>
+    ipcRenderer.invoke('save-extraction-schema', schema),
+
+  deleteExtractionSchema: (id: number): Promise<void> =>
+    ipcRenderer.invoke('delete-extraction-schema', id),
+
   // Message operations
   saveMessage: (message: Omit<Message, 'id' | 'timestamp'>): Promise<Message> => 
     ipcRenderer.invoke('save-message', message),
   
-  updateMessage: (id: number, updates: { content?: string; imagePath?: string }): Promise<Message | null> => 
+  updateMessage: (id: number, updates: { content?: string; imagePath?: string; imageDescription?: string }): Promise<Message | null> => 
     ipcRenderer.invoke('update-message', id, updates),
   
   getChatMessages: (chatId: number): Promise<Message[]> => 
@@ -40,6 +96,9 @@ contextBridge.exposeInMainWorld('electronAPI', {
   deleteMessage: (id: number): Promise<void> => 
     ipcRenderer.invoke('delete-message', id),
 
+  selectCompareReply: (messageId: number): Promise<void> =>
+    ipcRenderer.invoke('select-compare-reply', messageId),
+
   // Settings operations
   getSettings: (): Promise<AppSettings> => 
     ipcRenderer.invoke('get-settings'),
@@ -56,6 +115,12 @@ contextBridge.exposeInMainWorld('electronAPI', {
     
   compressChatHistory: (chatId: number) =>
     ipcRenderer.invoke('compress-chat-history', chatId),
+
+  getChatCheckpoints: (chatId: number): Promise<ChatCheckpoint[]> =>
+    ipcRenderer.invoke('get-chat-checkpoints', chatId),
+
+  restoreCheckpoint: (checkpointId: number): Promise<boolean> =>
+    ipcRenderer.invoke('restore-checkpoint', checkpointId),
     
   // AI operations
   sendAIMessage: (params: {
@@ -75,28 +140,81 @@ contextBridge.exposeInMainWorld('electronAPI', {
     apiKey: string;
     chatId: number;
     modelId?: string;
-  }): Promise<{
-    content: string;
-    provider: string;
-    model: string;
-    optimizationUsed: string;
-    actualInputTokens: number;
-    inputCost: number;
-    outputCost: number;
-    totalCost: number;
-  }> => 
+    requestId?: string;
+    imageHandling?: ImageHandling; // Required choice when an image is sent to a text-only model
+    extractSchema?: { name: string; schema: Record<string, any> }; // Ask for JSON matching this schema
+    bypassCache?: boolean; // Skip the response cache and call the provider
+  }): Promise<TrackedAIResponse> => 
     ipcRenderer.invoke('send-ai-message-with-tracking', params),
 
+  // Compare mode: the same prompt sent to several models, one result per target in order
+  sendAIMessageCompare: (params: {
+    text: string;
+    imagePath?: string;
+    chatId: number;
+    targets: FallbackTarget[];
+    requestId?: string;
+  }): Promise<Array<TrackedAIResponse & { targetIndex: number; error?: string }>> =>
+    ipcRenderer.invoke('send-ai-message-compare', params),
+
+  cancelAIMessage: (requestId: string): Promise<boolean> =>
+    ipcRenderer.invoke('cancel-ai-message', requestId),
+
+  // Streaming chunks for send-ai-message-with-tracking, returns an unsubscribe function
+  onAIMessageChunk: (callback: (chunk: { requestId: string; delta: string; reasoning?: boolean; reset?: boolean; targetIndex?: number }) => void) => {
+    const listener = (_event: any, chunk: { requestId: string; delta: string; reasoning?: boolean; reset?: boolean; targetIndex?: number }) => callback(chunk);
+    ipcRenderer.on('ai-message-chunk', listener);
+    return () => {
+      ipcRenderer.removeListener('ai-message-chunk', listener);
+    };
+  },
+
+  // Retry and failover progress for send-ai-message-with-tracking, returns an unsubscribe function
+  onAIMessageStatus: (callback: (update: { requestId: string; status: string; targetIndex?: number }) => void) => {
+    const listener = (_event: any, update: { requestId: string; status: string; targetIndex?: number }) => callback(update);
+    ipcRenderer.on('ai-message-status', listener);
+    return () => {
+      ipcRenderer.removeListener('ai-message-status', listener);
+    };
+  },
+
+  // Tool calls waiting for the user's approval, returns an unsubscribe function
+  onToolConfirmation: (callback: (request: { requestId: string; confirmationId: string; call: ToolCall }) => void) => {
+    const listener = (_event: any, request: { requestId: string; confirmationId: string; call: ToolCall }) => callback(request);
+    ipcRenderer.on('ai-tool-confirmation', listener);
+    return () => {
+      ipcRenderer.removeListener('ai-tool-confirmation', listener);
+    };
+  },
+
+  respondToToolConfirmation: (confirmationId: string, approved: boolean): Promise<void> =>
+    ipcRenderer.invoke('respond-tool-confirmation', confirmationId, approved),
+
   // API Key management
-  getApiKeysStatus: (): Promise<{
-    openai: 'ready' | 'invalid' | 'error' | 'not-configured';
-    claude: 'ready' | 'invalid' | 'error' | 'not-configured';
-    deepseek: 'ready' | 'invalid' | 'error' | 'not-configured';
-  }> => 
+  getApiKeysStatus: (): Promise<Record<string, 'ready' | 'invalid' | 'error' | 'network-error' | 'not-configured'>> => 
     ipcRenderer.invoke('get-api-keys-status'),
 
+  // Cached model list for a provider; refresh asks the provider again
+  getModelCatalog: (providerId: string, refresh?: boolean): Promise<ModelCatalog> =>
+    ipcRenderer.invoke('get-model-catalog', providerId, refresh),
+
+  // Offline testing fixtures
+  getFixtureStatus: (): Promise<{ directory: string; count: number }> =>
+    ipcRenderer.invoke('get-fixture-status'),
+
+  openFixturesFolder: (): Promise<void> =>
+    ipcRenderer.invoke('open-fixtures-folder'),
+
+  // Provider calls made for one send, oldest first
+  getAuditRecords: (requestId: string): Promise<AuditRecord[]> =>
+    ipcRenderer.invoke('get-audit-records', requestId),
+
+  // Delete every cached response, resolves to how many were removed
+  clearResponseCache: (): Promise<number> =>
+    ipcRenderer.invoke('clear-response-cache'),
+
   saveApiKey: (provider: string, apiKey: string): Promise<void> => 
-    ipcRenderer.invoke('save-api-key', provider, apiKey),
+    ipcRenderer.invoke('save-api-key', { provider, key: apiKey }),
 
   // Window operations
   minimizeWindow: (): Promise<void> => 
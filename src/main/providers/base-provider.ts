@@ -0,0 +1,287 @@
+import { describeNetworkError, httpClient } from '../http-client';
+import * as fs from 'fs';
+import type { ProviderDefinition } from '../../shared/providers';
+import type { ModelInfo } from '../../shared/models';
+import { mergeModelCatalog, RemoteModel } from '../../shared/model-catalog';
+import { toSchemaIdentifier } from '../../shared/extraction';
+import { readSSEStream, normalizeStreamError } from '../sse-stream';
+import { ProviderError, streamError } from './provider-error';
+import type { TokenUsage, ToolCall } from '../../shared/types';
+import { AIProviderBackend, KeyTestResult, ProviderRequest, ProviderResponse, StreamDeltaHandler } from './types';
+
+// Normalize an OpenAI-style `usage` block; DeepSeek reports cache hits under its own field
+export function parseChatCompletionUsage(usage: any): TokenUsage {
+  return {
+    inputTokens: usage.prompt_tokens || 0,
+    outputTokens: usage.completion_tokens || 0,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens || usage.prompt_cache_hit_tokens || 0,
+    cacheWriteTokens: 0, // Caching is automatic and free for OpenAI-style providers
+    reasoningTokens: usage.completion_tokens_details?.reasoning_tokens || 0
+  };
+}
+
+// A streamed tool call; arguments the model garbled are passed on as empty
+export function parseToolCall(id: string, name: string, rawArguments: string): ToolCall {
+  try {
+    const parsed = rawArguments.trim() ? JSON.parse(rawArguments) : {};
+    return { id, name, arguments: parsed && typeof parsed === 'object' ? parsed : {} };
+  } catch {
+    console.error(`❌ Unparseable arguments for tool ${name}:`, rawArguments);
+    return { id, name, arguments: {} };
+  }
+}
+
+export abstract class BaseProvider implements AIProviderBackend {
+  constructor(public readonly definition: ProviderDefinition) {}
+
+  async sendMessage(request: ProviderRequest): Promise<ProviderResponse> {
+    const { name } = this.definition;
+
+    try {
+      console.log(`🤖 ${name} request - Model: ${request.modelId}, Text preview: "${request.text.substring(0, 50)}..."`);
+
+      const { content, reasoning, toolCalls, usage } = await this.streamResponse(request);
+      // Claude bills thinking as plain output, so its share of the output count is estimated
+      if (reasoning && usage && !usage.reasoningTokens) {
+        usage.reasoningTokens = Math.min(Math.ceil(reasoning.length / 4), usage.outputTokens);
+      }
+
+      // A turn that only calls tools has no text, which is not a missing response
+      const aiResponse = content || (toolCalls?.length ? '' : `No response from ${name}`);
+      console.log(`🤖 ${name} response preview: "${aiResponse.substring(0, 100)}..."`);
+      if (toolCalls?.length) {
+        console.log(`🛠️ ${name} requested tools: ${toolCalls.map(call => call.name).join(', ')}`);
+      }
+      if (usage) {
+        console.log(`📊 ${name} usage - Input: ${usage.inputTokens} (cached ${usage.cachedTokens}, cache write ${usage.cacheWriteTokens}), Output: ${usage.outputTokens} (reasoning ${usage.reasoningTokens})`);
+      }
+      return { content: aiResponse, reasoning: reasoning || undefined, toolCalls: toolCalls?.length ? toolCalls : undefined, usage };
+    } catch (error: any) {
+      // Let the caller tell a user cancellation apart from a provider failure
+      if (request.signal?.aborted) throw error;
+      if (error instanceof ProviderError) {
+        console.error(`${name} stream error:`, error.message);
+        throw error;
+      }
+      await normalizeStreamError(error);
+      console.error(`${name} API Error:`, error.response?.data || error.message);
+      throw ProviderError.fromAxiosError(error, this.definition.id, `Failed to communicate with ${name}`);
+    }
+  }
+
+  async testApiKey(apiKey: string, baseUrl?: string): Promise<KeyTestResult> {
+    if (!apiKey && !this.definition.apiKeyOptional) {
+      return { status: 'not_configured', message: 'API key not configured' };
+    }
+    if (this.definition.baseUrlSetting && !baseUrl) {
+      return { status: 'not_configured', message: 'Base URL not configured' };
+    }
+
+    try {
+      await this.sendTestRequest(apiKey, baseUrl);
+      return { status: 'ready', message: 'API key working' };
+    } catch (error: any) {
+      // Proxy and certificate failures say nothing about the key itself
+      return describeNetworkError(error) || this.describeKeyError(error);
+    }
+  }
+
+  // The account's models with local metadata, or the shipped list for providers that can't list them
+  async listModels(apiKey: string, baseUrl?: string): Promise<ModelInfo[]> {
+    const remoteModels = await this.fetchRemoteModels(apiKey, baseUrl);
+    return remoteModels ? mergeModelCatalog(this.definition, remoteModels) : this.definition.models;
+  }
+
+  // Query the provider's list-models endpoint; null when it has none
+  protected async fetchRemoteModels(_apiKey: string, _baseUrl?: string): Promise<RemoteModel[] | null> {
+    return null;
+  }
+
+  // Stream the provider's answer for a request and return the full text with its usage
+  protected abstract streamResponse(request: ProviderRequest): Promise<ProviderResponse>;
+
+  // Make the cheapest possible authenticated request; throw on failure
+  protected abstract sendTestRequest(apiKey: string, baseUrl?: string): Promise<void>;
+
+  protected describeKeyError(error: any): KeyTestResult {
+    if (error.response?.status === 401) {
+      return { status: 'invalid', message: 'Invalid API key' };
+    }
+    if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
+      return { status: 'server_down', message: `Cannot reach ${this.definition.name} servers` };
+    }
+    return { status: 'error', message: error.response?.data?.error?.message || 'Unknown error' };
+  }
+
+  protected readImageBase64(imagePath?: string): string | undefined {
+    if (!imagePath || !fs.existsSync(imagePath)) return undefined;
+    return fs.readFileSync(imagePath).toString('base64');
+  }
+
+  // Combine the provider's identity prompt with the chat's system prompt
+  protected buildSystemPrompt(request: ProviderRequest, identityPrompt?: string): string | undefined {
+    const parts = [identityPrompt, request.systemPrompt?.trim()].filter(Boolean);
+    return parts.length > 0 ? parts.join('\n\n') : undefined;
+  }
+
+  // OpenAI-style structured output for extract mode
+  protected buildResponseFormat(request: ProviderRequest): any {
+    if (!request.responseSchema) return undefined;
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: toSchemaIdentifier(request.responseSchema.name),
+        schema: request.responseSchema.schema,
+        strict: false // Strict mode rejects schemas with optional properties
+      }
+    };
+  }
+
+  // Build OpenAI chat completions messages from the history and current request
+  protected buildChatMessages(request: ProviderRequest): any[] {
+    const messages: any[] = [];
+    
+    // Add chat history context
+    if (request.chatHistory && request.chatHistory.length > 0) {
+      request.chatHistory.forEach(msg => {
+        if (msg.role === 'user') {
+          const content: any[] = [{ type: 'text', text: msg.content }];
+          const imageBase64 = this.readImageBase64(msg.imagePath);
+          if (imageBase64) {
+            content.push({ type: 'image_url', image_url: { url: `data:image/png;base64,${imageBase64}` } });
+          }
+          messages.push({
+            role: 'user',
+            content: content.length === 1 ? content[0].text : content
+          });
+        } else if (msg.role === 'assistant') {
+          messages.push({
+            role: 'assistant',
+            content: msg.content
+          });
+        }
+      });
+    }
+    
+    // Add current message
+    const messageText = request.text.trim() || "What do you see in this image?";
+    messages.push({
+      role: 'user',
+      content: request.image ? [
+        { type: 'text', text: messageText },
+        {
+          type: 'image_url',
+          image_url: {
+            url: `data:image/png;base64,${request.image}`,
+            detail: 'high'
+          }
+        }
+      ] : messageText
+    });
+
+    messages.push(...this.buildToolTurnMessages(request));
+
+    return messages;
+  }
+
+  // OpenAI-style function tools
+  protected buildChatTools(request: ProviderRequest): any[] | undefined {
+    if (!request.tools?.length) return undefined;
+    return request.tools.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+    }));
+  }
+
+  // Earlier tool rounds of this send as OpenAI-style messages. Tool messages only carry
+  // text, so images the tools returned follow in a user message.
+  protected buildToolTurnMessages(request: ProviderRequest): any[] {
+    const messages: any[] = [];
+    (request.toolTurns || []).forEach(turn => {
+      messages.push({
+        role: 'assistant',
+        content: turn.content || null,
+        tool_calls: turn.calls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      });
+
+      const images: any[] = [];
+      turn.results.forEach(result => {
+        messages.push({ role: 'tool', tool_call_id: result.callId, content: result.content });
+        const imageBase64 = this.readImageBase64(result.imagePath);
+        if (imageBase64) {
+          images.push({ type: 'image_url', image_url: { url: `data:image/png;base64,${imageBase64}` } });
+        }
+      });
+      if (images.length > 0) {
+        messages.push({ role: 'user', content: [{ type: 'text', text: 'Images returned by the tools above:' }, ...images] });
+      }
+    });
+    return messages;
+  }
+
+  // Stream an OpenAI-style chat completion and return the full text with its usage
+  protected async streamChatCompletion(url: string, requestBody: any, apiKey: string, onDelta?: StreamDeltaHandler, signal?: AbortSignal, onReasoningDelta?: StreamDeltaHandler, onRequestBody?: (body: unknown) => void): Promise<ProviderResponse> {
+    // Usage is only sent on streamed responses when asked for, in a final chunk without choices
+    const body = { ...requestBody, stream: true, stream_options: { include_usage: true } };
+    onRequestBody?.(body);
+    const response = await httpClient.post(
+      url,
+      body,
+      {
+        headers: {
+          // Local servers often run without auth, so only send a key when we have one
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json'
+        },
+        responseType: 'stream',
+        signal
+      }
+    );
+
+    let content = '';
+    let reasoning = '';
+    let usage: TokenUsage | undefined;
+    // Tool call names and arguments arrive in fragments, keyed by the call's index
+    const toolCallParts: { id: string; name: string; arguments: string }[] = [];
+    await readSSEStream(response.data, (event) => {
+      if (event.data === '[DONE]') return;
+
+      const chunk = JSON.parse(event.data);
+      if (chunk.error) {
+        throw streamError(chunk.error, this.definition.id);
+      }
+
+      if (chunk.usage) {
+        usage = parseChatCompletionUsage(chunk.usage);
+      }
+
+      // DeepSeek and most local servers stream reasoning_content ahead of the answer
+      const reasoningDelta = chunk.choices?.[0]?.delta?.reasoning_content;
+      if (reasoningDelta) {
+        reasoning += reasoningDelta;
+        onReasoningDelta?.(reasoningDelta);
+      }
+
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta?.(delta);
+      }
+
+      (chunk.choices?.[0]?.delta?.tool_calls || []).forEach((part: any) => {
+        const index = part.index ?? toolCallParts.length;
+        const call = toolCallParts[index] || (toolCallParts[index] = { id: '', name: '', arguments: '' });
+        call.id = part.id || call.id;
+        call.name += part.function?.name || '';
+        call.arguments += part.function?.arguments || '';
+      });
+    }, signal);
+
+    const toolCalls = toolCallParts.filter(Boolean).map((call, index) => parseToolCall(call.id || `call_${index}`, call.name, call.arguments));
+    return { content, reasoning, toolCalls, usage };
+  }
+}
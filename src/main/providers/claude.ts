@@ -0,0 +1,253 @@
+import { httpClient } from '../http-client';
+import { claudeProvider } from '../../shared/providers/claude';
+import { readSSEStream } from '../sse-stream';
+import { BaseProvider, parseToolCall } from './base-provider';
+import { streamError } from './provider-error';
+import type { TokenUsage } from '../../shared/types';
+import { KeyTestResult, ProviderRequest, ProviderResponse } from './types';
+import type { RemoteModel } from '../../shared/model-catalog';
+import { toSchemaIdentifier } from '../../shared/extraction';
+
+const MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+const MODELS_URL = 'https://api.anthropic.com/v1/models';
+const CACHE_CONTROL = { type: 'ephemeral' };
+const IDENTITY_PROMPT = 'You are Claude, an AI assistant made by Anthropic. Please identify yourself correctly as Claude when asked.';
+
+// Anthropic reports cache reads and writes separately from uncached input tokens
+function parseClaudeUsage(usage: any): TokenUsage {
+  const cacheReadTokens = usage.cache_read_input_tokens || 0;
+  const cacheWriteTokens = usage.cache_creation_input_tokens || 0;
+  return {
+    inputTokens: (usage.input_tokens || 0) + cacheWriteTokens + cacheReadTokens,
+    outputTokens: usage.output_tokens || 0,
+    cachedTokens: cacheReadTokens,
+    cacheWriteTokens,
+    reasoningTokens: 0
+  };
+}
+
+export class ClaudeProvider extends BaseProvider {
+  constructor() {
+    super(claudeProvider);
+  }
+
+  protected async streamResponse(request: ProviderRequest): Promise<ProviderResponse> {
+    const messages: any[] = [];
+    
+    // Add chat history context
+    if (request.chatHistory && request.chatHistory.length > 0) {
+      request.chatHistory.forEach(msg => {
+        if (msg.role === 'user') {
+          const content: any[] = [{ type: 'text', text: msg.content }];
+          const imageBase64 = this.readImageBase64(msg.imagePath);
+          if (imageBase64) {
+            content.unshift({
+              type: 'image',
+              source: {
+                type: 'base64',
+                media_type: 'image/png',
+                data: imageBase64
+              }
+            });
+          }
+          messages.push({ role: 'user', content });
+        } else if (msg.role === 'assistant') {
+          messages.push({
+            role: 'assistant',
+            content: [{ type: 'text', text: msg.content }]
+          });
+        }
+      });
+    }
+    
+    // Mark the end of the stable prefix (system prompt and earlier turns, screenshots included)
+    // as cacheable. The breakpoint moves forward every turn, so the previous prefix is read
+    // from the cache and only the newest turn is written. Prefixes shorter than the model's
+    // minimum are sent uncached without error.
+    const lastHistoryMessage = messages[messages.length - 1];
+    if (lastHistoryMessage) {
+      const blocks = lastHistoryMessage.content;
+      blocks[blocks.length - 1] = { ...blocks[blocks.length - 1], cache_control: CACHE_CONTROL };
+    }
+
+    // Add current message
+    const messageText = request.text.trim() || "What do you see in this image?";
+    const content: any[] = [{ type: 'text', text: messageText }];
+    if (request.image) {
+      content.unshift({
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: 'image/png',
+          data: request.image
+        }
+      });
+    }
+    messages.push({ role: 'user', content });
+    messages.push(...this.buildToolTurnMessages(request));
+
+    const { generation, responseSchema } = request;
+    // Claude has no JSON mode; extract turns force a tool whose input is the schema
+    const extractionTool = responseSchema
+      ? { name: toSchemaIdentifier(responseSchema.name), description: 'Record the extracted data', input_schema: responseSchema.schema }
+      : undefined;
+    const tools = extractionTool
+      ? [extractionTool]
+      : request.tools?.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }));
+    // Continuing after tool calls with thinking on would require replaying the signed
+    // thinking blocks of the earlier rounds, so later rounds answer without thinking
+    const thinkingAllowed = !extractionTool && !request.toolTurns?.length;
+    const body = {
+      model: request.modelId,
+      max_tokens: generation.maxTokens,
+      temperature: generation.temperature,
+      top_p: generation.topP,
+      // Forced tool use can't be combined with extended thinking
+      thinking: generation.thinkingBudget && thinkingAllowed
+        ? { type: 'enabled', budget_tokens: generation.thinkingBudget }
+        : undefined,
+      tools: tools?.length ? tools : undefined,
+      tool_choice: extractionTool ? { type: 'tool', name: extractionTool.name } : undefined,
+      messages,
+      system: [{ type: 'text', text: this.buildSystemPrompt(request, IDENTITY_PROMPT), cache_control: CACHE_CONTROL }],
+      stream: true
+    };
+    request.onRequestBody?.(body);
+    const response = await httpClient.post(
+      MESSAGES_URL,
+      body,
+      {
+        headers: this.getHeaders(request.apiKey),
+        responseType: 'stream',
+        signal: request.signal
+      }
+    );
+
+    let streamedContent = '';
+    let reasoning = '';
+    let usage: TokenUsage | undefined;
+    // Tool calls by content block index; their input streams as JSON fragments
+    const toolCallParts = new Map<number, { id: string; name: string; input: string }>();
+    await readSSEStream(response.data, (event) => {
+      const payload = JSON.parse(event.data);
+
+      if (payload.type === 'error') {
+        throw streamError(payload.error, this.definition.id);
+      }
+
+      // Input usage arrives with message_start, the final output count with message_delta
+      if (payload.type === 'message_start' && payload.message?.usage) {
+        usage = parseClaudeUsage(payload.message.usage);
+      }
+      if (payload.type === 'message_delta' && payload.usage && usage) {
+        usage.outputTokens = payload.usage.output_tokens ?? usage.outputTokens;
+      }
+
+      if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+        streamedContent += payload.delta.text;
+        request.onDelta?.(payload.delta.text);
+      }
+      if (payload.type === 'content_block_delta' && payload.delta?.type === 'thinking_delta') {
+        reasoning += payload.delta.thinking;
+        request.onReasoningDelta?.(payload.delta.thinking);
+      }
+      if (payload.type === 'content_block_start' && payload.content_block?.type === 'tool_use' && !extractionTool) {
+        toolCallParts.set(payload.index, { id: payload.content_block.id, name: payload.content_block.name, input: '' });
+      }
+      if (payload.type === 'content_block_delta' && payload.delta?.type === 'input_json_delta') {
+        const toolCall = toolCallParts.get(payload.index);
+        if (toolCall) {
+          toolCall.input += payload.delta.partial_json;
+        } else {
+          // The forced tool's input streams as raw JSON, which is the extract reply
+          streamedContent += payload.delta.partial_json;
+          request.onDelta?.(payload.delta.partial_json);
+        }
+      }
+    }, request.signal);
+
+    const toolCalls = [...toolCallParts.values()].map(call => parseToolCall(call.id, call.name, call.input));
+    return { content: streamedContent, reasoning, toolCalls, usage };
+  }
+
+  // Earlier tool rounds of this send: the assistant's text and tool_use blocks, then a
+  // user turn with one tool_result per call, screenshots included
+  protected buildToolTurnMessages(request: ProviderRequest): any[] {
+    const messages: any[] = [];
+    (request.toolTurns || []).forEach(turn => {
+      messages.push({
+        role: 'assistant',
+        content: [
+          ...(turn.content.trim() ? [{ type: 'text', text: turn.content }] : []),
+          ...turn.calls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+        ]
+      });
+      messages.push({
+        role: 'user',
+        content: turn.results.map(result => {
+          const imageBase64 = this.readImageBase64(result.imagePath);
+          return {
+            type: 'tool_result',
+            tool_use_id: result.callId,
+            content: [
+              { type: 'text', text: result.content },
+              ...(imageBase64 ? [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: imageBase64 } }] : [])
+            ],
+            is_error: result.isError || undefined
+          };
+        })
+      });
+    });
+    return messages;
+  }
+
+  protected async fetchRemoteModels(apiKey: string): Promise<RemoteModel[]> {
+    const response = await httpClient.get(MODELS_URL, {
+      headers: this.getHeaders(apiKey),
+      params: { limit: 1000 },
+      timeout: 10000
+    });
+
+    const models: any[] = response.data?.data || [];
+    return models
+      .filter(model => model.id)
+      .map(model => ({ id: model.id, name: model.display_name }));
+  }
+
+  protected async sendTestRequest(apiKey: string): Promise<void> {
+    await httpClient.post(
+      MESSAGES_URL,
+      {
+        model: this.definition.defaultModel,
+        max_tokens: 1,
+        messages: [{ 
+          role: 'user', 
+          content: 'test'
+        }]
+      },
+      {
+        headers: this.getHeaders(apiKey),
+        timeout: 10000
+      }
+    );
+  }
+
+  protected describeKeyError(error: any): KeyTestResult {
+    console.error('Claude API Test Error:', error.response?.data || error.message);
+    if (error.response?.status === 429 || error.response?.data?.error?.type === 'rate_limit_error') {
+      return { status: 'error', message: 'Rate limit exceeded, try again later' };
+    }
+    if (error.response?.data?.error?.type === 'overloaded_error') {
+      return { status: 'error', message: 'Claude servers are overloaded, try again later' };
+    }
+    return super.describeKeyError(error);
+  }
+
+  private getHeaders(apiKey: string) {
+    return {
+      'x-api-key': apiKey,
+      'Content-Type': 'application/json',
+      'anthropic-version': '2023-06-01'
+    };
+  }
+}
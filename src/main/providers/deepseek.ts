@@ -0,0 +1,97 @@
+import { httpClient } from '../http-client';
+import { deepseekProvider } from '../../shared/providers/deepseek';
+import { BaseProvider } from './base-provider';
+import { ProviderRequest, ProviderResponse } from './types';
+import type { RemoteModel } from '../../shared/model-catalog';
+
+const CHAT_COMPLETIONS_URL = 'https://api.deepseek.com/v1/chat/completions';
+const MODELS_URL = 'https://api.deepseek.com/models';
+const IDENTITY_PROMPT = 'You are DeepSeek, an AI assistant made by DeepSeek AI. You are NOT Claude or ChatGPT. Please respond as DeepSeek and identify yourself correctly.';
+
+export class DeepSeekProvider extends BaseProvider {
+  constructor() {
+    super(deepseekProvider);
+  }
+
+  protected async streamResponse(request: ProviderRequest): Promise<ProviderResponse> {
+    const messages: any[] = [];
+    
+    // Add system message to clarify identity, followed by the chat's own instructions
+    messages.push({
+      role: 'system',
+      content: this.buildSystemPrompt(request, IDENTITY_PROMPT)
+    });
+    
+    // Add chat history context
+    if (request.chatHistory && request.chatHistory.length > 0) {
+      request.chatHistory.forEach(msg => {
+        if (msg.role === 'user') {
+          // DeepSeek models are text-only, earlier images arrive as their descriptions
+          messages.push({
+            role: 'user',
+            content: msg.content
+          });
+        } else if (msg.role === 'assistant') {
+          messages.push({
+            role: 'assistant',
+            content: msg.content
+          });
+        }
+      });
+    }
+    
+    // Add current message - images are never passed here since no DeepSeek model has vision
+    messages.push({
+      role: 'user',
+      content: request.text.trim()
+    });
+    messages.push(...this.buildToolTurnMessages(request));
+
+    return this.streamChatCompletion(
+      CHAT_COMPLETIONS_URL,
+      {
+        model: request.modelId,
+        messages,
+        max_tokens: request.generation.maxTokens,
+        temperature: request.generation.temperature,
+        top_p: request.generation.topP,
+        // DeepSeek only has a JSON object mode, the schema itself is in the system prompt
+        response_format: request.responseSchema ? { type: 'json_object' } : undefined,
+        tools: this.buildChatTools(request)
+      },
+      request.apiKey,
+      request.onDelta,
+      request.signal,
+      request.onReasoningDelta,
+      request.onRequestBody
+    );
+  }
+
+  protected async fetchRemoteModels(apiKey: string): Promise<RemoteModel[]> {
+    const response = await httpClient.get(MODELS_URL, {
+      headers: { 'Authorization': `Bearer ${apiKey}` },
+      timeout: 10000
+    });
+
+    const models: any[] = response.data?.data || [];
+    return models.filter(model => model.id).map(model => ({ id: model.id }));
+  }
+
+  protected async sendTestRequest(apiKey: string): Promise<void> {
+    await httpClient.post(
+      CHAT_COMPLETIONS_URL,
+      {
+        model: 'deepseek-chat',
+        messages: [{ role: 'user', content: 'test' }],
+        max_tokens: 1
+      },
+      {
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        timeout: 10000
+      }
+    );
+  }
+}
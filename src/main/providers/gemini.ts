@@ -0,0 +1,218 @@
+import { httpClient } from '../http-client';
+import { geminiProvider } from '../../shared/providers/gemini';
+import { readSSEStream } from '../sse-stream';
+import { BaseProvider } from './base-provider';
+import { streamError } from './provider-error';
+import type { TokenUsage, ToolCall } from '../../shared/types';
+import { EmbeddingRequest, EmbeddingResponse, KeyTestResult, ProviderRequest, ProviderResponse } from './types';
+import type { RemoteModel } from '../../shared/model-catalog';
+
+const API_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const IDENTITY_PROMPT = 'You are Gemini, an AI assistant made by Google. Please identify yourself correctly as Gemini when asked.';
+
+// Gemini counts thinking apart from the reply, but bills both as output
+function parseGeminiUsage(usage: any): TokenUsage {
+  const reasoningTokens = usage.thoughtsTokenCount || 0;
+  return {
+    inputTokens: usage.promptTokenCount || 0,
+    outputTokens: (usage.candidatesTokenCount || 0) + reasoningTokens,
+    cachedTokens: usage.cachedContentTokenCount || 0,
+    cacheWriteTokens: 0, // Implicit caching is free
+    reasoningTokens
+  };
+}
+
+function inlineImage(base64: string) {
+  return { inline_data: { mime_type: 'image/png', data: base64 } };
+}
+
+// Gemini rejects object schemas without properties, so argument-less tools declare none
+function toFunctionDeclaration(tool: { name: string; description: string; parameters: Record<string, any> }) {
+  const hasParameters = Object.keys(tool.parameters.properties || {}).length > 0;
+  return { name: tool.name, description: tool.description, parameters: hasParameters ? tool.parameters : undefined };
+}
+
+export class GeminiProvider extends BaseProvider {
+  constructor() {
+    super(geminiProvider);
+  }
+
+  protected async streamResponse(request: ProviderRequest): Promise<ProviderResponse> {
+    const contents: any[] = [];
+
+    // Add chat history context; Gemini calls the assistant role "model"
+    if (request.chatHistory && request.chatHistory.length > 0) {
+      request.chatHistory.forEach(msg => {
+        if (msg.role === 'user') {
+          const parts: any[] = [{ text: msg.content }];
+          const imageBase64 = this.readImageBase64(msg.imagePath);
+          if (imageBase64) {
+            parts.unshift(inlineImage(imageBase64));
+          }
+          contents.push({ role: 'user', parts });
+        } else if (msg.role === 'assistant') {
+          contents.push({ role: 'model', parts: [{ text: msg.content }] });
+        }
+      });
+    }
+
+    // Add current message, image first as Google recommends for single-image prompts
+    const messageText = request.text.trim() || "What do you see in this image?";
+    const parts: any[] = [{ text: messageText }];
+    if (request.image) {
+      parts.unshift(inlineImage(request.image));
+    }
+    contents.push({ role: 'user', parts });
+    contents.push(...this.buildToolTurnContents(request));
+
+    const { generation, responseSchema, tools } = request;
+    const body = {
+      contents,
+      systemInstruction: { parts: [{ text: this.buildSystemPrompt(request, IDENTITY_PROMPT) }] },
+      generationConfig: {
+        temperature: generation.temperature,
+        topP: generation.topP,
+        maxOutputTokens: generation.maxTokens,
+        // Extract mode: JSON constrained to the schema
+        responseMimeType: responseSchema ? 'application/json' : undefined,
+        responseJsonSchema: responseSchema?.schema,
+        thinkingConfig: generation.thinkingBudget
+          ? { thinkingBudget: generation.thinkingBudget, includeThoughts: true }
+          : undefined
+      },
+      tools: tools?.length ? [{ functionDeclarations: tools.map(toFunctionDeclaration) }] : undefined
+    };
+    request.onRequestBody?.(body);
+    const response = await httpClient.post(
+      `${API_URL}/models/${encodeURIComponent(request.modelId)}:streamGenerateContent`,
+      body,
+      {
+        headers: this.getHeaders(request.apiKey),
+        params: { alt: 'sse' },
+        responseType: 'stream',
+        signal: request.signal
+      }
+    );
+
+    let content = '';
+    let reasoning = '';
+    let usage: TokenUsage | undefined;
+    const toolCalls: ToolCall[] = [];
+    await readSSEStream(response.data, (event) => {
+      const chunk = JSON.parse(event.data);
+      if (chunk.error) {
+        throw streamError(chunk.error, this.definition.id);
+      }
+
+      // Every chunk carries the running totals, so the last one wins
+      if (chunk.usageMetadata) {
+        usage = parseGeminiUsage(chunk.usageMetadata);
+      }
+
+      (chunk.candidates?.[0]?.content?.parts || []).forEach((part: any) => {
+        if (part.functionCall) {
+          // Function calls arrive whole; older models send them without an ID
+          const { id, name, args } = part.functionCall;
+          toolCalls.push({ id: id || `${name}_${toolCalls.length}`, name, arguments: args || {} });
+        } else if (part.thought && part.text) {
+          reasoning += part.text;
+          request.onReasoningDelta?.(part.text);
+        } else if (part.text) {
+          content += part.text;
+          request.onDelta?.(part.text);
+        }
+      });
+    }, request.signal);
+
+    return { content, reasoning, toolCalls, usage };
+  }
+
+  // Earlier tool rounds of this send: the model's function calls, then a user turn with one
+  // function response per call followed by any images the tools returned
+  private buildToolTurnContents(request: ProviderRequest): any[] {
+    const contents: any[] = [];
+    (request.toolTurns || []).forEach(turn => {
+      contents.push({
+        role: 'model',
+        parts: [
+          ...(turn.content.trim() ? [{ text: turn.content }] : []),
+          ...turn.calls.map(call => ({ functionCall: { id: call.id, name: call.name, args: call.arguments } }))
+        ]
+      });
+
+      const images: any[] = [];
+      const responses = turn.results.map(result => {
+        const imageBase64 = this.readImageBase64(result.imagePath);
+        if (imageBase64) images.push(inlineImage(imageBase64));
+        return {
+          functionResponse: {
+            id: result.callId,
+            name: result.name,
+            response: result.isError ? { error: result.content } : { content: result.content }
+          }
+        };
+      });
+      contents.push({ role: 'user', parts: [...responses, ...images] });
+    });
+    return contents;
+  }
+
+  // The embeddings API reports no usage, so tokens are estimated from the text
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const model = `models/${request.modelId}`;
+    const response = await httpClient.post(
+      `${API_URL}/${model}:batchEmbedContents`,
+      { requests: request.texts.map(text => ({ model, content: { parts: [{ text }] } })) },
+      { headers: this.getHeaders(request.apiKey), timeout: 30000, signal: request.signal }
+    );
+
+    const embeddings: any[] = response.data?.embeddings || [];
+    return {
+      vectors: embeddings.map(embedding => embedding.values),
+      inputTokens: request.texts.reduce((total, text) => total + Math.ceil(text.length / 4), 0)
+    };
+  }
+
+  protected async fetchRemoteModels(apiKey: string): Promise<RemoteModel[]> {
+    const response = await httpClient.get(`${API_URL}/models`, {
+      headers: this.getHeaders(apiKey),
+      params: { pageSize: 1000 },
+      timeout: 10000
+    });
+
+    // Embedding and other non-chat models can't answer messages
+    const models: any[] = response.data?.models || [];
+    return models
+      .filter(model => model.name && (model.supportedGenerationMethods || []).includes('generateContent'))
+      .map(model => ({ id: model.name.replace(/^models\//, ''), name: model.displayName }));
+  }
+
+  // Listing models is free and needs a valid key
+  protected async sendTestRequest(apiKey: string): Promise<void> {
+    await httpClient.get(`${API_URL}/models`, {
+      headers: this.getHeaders(apiKey),
+      params: { pageSize: 1 },
+      timeout: 10000
+    });
+  }
+
+  protected describeKeyError(error: any): KeyTestResult {
+    console.error('Gemini API Test Error:', error.response?.data || error.message);
+    // A wrong key is a 400 INVALID_ARGUMENT rather than a 401
+    const reason = error.response?.data?.error?.details?.find((detail: any) => detail.reason)?.reason;
+    if (reason === 'API_KEY_INVALID' || error.response?.status === 403) {
+      return { status: 'invalid', message: 'Invalid API key' };
+    }
+    if (error.response?.status === 429) {
+      return { status: 'error', message: 'Rate limit exceeded, try again later' };
+    }
+    return super.describeKeyError(error);
+  }
+
+  private getHeaders(apiKey: string) {
+    return {
+      'x-goog-api-key': apiKey,
+      'Content-Type': 'application/json'
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { AIProviderBackend } from './types';
+import { OpenAIProvider } from './openai';
+import { ClaudeProvider } from './claude';
+import { DeepSeekProvider } from './deepseek';
+import { GeminiProvider } from './gemini';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { MockProvider } from './mock';
+
+export * from './types';
+export { ProviderError } from './provider-error';
+
+// One backend per entry in PROVIDER_DEFINITIONS (src/shared/providers)
+const backends: AIProviderBackend[] = [
+  new OpenAIProvider(),
+  new ClaudeProvider(),
+  new DeepSeekProvider(),
+  new GeminiProvider(),
+  new OpenAICompatibleProvider(),
+  new MockProvider()
+];
+
+export function getProviderBackends(): AIProviderBackend[] {
+  return backends;
+}
+
+export function getProviderBackend(providerId: string): AIProviderBackend | undefined {
+  if (!providerId) return undefined;
+  return backends.find(backend => backend.definition.id === providerId.toLowerCase());
+}
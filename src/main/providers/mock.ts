@@ -0,0 +1,149 @@
+import { mockProvider } from '../../shared/providers/mock';
+import { estimateMessageTokens, estimateTokens } from '../../shared/token-optimizer';
+import type { MockProviderSettings, TokenUsage } from '../../shared/types';
+import { getDatabase } from '../database';
+import { sleep } from '../retry-policy';
+import { BaseProvider } from './base-provider';
+import { ProviderError } from './provider-error';
+import { ProviderRequest, ProviderResponse, StreamDeltaHandler } from './types';
+
+const DEFAULT_SCRIPT = [
+  'This is the first scripted reply.',
+  'This is the second scripted reply.',
+  'This is the last scripted reply, the script starts over after it.'
+];
+const IMAGE_TOKENS = 765; // A 1024x1024 screenshot at high detail on OpenAI
+const CHUNK_PATTERN = /\S+\s*/g;
+
+// Typing "[mock:error 503]" in a prompt makes that request fail with the status, every time
+const FORCED_ERROR_PATTERN = /\[mock:error (\d{3})\]/;
+
+// Typing "[mock:tool search_chats]" makes the first round call that tool, when tools are offered
+const TOOL_CALL_PATTERN = /\[mock:tool (\w+)\]/;
+
+// Smallest value that satisfies a schema, so extract mode can be exercised offline
+function sampleFromSchema(schema: Record<string, any>): unknown {
+  if (schema.enum?.length) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries((schema.required || []).map((key: string) =>
+        [key, sampleFromSchema(schema.properties?.[key] || {})]
+      ));
+    case 'array':
+      return [];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return '';
+  }
+}
+
+export class MockProvider extends BaseProvider {
+  constructor() {
+    super(mockProvider);
+  }
+
+  protected async streamResponse(request: ProviderRequest): Promise<ProviderResponse> {
+    const options: MockProviderSettings = getDatabase().getSettings().mockProvider || {};
+    const latencyMs = Math.max(options.latencyMs || 0, 0);
+    // Nothing goes over the wire, so the audit log gets the request as the mock reads it
+    request.onRequestBody?.({
+      model: request.modelId,
+      system: request.systemPrompt,
+      messages: [
+        ...(request.chatHistory || []).map(msg => ({ role: msg.role, content: msg.content })),
+        { role: 'user', content: request.text, image: request.image }
+      ],
+      tools: request.tools?.map(tool => tool.name),
+      toolTurns: request.toolTurns
+    });
+
+    const forced = request.text.match(FORCED_ERROR_PATTERN);
+    if (forced || (options.errorRate && Math.random() < options.errorRate)) {
+      const status = forced ? Number(forced[1]) : options.errorStatus || 503;
+      await sleep(latencyMs, request.signal);
+      throw new ProviderError(`Mock provider returned ${status}`, this.definition.id, status);
+    }
+
+    const toolName = request.text.match(TOOL_CALL_PATTERN)?.[1];
+    const tool = request.tools?.find(definition => definition.name === toolName);
+    if (tool && !request.toolTurns?.length) {
+      await sleep(latencyMs, request.signal);
+      return {
+        content: '',
+        toolCalls: [{ id: 'mock_call_1', name: tool.name, arguments: sampleFromSchema(tool.parameters) as Record<string, unknown> }],
+        usage: this.buildUsage(request, tool.name, '')
+      };
+    }
+
+    const history = request.chatHistory || [];
+    const reasoning = request.modelId === 'mock-reasoner'
+      ? `The user wrote ${request.text.length} characters after ${history.length} earlier messages. Echoing it back.`
+      : '';
+    const content = this.buildReply(request, options);
+
+    // Reasoning and reply share the latency budget, chunk by chunk
+    const reasoningChunks = reasoning.match(CHUNK_PATTERN) || [];
+    const contentChunks = content.match(CHUNK_PATTERN) || [content];
+    const chunkDelayMs = latencyMs / (reasoningChunks.length + contentChunks.length);
+    await this.streamChunks(reasoningChunks, chunkDelayMs, request.onReasoningDelta, request.signal);
+    await this.streamChunks(contentChunks, chunkDelayMs, request.onDelta, request.signal);
+
+    return { content, reasoning, usage: this.buildUsage(request, content, reasoning) };
+  }
+
+  protected async sendTestRequest(): Promise<void> {
+    // Always reachable
+  }
+
+  private buildReply(request: ProviderRequest, options: MockProviderSettings): string {
+    if (request.responseSchema) {
+      return JSON.stringify(sampleFromSchema(request.responseSchema.schema));
+    }
+
+    if (request.modelId === 'mock-scripted') {
+      const script = options.scriptedReplies?.length ? options.scriptedReplies : DEFAULT_SCRIPT;
+      const turn = (request.chatHistory || []).filter(msg => msg.role === 'user').length;
+      return script[turn % script.length];
+    }
+
+    const toolResults = (request.toolTurns || []).flatMap(turn => turn.results)
+      .map(result => `- ${result.name}${result.isError ? ' (failed)' : ''}: ${result.content.slice(0, 200)}`);
+    if (toolResults.length > 0) {
+      return `Echo: ${request.text.trim()}\n\nTool results:\n${toolResults.join('\n')}`;
+    }
+
+    const details = [
+      request.image && 'an image',
+      request.chatHistory?.length && `${request.chatHistory.length} history messages`,
+      request.systemPrompt && 'a system prompt'
+    ].filter(Boolean);
+    return `Echo: ${request.text.trim() || '(no text)'}` + (details.length > 0 ? `\n\nReceived with ${details.join(', ')}.` : '');
+  }
+
+  // Estimated like a real provider would count, with the history billed as a prompt cache hit
+  private buildUsage(request: ProviderRequest, content: string, reasoning: string): TokenUsage {
+    const historyTokens = (request.chatHistory || []).reduce((total, msg) => total + estimateMessageTokens(msg), 0);
+    const reasoningTokens = estimateTokens(reasoning);
+    return {
+      inputTokens: historyTokens + estimateTokens(request.systemPrompt || '') + estimateTokens(request.text) + (request.image ? IMAGE_TOKENS : 0),
+      outputTokens: estimateTokens(content) + reasoningTokens,
+      cachedTokens: historyTokens,
+      cacheWriteTokens: 0,
+      reasoningTokens
+    };
+  }
+
+  private async streamChunks(chunks: string[], delayMs: number, onDelta: StreamDeltaHandler | undefined, signal?: AbortSignal): Promise<void> {
+    for (const chunk of chunks) {
+      await sleep(delayMs, signal);
+      onDelta?.(chunk);
+    }
+  }
+}
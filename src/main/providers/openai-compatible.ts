@@ -0,0 +1,106 @@
+import { httpClient } from '../http-client';
+import { openaiCompatibleProvider } from '../../shared/providers/openai-compatible';
+import type { ModelInfo } from '../../shared/models';
+import { BaseProvider } from './base-provider';
+import { KeyTestResult, ProviderRequest, ProviderResponse } from './types';
+
+// Accept both "http://host:port" and "http://host:port/v1"
+function normalizeBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  try {
+    const url = new URL(trimmed);
+    return url.pathname === '/' ? `${trimmed}/v1` : trimmed;
+  } catch {
+    return trimmed;
+  }
+}
+
+export class OpenAICompatibleProvider extends BaseProvider {
+  constructor() {
+    super(openaiCompatibleProvider);
+  }
+
+  async listModels(apiKey: string, baseUrl?: string): Promise<ModelInfo[]> {
+    if (!baseUrl) return [];
+
+    const modelIds = await this.fetchModelIds(apiKey, baseUrl);
+    const host = new URL(normalizeBaseUrl(baseUrl)).host;
+
+    // The /models endpoint only reports IDs, so capabilities are best guesses
+    return modelIds.map(id => ({
+      id,
+      name: id,
+      description: `Served by ${host}`,
+      pricing: {
+        input: 'Free',
+        output: 'Free'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 4096
+      }
+    }));
+  }
+
+  protected async streamResponse(request: ProviderRequest): Promise<ProviderResponse> {
+    if (!request.baseUrl) {
+      throw new Error('Base URL not configured for the local provider');
+    }
+
+    const url = `${normalizeBaseUrl(request.baseUrl)}/chat/completions`;
+    const messages = this.buildChatMessages(request);
+    const systemPrompt = this.buildSystemPrompt(request);
+    if (systemPrompt) {
+      messages.unshift({ role: 'system', content: systemPrompt });
+    }
+    console.log(`🌐 Making streaming request to: ${url}`);
+
+    return this.streamChatCompletion(
+      url,
+      {
+        model: request.modelId,
+        messages,
+        max_tokens: request.generation.maxTokens,
+        temperature: request.generation.temperature,
+        top_p: request.generation.topP,
+        response_format: this.buildResponseFormat(request),
+        tools: this.buildChatTools(request)
+      },
+      request.apiKey,
+      request.onDelta,
+      request.signal,
+      request.onReasoningDelta,
+      request.onRequestBody
+    );
+  }
+
+  protected async sendTestRequest(apiKey: string, baseUrl?: string): Promise<void> {
+    const modelIds = await this.fetchModelIds(apiKey, baseUrl!);
+    if (modelIds.length === 0) {
+      throw new Error('Server is running but has no models loaded');
+    }
+  }
+
+  protected describeKeyError(error: any): KeyTestResult {
+    if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED' || error.code === 'ECONNABORTED') {
+      return { status: 'server_down', message: 'Cannot reach the local server' };
+    }
+    if (error.response?.status === 404) {
+      return { status: 'error', message: 'No OpenAI-compatible /models endpoint at this URL' };
+    }
+    if (!error.response && error.message) {
+      return { status: 'error', message: error.message };
+    }
+    return super.describeKeyError(error);
+  }
+
+  private async fetchModelIds(apiKey: string, baseUrl: string): Promise<string[]> {
+    const response = await httpClient.get(`${normalizeBaseUrl(baseUrl)}/models`, {
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+      timeout: 10000
+    });
+
+    const models: any[] = response.data?.data || [];
+    return models.map(model => model.id).filter(Boolean);
+  }
+}
@@ -0,0 +1,110 @@
+import { httpClient } from '../http-client';
+import { openaiProvider } from '../../shared/providers/openai';
+import { BaseProvider } from './base-provider';
+import { EmbeddingRequest, EmbeddingResponse, ProviderRequest, ProviderResponse } from './types';
+import type { RemoteModel } from '../../shared/model-catalog';
+
+const CHAT_COMPLETIONS_URL = 'https://api.openai.com/v1/chat/completions';
+const MODELS_URL = 'https://api.openai.com/v1/models';
+const EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+
+// The models endpoint also lists embedding, audio and image models that can't chat
+const CHAT_MODEL_PATTERN = /^(gpt-|chatgpt-|o\d)/;
+const NON_CHAT_MODEL_PATTERN = /(embedding|audio|realtime|tts|transcribe|whisper|dall-e|image|search|instruct|moderation)/;
+const IDENTITY_PROMPT = 'You are GPT-4, ChatGPT, or another OpenAI language model. You were created by OpenAI, NOT by Anthropic. You are NOT Claude. When asked who you are, always respond that you are an AI assistant made by OpenAI. Never claim to be Claude or any other AI assistant from another company. This is very important - you must identify yourself correctly as an OpenAI model.';
+
+export class OpenAIProvider extends BaseProvider {
+  constructor() {
+    super(openaiProvider);
+  }
+
+  protected async streamResponse(request: ProviderRequest): Promise<ProviderResponse> {
+    const messages: any[] = [];
+    
+    // Add system message to clarify identity, followed by the chat's own instructions
+    messages.push({
+      role: 'system',
+      content: this.buildSystemPrompt(request, IDENTITY_PROMPT)
+    });
+    messages.push(...this.buildChatMessages(request));
+
+    // Determine if we're using an o-series reasoning model (which uses different parameters)
+    const isReasoningModel = /^o\d/.test(request.modelId);
+    const { generation } = request;
+    const requestBody: any = {
+      model: request.modelId,
+      messages,
+      response_format: this.buildResponseFormat(request),
+      tools: this.buildChatTools(request)
+    };
+
+    // Reasoning models use max_completion_tokens instead of max_tokens and don't support sampling parameters
+    if (isReasoningModel) {
+      requestBody.max_completion_tokens = generation.maxTokens;
+      if (generation.reasoningEffort) {
+        requestBody.reasoning_effort = generation.reasoningEffort;
+      }
+    } else {
+      requestBody.max_tokens = generation.maxTokens;
+      requestBody.temperature = generation.temperature;
+      requestBody.top_p = generation.topP;
+    }
+
+    console.log(`🌐 Making streaming request to: ${CHAT_COMPLETIONS_URL}`);
+    console.log(`🔑 Using API key: ${request.apiKey.substring(0, 15)}...`);
+
+    return this.streamChatCompletion(CHAT_COMPLETIONS_URL, requestBody, request.apiKey, request.onDelta, request.signal, undefined, request.onRequestBody);
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const response = await httpClient.post(
+      EMBEDDINGS_URL,
+      { model: request.modelId, input: request.texts },
+      {
+        headers: {
+          'Authorization': `Bearer ${request.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        timeout: 30000,
+        signal: request.signal
+      }
+    );
+
+    // Results carry the index of their input and aren't guaranteed to come back in order
+    const data: any[] = response.data?.data || [];
+    const vectors: number[][] = [];
+    data.forEach(item => { vectors[item.index] = item.embedding; });
+    return { vectors, inputTokens: response.data?.usage?.prompt_tokens || 0 };
+  }
+
+  protected async fetchRemoteModels(apiKey: string): Promise<RemoteModel[]> {
+    const response = await httpClient.get(MODELS_URL, {
+      headers: { 'Authorization': `Bearer ${apiKey}` },
+      timeout: 10000
+    });
+
+    const models: any[] = response.data?.data || [];
+    return models
+      .map(model => model.id as string)
+      .filter(id => id && CHAT_MODEL_PATTERN.test(id) && !NON_CHAT_MODEL_PATTERN.test(id))
+      .map(id => ({ id }));
+  }
+
+  protected async sendTestRequest(apiKey: string): Promise<void> {
+    await httpClient.post(
+      CHAT_COMPLETIONS_URL,
+      {
+        model: 'gpt-3.5-turbo',
+        messages: [{ role: 'user', content: 'test' }],
+        max_tokens: 1
+      },
+      {
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        timeout: 10000
+      }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { parseRetryAfter } from '../retry-policy';
+
+// A failed provider request, keeping the HTTP details the retry policy needs
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly providerId: string,
+    public readonly status?: number,
+    public readonly code?: string,
+    public readonly retryAfterMs?: number,
+    public readonly body?: unknown // Error body the provider sent, kept for the audit log
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+
+  static fromAxiosError(error: any, providerId: string, fallbackMessage: string): ProviderError {
+    return new ProviderError(
+      error.response?.data?.error?.message || fallbackMessage,
+      providerId,
+      error.response?.status ?? error.status,
+      error.code,
+      parseRetryAfter(error.response?.headers),
+      error.response?.data
+    );
+  }
+}
+
+// Error events sent inside a stream carry a type instead of an HTTP status
+const STREAM_ERROR_STATUSES: Record<string, number> = {
+  rate_limit_error: 429,
+  rate_limit_exceeded: 429,
+  overloaded_error: 529,
+  api_error: 500,
+  server_error: 500,
+  // Google's status names
+  RESOURCE_EXHAUSTED: 429,
+  UNAVAILABLE: 503,
+  INTERNAL: 500
+};
+
+export function streamError(error: any, providerId: string): ProviderError {
+  const status = STREAM_ERROR_STATUSES[error?.type] ?? STREAM_ERROR_STATUSES[error?.code] ?? STREAM_ERROR_STATUSES[error?.status];
+  return new ProviderError(error?.message || 'Stream error', providerId, status, undefined, undefined, error);
+}
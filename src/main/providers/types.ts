@@ -0,0 +1,63 @@
+import type { ProviderDefinition } from '../../shared/providers';
+import type { ModelInfo } from '../../shared/models';
+import type { GenerationParams, TokenUsage, ToolCall, ToolTurn } from '../../shared/types';
+import type { ToolDefinition } from '../../shared/tools';
+
+// Receives each text fragment as it arrives from the provider
+export type StreamDeltaHandler = (delta: string) => void;
+
+export interface ProviderRequest {
+  text: string;
+  image?: string;
+  apiKey: string;
+  baseUrl?: string; // Only set for providers with a configurable endpoint
+  chatHistory?: any[];
+  systemPrompt?: string; // The chat's own instructions, sent in the provider's native format
+  modelId: string;
+  generation: GenerationParams; // Already validated against the model
+  responseSchema?: { name: string; schema: Record<string, any> }; // Extract mode: reply with JSON matching this schema
+  tools?: ToolDefinition[]; // Tools the model may call instead of answering
+  toolTurns?: ToolTurn[]; // Earlier tool rounds of this send, sent after the current message
+  onDelta?: StreamDeltaHandler;
+  onReasoningDelta?: StreamDeltaHandler; // Reasoning trace fragments, for models that expose them
+  onRequestBody?: (body: unknown) => void; // Receives the body exactly as sent, for the audit log
+  signal?: AbortSignal;
+}
+
+export interface ProviderResponse {
+  content: string;
+  reasoning?: string; // Thinking the model did before answering, when the provider returns it
+  toolCalls?: ToolCall[]; // Set when the model asked for tools; run them and send again
+  usage?: TokenUsage; // Missing when the provider did not report usage
+}
+
+export interface EmbeddingRequest {
+  texts: string[];
+  apiKey: string;
+  modelId: string;
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingResponse {
+  vectors: number[][]; // One per text, in order
+  inputTokens: number; // Estimated when the provider doesn't report usage
+}
+
+export type KeyTestStatus = 'ready' | 'invalid' | 'error' | 'server_down' | 'proxy_error' | 'tls_error' | 'not_configured';
+
+export interface KeyTestResult {
+  status: KeyTestStatus;
+  message: string;
+}
+
+/**
+ * Network side of a provider. Each backend pairs with a ProviderDefinition
+ * from src/shared/providers, which holds the models, pricing and labels.
+ */
+export interface AIProviderBackend {
+  readonly definition: ProviderDefinition;
+  sendMessage(request: ProviderRequest): Promise<ProviderResponse>;
+  testApiKey(apiKey: string, baseUrl?: string): Promise<KeyTestResult>;
+  listModels(apiKey: string, baseUrl?: string): Promise<ModelInfo[]>;
+  embed?(request: EmbeddingRequest): Promise<EmbeddingResponse>; // Providers with embeddingModels only
+}
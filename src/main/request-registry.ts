@@ -0,0 +1,29 @@
+// Tracks in-flight AI requests so the renderer can cancel them by request id
+class RequestRegistry {
+  private controllers = new Map<string, AbortController>();
+
+  register(requestId: string): AbortController {
+    // A retried request id replaces (and aborts) any stale controller
+    this.controllers.get(requestId)?.abort();
+
+    const controller = new AbortController();
+    this.controllers.set(requestId, controller);
+    return controller;
+  }
+
+  cancel(requestId: string): boolean {
+    const controller = this.controllers.get(requestId);
+    if (!controller) return false;
+
+    console.log(`🛑 Cancelling AI request: ${requestId}`);
+    controller.abort();
+    this.controllers.delete(requestId);
+    return true;
+  }
+
+  release(requestId: string): void {
+    this.controllers.delete(requestId);
+  }
+}
+
+export const requestRegistry = new RequestRegistry();
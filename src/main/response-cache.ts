@@ -0,0 +1,90 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import type { GenerationParams, TokenUsage } from '@/shared/types';
+import { getDatabase } from './database';
+
+// Everything that decides what the model answers; two sends that agree on all of it get the same reply
+export interface CacheKeyParts {
+  providerId: string;
+  modelId: string;
+  generation: GenerationParams;
+  systemPrompt?: string;
+  responseSchema?: { name: string; schema: Record<string, any> };
+  chatHistory: any[]; // Usually empty: the common hit is the same question opening a new chat
+  text: string;
+  image?: string; // Base64
+}
+
+// The reply fields worth keeping; usage and costs are left out since a cache hit is free
+export interface CachedResponse {
+  content: string;
+  reasoning?: string;
+  provider: string;
+  providerId: string;
+  model: string;
+  modelId: string;
+  generationParams: GenerationParams;
+  visionNote?: string;
+}
+
+const NO_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0, cachedTokens: 0, cacheWriteTokens: 0, reasoningTokens: 0 };
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+// Spacing doesn't change the question; case can, in code and identifiers
+function normalizePrompt(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+// Screenshots are saved under a new path each time, so the same picture is known by its bytes
+function hashImageFile(imagePath?: string): string | null {
+  if (!imagePath || !fs.existsSync(imagePath)) return null;
+  return sha256(fs.readFileSync(imagePath));
+}
+
+// Answers to identical requests, reused for a user-chosen time instead of paying for them again
+class ResponseCache {
+  buildKey(parts: CacheKeyParts): string {
+    return sha256(JSON.stringify({
+      providerId: parts.providerId,
+      modelId: parts.modelId,
+      generation: parts.generation,
+      systemPrompt: parts.systemPrompt || '',
+      responseSchema: parts.responseSchema || null,
+      chatHistory: parts.chatHistory.map(msg => ({ role: msg.role, content: normalizePrompt(msg.content || ''), image: hashImageFile(msg.imagePath) })),
+      text: normalizePrompt(parts.text),
+      image: parts.image ? sha256(Buffer.from(parts.image, 'base64')) : null
+    }));
+  }
+
+  get(cacheKey: string): (CachedResponse & { usage: TokenUsage; cachedAt: string }) | null {
+    try {
+      const entry = getDatabase().getCachedResponse(cacheKey);
+      if (!entry) return null;
+      return { ...entry.response, usage: NO_USAGE, cachedAt: entry.createdAt };
+    } catch (error: any) {
+      console.error('❌ Failed to read response cache:', error.message);
+      return null;
+    }
+  }
+
+  save(cacheKey: string, response: CachedResponse, ttlHours: number): void {
+    const { content, reasoning, provider, providerId, model, modelId, generationParams, visionNote } = response;
+    try {
+      getDatabase().saveCachedResponse(cacheKey, providerId, modelId, { content, reasoning, provider, providerId, model, modelId, generationParams, visionNote }, ttlHours);
+    } catch (error: any) {
+      // A reply that can't be cached is still a good reply
+      console.error('❌ Failed to write response cache:', error.message);
+    }
+  }
+
+  clear(): number {
+    const removed = getDatabase().clearResponseCache();
+    console.log(`🧹 Cleared ${removed} cached responses`);
+    return removed;
+  }
+}
+
+export const responseCache = new ResponseCache();
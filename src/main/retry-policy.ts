@@ -0,0 +1,114 @@
+// Retry policy for provider requests: exponential backoff with jitter that
+// honors the provider's retry-after hint.
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number; // A retry-after longer than this is not waited out
+}
+
+export interface RetryAttempt {
+  attempt: number; // 1-based number of the retry about to be made
+  delayMs: number;
+  error: any;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// 429 rate limited, 529 Anthropic overloaded, plus transient gateway/server errors
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN']);
+const UNREACHABLE_CODES = new Set(['ENOTFOUND', 'ECONNREFUSED', 'EHOSTUNREACH']);
+
+// Parse retry-after (seconds or HTTP date) and the non-standard retry-after-ms
+export function parseRetryAfter(headers: any): number | undefined {
+  if (!headers) return undefined;
+
+  const retryAfterMs = Number(headers['retry-after-ms']);
+  if (retryAfterMs > 0) return retryAfterMs;
+
+  const retryAfter = headers['retry-after'];
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Worth trying the same provider again after a pause
+export function isRetryableError(error: any): boolean {
+  return RETRYABLE_STATUSES.has(error?.status) || RETRYABLE_CODES.has(error?.code);
+}
+
+// Worth moving on to the next provider in the fallback chain
+export function isProviderUnavailable(error: any): boolean {
+  return isRetryableError(error) || UNREACHABLE_CODES.has(error?.code);
+}
+
+export function getRetryDelay(attempt: number, options: RetryOptions, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+
+  // Full jitter keeps concurrent requests from retrying in lockstep
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+// Wait that ends early with an error when the request is cancelled
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request cancelled'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  {
+    options = DEFAULT_RETRY_OPTIONS,
+    signal,
+    shouldRetry = isRetryableError,
+    onRetry
+  }: {
+    options?: RetryOptions;
+    signal?: AbortSignal;
+    shouldRetry?: (error: any) => boolean;
+    onRetry?: (retry: RetryAttempt) => void;
+  } = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error: any) {
+      if (signal?.aborted || attempt > options.maxRetries || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(attempt, options, error.retryAfterMs);
+      if (delayMs > options.maxDelayMs) {
+        // The provider asked for a longer pause than we are willing to wait
+        throw error;
+      }
+
+      onRetry?.({ attempt, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
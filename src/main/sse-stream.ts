@@ -0,0 +1,117 @@
+import { Readable } from 'stream';
+
+export interface SSEEvent {
+  event?: string;
+  data: string;
+}
+
+// Read a text/event-stream body and hand every complete event to onEvent.
+// Resolves when the stream ends, rejects if the stream errors, onEvent throws
+// or the optional signal is aborted.
+export function readSSEStream(stream: Readable, onEvent: (event: SSEEvent) => void, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let buffer = '';
+    let eventName: string | undefined;
+    let dataLines: string[] = [];
+    let settled = false;
+
+    const onAbort = () => fail(new Error('Request cancelled'));
+
+    const fail = (error: any) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      stream.destroy();
+      reject(error);
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    const dispatch = () => {
+      if (dataLines.length > 0) {
+        onEvent({ event: eventName, data: dataLines.join('\n') });
+      }
+      eventName = undefined;
+      dataLines = [];
+    };
+
+    const processLine = (line: string) => {
+      // Blank line terminates an event, lines starting with ':' are comments
+      if (line === '') {
+        dispatch();
+        return;
+      }
+      if (line.startsWith(':')) return;
+
+      const separatorIndex = line.indexOf(':');
+      const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+      let value = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1);
+      if (value.startsWith(' ')) value = value.slice(1);
+
+      if (field === 'event') {
+        eventName = value;
+      } else if (field === 'data') {
+        dataLines.push(value);
+      }
+    };
+
+    // setEncoding keeps multi-byte characters intact across chunk boundaries
+    stream.setEncoding('utf8');
+
+    stream.on('data', (chunk: string) => {
+      if (settled) return;
+      buffer += chunk;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+      try {
+        lines.forEach(processLine);
+      } catch (error) {
+        fail(error);
+      }
+    });
+
+    stream.on('end', () => {
+      if (settled) return;
+      try {
+        if (buffer) processLine(buffer);
+        dispatch();
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      } catch (error) {
+        fail(error);
+      }
+    });
+
+    stream.on('error', fail);
+
+    // A destroyed socket can close without emitting 'end' or 'error'
+    stream.on('close', () => fail(new Error('Stream closed before completion')));
+  });
+}
+
+// With responseType 'stream' axios hands back the error body as a stream too.
+// Read it and replace response.data with the parsed JSON so callers can keep
+// using error.response?.data?.error?.message.
+export async function normalizeStreamError(error: any): Promise<void> {
+  const data = error?.response?.data;
+  if (!data || typeof data.on !== 'function') return;
+
+  const body = await new Promise<string>((resolve) => {
+    let text = '';
+    data.setEncoding?.('utf8');
+    data.on('data', (chunk: string) => { text += chunk; });
+    data.on('end', () => resolve(text));
+    data.on('error', () => resolve(text));
+  });
+
+  try {
+    error.response.data = JSON.parse(body);
+  } catch {
+    error.response.data = { error: { message: body || error.message } };
+  }
+}
@@ -0,0 +1,113 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { getTokenizerProfile, TokenizerEncoding } from '../shared/tokenizers';
+import type { TokenCountRequest, TokenCountResponse } from './token-worker';
+
+// A count that takes longer than this falls back to the heuristic estimate
+const COUNT_TIMEOUT_MS = 10000;
+// Texts are counted once per encoding; chats resend the same history on every turn
+const MAX_CACHED_COUNTS = 5000;
+
+interface PendingCount {
+  resolve: (counts: number[]) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Counts tokens with the model family's BPE tokenizer, in a worker thread so long chats
+// don't block the main process. Any failure leaves messages to the heuristic in token-optimizer.
+class TokenCounter {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingCount>();
+  private nextId = 1;
+  private counts = new Map<string, number>();
+
+  // Tokens per text, scaled to the model's tokenizer; null if the tokenizer couldn't run
+  async countTexts(texts: string[], providerId: string, modelId?: string): Promise<number[] | null> {
+    const { encoding, scale } = getTokenizerProfile(providerId, modelId);
+    const keys = texts.map(text => this.cacheKey(encoding, text));
+    const missing = [...new Set(keys.filter(key => !this.counts.has(key)))];
+
+    if (missing.length > 0) {
+      const missingTexts = missing.map(key => texts[keys.indexOf(key)]);
+      try {
+        const counts = await this.encode(encoding, missingTexts);
+        missing.forEach((key, i) => this.remember(key, counts[i]));
+      } catch (error: any) {
+        console.error('❌ Tokenizer unavailable, using estimates:', error.message);
+        return null;
+      }
+    }
+
+    return keys.map(key => Math.ceil(this.counts.get(key)! * scale));
+  }
+
+  // Copies of the messages with tokenCount set, read by estimateMessageTokens instead of the heuristic
+  async annotate<T extends { content: string }>(messages: T[], providerId: string, modelId?: string): Promise<(T & { tokenCount?: number })[]> {
+    const counts = await this.countTexts(messages.map(msg => msg.content || ''), providerId, modelId);
+    if (!counts) return messages;
+    return messages.map((msg, i) => ({ ...msg, tokenCount: counts[i] }));
+  }
+
+  private encode(encoding: TokenizerEncoding, texts: string[]): Promise<number[]> {
+    const worker = this.getWorker();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Token count timed out after ${COUNT_TIMEOUT_MS}ms`));
+      }, COUNT_TIMEOUT_MS);
+      this.pending.set(id, { resolve, reject, timer });
+      const request: TokenCountRequest = { id, encoding, texts };
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(path.join(__dirname, 'token-worker.js'));
+    worker.on('message', (response: TokenCountResponse) => {
+      const pending = this.pending.get(response.id);
+      if (!pending) return;
+      this.pending.delete(response.id);
+      clearTimeout(pending.timer);
+      if (response.counts) {
+        pending.resolve(response.counts);
+      } else {
+        pending.reject(new Error(response.error || 'Tokenizer failed'));
+      }
+    });
+    // A crashed worker fails what it was counting; the next count starts a new one
+    const onExit = (error: Error) => {
+      if (this.worker === worker) this.worker = null;
+      this.pending.forEach(pending => {
+        clearTimeout(pending.timer);
+        pending.reject(error);
+      });
+      this.pending.clear();
+    };
+    worker.on('error', onExit);
+    worker.on('exit', code => onExit(new Error(`Tokenizer worker exited with code ${code}`)));
+    // Idle counting must not keep the app from quitting
+    worker.unref();
+
+    this.worker = worker;
+    return worker;
+  }
+
+  private cacheKey(encoding: TokenizerEncoding, text: string): string {
+    return `${encoding}:${crypto.createHash('sha1').update(text).digest('hex')}`;
+  }
+
+  // Maps keep insertion order, so the first key is the least recently added
+  private remember(key: string, count: number): void {
+    this.counts.set(key, count);
+    if (this.counts.size > MAX_CACHED_COUNTS) {
+      this.counts.delete(this.counts.keys().next().value!);
+    }
+  }
+}
+
+export const tokenCounter = new TokenCounter();
@@ -0,0 +1,41 @@
+import { parentPort } from 'worker_threads';
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+import type { TokenizerEncoding } from '../shared/tokenizers';
+
+// Counts tokens off the main thread: encoding a long chat takes long enough to stall IPC,
+// and the rank tables are only loaded once an encoding is first asked for
+
+export interface TokenCountRequest {
+  id: number;
+  encoding: TokenizerEncoding;
+  texts: string[];
+}
+
+export interface TokenCountResponse {
+  id: number;
+  counts?: number[];
+  error?: string;
+}
+
+const encoders = new Map<TokenizerEncoding, Tiktoken>();
+
+function getEncoder(encoding: TokenizerEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = getEncoding(encoding);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+parentPort?.on('message', (request: TokenCountRequest) => {
+  let response: TokenCountResponse;
+  try {
+    const encoder = getEncoder(request.encoding);
+    // Special tokens typed into a chat are plain text to the model, not control tokens
+    response = { id: request.id, counts: request.texts.map(text => encoder.encode(text, [], []).length) };
+  } catch (error: any) {
+    response = { id: request.id, error: error.message };
+  }
+  parentPort?.postMessage(response);
+});
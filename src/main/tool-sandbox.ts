@@ -0,0 +1,166 @@
+import { BrowserWindow, clipboard, WebContents } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ToolCall, ToolResult } from '@/shared/types';
+import { getToolDefinition } from '../shared/tools';
+import { getDatabase } from './database';
+import { sleep } from './retry-policy';
+import type { ScreenCaptureService } from './screen-capture';
+
+// Tool output is cut off here so one call can't flood the context window
+const MAX_RESULT_CHARS = 20000;
+const SEARCH_SNIPPET_CHARS = 300;
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+// Lets the overlay disappear before the screen is captured
+const CAPTURE_SETTLE_MS = 500;
+
+// Where the tool was called from
+export interface ToolContext {
+  window: BrowserWindow | null; // Hidden while the screen is captured
+  chatId?: number; // Left out of chat searches, its history is already in context
+  signal?: AbortSignal;
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}… [truncated ${text.length - maxChars} characters]` : text;
+}
+
+// Runs the built-in tools the model asks for. Only tools defined in src/shared/tools.ts
+// can run, each limited to what it needs: no shell, no file system beyond its own images.
+class ToolSandbox {
+  private screenCapture: ScreenCaptureService | null = null;
+  private pendingConfirmations = new Map<string, (approved: boolean) => void>();
+
+  // The capture service belongs to the application window, which is created after the IPC handlers
+  useScreenCapture(service: ScreenCaptureService): void {
+    this.screenCapture = service;
+  }
+
+  async run(call: ToolCall, context: ToolContext): Promise<ToolResult> {
+    const fail = (content: string): ToolResult => ({ callId: call.id, name: call.name, content, isError: true });
+    if (!getToolDefinition(call.name)) {
+      return fail(`Unknown tool: ${call.name}`);
+    }
+
+    console.log(`🛠️ Running tool ${call.name}`, call.arguments);
+    try {
+      const result = await this.execute(call, context);
+      return { callId: call.id, name: call.name, ...result, content: truncate(result.content, MAX_RESULT_CHARS) };
+    } catch (error: any) {
+      if (context.signal?.aborted) throw error;
+      console.error(`❌ Tool ${call.name} failed:`, error.message);
+      return fail(`Tool failed: ${error.message}`);
+    }
+  }
+
+  // Ask the renderer to approve a call; resolves false if the request is cancelled first
+  requestConfirmation(sender: WebContents, requestId: string, call: ToolCall, signal?: AbortSignal): Promise<boolean> {
+    if (sender.isDestroyed()) return Promise.resolve(false);
+
+    const confirmationId = `${requestId}-${call.id}`;
+    return new Promise(resolve => {
+      const onAbort = () => this.resolveConfirmation(confirmationId, false);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pendingConfirmations.set(confirmationId, approved => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(approved);
+      });
+      sender.send('ai-tool-confirmation', { requestId, confirmationId, call });
+    });
+  }
+
+  resolveConfirmation(confirmationId: string, approved: boolean): void {
+    const resolve = this.pendingConfirmations.get(confirmationId);
+    if (!resolve) return;
+    this.pendingConfirmations.delete(confirmationId);
+    resolve(approved);
+  }
+
+  private async execute(call: ToolCall, context: ToolContext): Promise<Omit<ToolResult, 'callId' | 'name'>> {
+    switch (call.name) {
+      case 'capture_screen':
+        return this.captureScreen(context);
+      case 'read_clipboard':
+        return this.readClipboard();
+      case 'search_chats':
+        return this.searchChats(call.arguments, context);
+      default:
+        throw new Error(`No implementation for ${call.name}`);
+    }
+  }
+
+  private async captureScreen(context: ToolContext): Promise<Omit<ToolResult, 'callId' | 'name'>> {
+    if (!this.screenCapture) {
+      throw new Error('Screen capture is not available');
+    }
+
+    const { window } = context;
+    const wasVisible = window?.isVisible() || false;
+    if (window && wasVisible) {
+      window.setAlwaysOnTop(false);
+      window.hide();
+    }
+
+    try {
+      await sleep(CAPTURE_SETTLE_MS, context.signal);
+      const capture = await this.screenCapture.startCapture();
+      if (!capture) {
+        return { content: 'The user cancelled the screen selection.', isError: true };
+      }
+      const { width, height } = capture.bounds;
+      return { content: `Screenshot of the selected ${width}x${height} area.`, imagePath: capture.imagePath };
+    } finally {
+      if (window && wasVisible && !window.isDestroyed()) {
+        window.show();
+        window.focus();
+        window.setAlwaysOnTop(true, 'floating');
+      }
+    }
+  }
+
+  private readClipboard(): Omit<ToolResult, 'callId' | 'name'> {
+    const text = clipboard.readText();
+    const image = clipboard.readImage();
+
+    let imagePath: string | undefined;
+    if (!image.isEmpty()) {
+      const tempDir = path.join(process.cwd(), 'temp');
+      fs.mkdirSync(tempDir, { recursive: true });
+      imagePath = path.join(tempDir, `clipboard_${Date.now()}.png`);
+      fs.writeFileSync(imagePath, image.toPNG());
+    }
+
+    if (!text && !imagePath) {
+      return { content: 'The clipboard is empty.' };
+    }
+    return {
+      content: text ? `Clipboard text:\n${text}` : 'The clipboard holds an image and no text.',
+      imagePath
+    };
+  }
+
+  private searchChats(args: Record<string, unknown>, context: ToolContext): Omit<ToolResult, 'callId' | 'name'> {
+    const query = typeof args.query === 'string' ? args.query.trim() : '';
+    if (!query) {
+      return { content: 'A non-empty query is required.', isError: true };
+    }
+    const limit = Math.min(Math.max(Math.floor(Number(args.limit) || DEFAULT_SEARCH_LIMIT), 1), MAX_SEARCH_LIMIT);
+
+    const matches = getDatabase().searchMessages(query, limit, context.chatId);
+    if (matches.length === 0) {
+      return { content: `No earlier messages contain "${query}".` };
+    }
+
+    const lines = matches.map(match => {
+      // Center the excerpt on the first occurrence
+      const position = Math.max(match.content.toLowerCase().indexOf(query.toLowerCase()), 0);
+      const start = Math.max(position - SEARCH_SNIPPET_CHARS / 2, 0);
+      const snippet = match.content.slice(start, start + SEARCH_SNIPPET_CHARS).replace(/\s+/g, ' ');
+      return `[${match.chatTitle}, ${match.timestamp}, ${match.role}] ${start > 0 ? '…' : ''}${snippet}`;
+    });
+    return { content: `${matches.length} matching messages:\n${lines.join('\n')}` };
+  }
+}
+
+export const toolSandbox = new ToolSandbox();
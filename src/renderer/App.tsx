@@ -1,8 +1,10 @@
 /// <reference path="../types/global.d.ts" />
 import React, { useState, useEffect, useRef } from 'react';
 import Overlay from './components/Overlay';
-import { Chat, Message, AppSettings, ScreenCapture } from '@/shared/types';
+import { Chat, Message, AppSettings, GenerationParams, PendingToolCall, ScreenCapture, SendMessageOptions } from '@/shared/types';
 import { generateChatTitle, shouldAutoName } from './services/chatNamingService';
+import { getProviderApiKey, getProviderDefinition, getModelDisplayName } from '@/shared/providers';
+import { CompareColumn } from '@/shared/compare';
 
 const App: React.FC = () => {
   console.log('🚀 App component starting...');
@@ -25,6 +27,17 @@ const App: React.FC = () => {
   });
   const [isLoading, setIsLoading] = useState(true);
   const [showMoveToNewChatOption, setShowMoveToNewChatOption] = useState(false);
+  // Partial assistant reply while a response is streaming in (null when idle)
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
+  const [streamingReasoning, setStreamingReasoning] = useState<string | null>(null); // Thinking streamed ahead of the reply
+  // Retry/failover progress for the request in flight (null when there is none)
+  const [requestStatus, setRequestStatus] = useState<string | null>(null);
+  // Tool call the model made that needs the user's approval before it runs
+  const [pendingToolCall, setPendingToolCall] = useState<PendingToolCall | null>(null);
+  // Per-model progress while a compare mode send is in flight
+  const [compareColumns, setCompareColumns] = useState<CompareColumn[] | null>(null);
+  // Request id of the AI call in flight, used by the Stop button
+  const activeRequestIdRef = useRef<string | null>(null);
 
   // Refs to track current state in event listeners
   const currentChatRef = useRef<Chat | null>(null);
@@ -317,56 +330,168 @@ const App: React.FC = () => {
     }
   };
 
-  const sendMessage = async (text: string, imagePath?: string) => {
+  const updateChatSystemPrompt = async (chatId: number, systemPrompt: string | null) => {
+    await window.electronAPI.updateChatSystemPrompt(chatId, systemPrompt);
+    const update = { systemPrompt: systemPrompt || undefined };
+    setChats(prev => prev.map(chat => 
+      chat.id === chatId ? { ...chat, ...update } : chat
+    ));
+
+    if (currentChat?.id === chatId) {
+      setCurrentChat(prev => prev ? { ...prev, ...update } : null);
+    }
+  };
+
+  const updateChatGenerationParams = async (chatId: number, params: GenerationParams | null) => {
+    await window.electronAPI.updateChatGenerationParams(chatId, params);
+    const update = { generationParams: params || undefined };
+    setChats(prev => prev.map(chat => 
+      chat.id === chatId ? { ...chat, ...update } : chat
+    ));
+
+    if (currentChat?.id === chatId) {
+      setCurrentChat(prev => prev ? { ...prev, ...update } : null);
+    }
+  };
+
+  const sendMessage = async (text: string, imagePath?: string, options: SendMessageOptions = {}) => {
     if (!currentChat || (!text.trim() && !imagePath)) return;
 
+    let unsubscribeStream: (() => void) | null = null;
+    let unsubscribeStatus: (() => void) | null = null;
+    let unsubscribeToolConfirmation: (() => void) | null = null;
+    let userMessage: Message | null = null;
+    let requestId: string | undefined;
+
     try {
       // Hide move to new chat option when user sends a message
       setShowMoveToNewChatOption(false);
       
       // Create a new message as usual
       const messageContent = text.trim() || (imagePath ? "[Image]" : "");
-      const userMessage = await window.electronAPI.saveMessage({
+      const savedUserMessage = await window.electronAPI.saveMessage({
         chatId: currentChat.id,
         role: 'user',
         content: messageContent,
         imagePath
       });
+      userMessage = savedUserMessage;
       
-      setMessages(prev => [...prev, userMessage]);
+      setMessages(prev => [...prev, savedUserMessage]);
 
       // Get API key for selected provider
       const apiKey = getApiKeyForProvider(settings.selectedProvider);
       console.log(`🔑 Frontend sending provider: ${settings.selectedProvider}, apiKey starts with: ${apiKey?.substring(0, 10)}...`);
-      if (!apiKey) {
+      // Replayed fixtures need no key, so offline test runs work on a machine without any
+      if (!apiKey && !getProviderDefinition(settings.selectedProvider)?.apiKeyOptional && settings.fixtureMode !== 'replay') {
         throw new Error(`API key not configured for ${settings.selectedProvider}`);
       }
 
+      // Listen for streamed chunks belonging to this request only
+      requestId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      activeRequestIdRef.current = requestId;
+      unsubscribeStream = window.electronAPI.onAIMessageChunk(({ requestId: chunkRequestId, delta, reasoning, reset }) => {
+        if (chunkRequestId !== requestId) return;
+        if (reset) {
+          // The text so far went with a tool round, not the reply
+          setStreamingContent(null);
+          setStreamingReasoning(null);
+        } else if (reasoning) {
+          setStreamingReasoning(prev => (prev || '') + delta);
+        } else {
+          setStreamingContent(prev => (prev || '') + delta);
+        }
+        setRequestStatus(null);
+      });
+      unsubscribeStatus = window.electronAPI.onAIMessageStatus(({ requestId: statusRequestId, status }) => {
+        if (statusRequestId !== requestId) return;
+        setRequestStatus(status);
+      });
+      unsubscribeToolConfirmation = window.electronAPI.onToolConfirmation(({ requestId: toolRequestId, confirmationId, call }) => {
+        if (toolRequestId !== requestId) return;
+        setPendingToolCall({ confirmationId, call });
+      });
+
       // Send to AI with optimization tracking
       const selectedModel = settings.selectedModels?.[settings.selectedProvider];
       const aiResponse = await window.electronAPI.sendAIMessageWithTracking({
         text,
         imagePath,
         provider: settings.selectedProvider,
-        apiKey,
+        apiKey: apiKey || '',
         chatId: currentChat.id,
-        modelId: selectedModel
+        modelId: selectedModel,
+        requestId,
+        imageHandling: options.imageHandling,
+        extractSchema: options.extractSchema,
+        bypassCache: options.bypassCache
       });
 
+      // Keep what the text-only model was shown alongside the image it replaced
+      if (aiResponse.imageDescription) {
+        userMessage = { ...userMessage, imageDescription: aiResponse.imageDescription };
+        await window.electronAPI.updateMessage(userMessage.id, { imageDescription: aiResponse.imageDescription });
+      }
+
+      // Keep the tool rounds in the chat so the user can see what the model looked at
+      const toolMessages: Message[] = [];
+      for (const turn of aiResponse.toolTurns || []) {
+        toolMessages.push(await window.electronAPI.saveMessage({
+          chatId: currentChat.id,
+          role: 'assistant',
+          content: turn.content,
+          toolCalls: turn.calls,
+          provider: aiResponse.providerId,
+          model: aiResponse.model,
+          requestId
+        }));
+        for (const result of turn.results) {
+          toolMessages.push(await window.electronAPI.saveMessage({
+            chatId: currentChat.id,
+            role: 'tool',
+            content: result.content,
+            imagePath: result.imagePath,
+            toolCallId: result.callId,
+            toolName: result.name,
+            error: result.isError ? result.content : undefined,
+            requestId
+          }));
+        }
+      }
+
       // Save AI response with actual cost tracking
       const aiMessage = await window.electronAPI.saveMessage({
         chatId: currentChat.id,
         role: 'assistant',
         content: aiResponse.content,
-        provider: settings.selectedProvider,
+        // Record the provider that actually answered, which may be a fallback
+        provider: aiResponse.providerId,
         model: aiResponse.model,
         optimizationMethod: aiResponse.optimizationUsed,
         actualInputTokens: aiResponse.actualInputTokens,
-        actualCost: aiResponse.totalCost
+        actualOutputTokens: aiResponse.actualOutputTokens,
+        cachedTokens: aiResponse.cachedTokens,
+        cacheWriteTokens: aiResponse.cacheWriteTokens,
+        reasoningTokens: aiResponse.reasoningTokens,
+        actualCost: aiResponse.totalCost,
+        cancelled: aiResponse.cancelled,
+        generationParams: aiResponse.generationParams,
+        visionNote: aiResponse.visionNote,
+        extraction: aiResponse.extraction,
+        reasoning: aiResponse.reasoning,
+        requestId,
+        cachedAt: aiResponse.cachedAt,
+        memorySources: aiResponse.memorySources
       });
 
-      const updatedMessages = [...messages, userMessage, aiMessage];
+      if (aiResponse.fallbackFrom) {
+        console.log(`↪️ ${aiResponse.fallbackFrom} was unavailable, answered by ${aiResponse.providerId}`);
+      }
+
+      const updatedMessages = [...messages, userMessage, ...toolMessages, aiMessage];
       setMessages(updatedMessages);
+      setStreamingContent(null);
+      setStreamingReasoning(null);
       
       // Update currentChat with new totalCost
       if (currentChat) {
@@ -399,30 +524,205 @@ const App: React.FC = () => {
           console.error('❌ Failed to auto-generate chat title:', error);
         }
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to send message:', error);
-      // Could show error message to user
+
+      // Give the saved user message a visible reply instead of leaving it dangling
+      if (userMessage) {
+        try {
+          const errorMessage = await window.electronAPI.saveMessage({
+            chatId: currentChat.id,
+            role: 'assistant',
+            content: '',
+            provider: settings.selectedProvider,
+            error: (error?.message || 'Request failed').replace(/^Error invoking remote method '[^']+': (Error: )?/, ''),
+            requestId
+          });
+          setMessages(prev => [...prev, errorMessage]);
+        } catch (saveError) {
+          console.error('Failed to save error message:', saveError);
+        }
+      }
+    } finally {
+      unsubscribeStream?.();
+      unsubscribeStatus?.();
+      unsubscribeToolConfirmation?.();
+      activeRequestIdRef.current = null;
+      setStreamingContent(null);
+      setStreamingReasoning(null);
+      setRequestStatus(null);
+      setPendingToolCall(null);
+    }
+  };
+
+  // Allow or deny the pending tool call; "always" stops asking for that tool
+  const respondToToolCall = async (approved: boolean, always = false) => {
+    if (!pendingToolCall) return;
+    setPendingToolCall(null);
+
+    if (always) {
+      await updateSettings({ toolPermissions: { ...settings.toolPermissions, [pendingToolCall.call.name]: 'allow' } });
+    }
+    await window.electronAPI.respondToToolConfirmation(pendingToolCall.confirmationId, approved);
+  };
+
+  // Compare mode: send one prompt to every configured compare target and keep each reply
+  // as a sibling assistant message, so the user can pick which one continues the chat
+  const sendCompareMessage = async (text: string, imagePath?: string) => {
+    const targets = settings.compareTargets || [];
+    if (!currentChat || (!text.trim() && !imagePath) || targets.length === 0) return;
+
+    let unsubscribeStream: (() => void) | null = null;
+    let unsubscribeStatus: (() => void) | null = null;
+    let userMessage: Message | null = null;
+    let requestId: string | undefined;
+
+    try {
+      setShowMoveToNewChatOption(false);
+
+      const savedUserMessage = await window.electronAPI.saveMessage({
+        chatId: currentChat.id,
+        role: 'user',
+        content: text.trim() || (imagePath ? "[Image]" : ""),
+        imagePath
+      });
+      userMessage = savedUserMessage;
+      setMessages(prev => [...prev, savedUserMessage]);
+
+      requestId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      activeRequestIdRef.current = requestId;
+      setCompareColumns(targets.map(target => {
+        const definition = getProviderDefinition(target.provider);
+        const modelId = target.model || settings.selectedModels?.[target.provider] || definition?.defaultModel || '';
+        return {
+          label: `${definition?.name || target.provider} • ${getModelDisplayName(target.provider, modelId)}`,
+          content: '',
+          reasoning: '',
+          status: null
+        };
+      }));
+
+      const updateColumn = (index: number, update: (column: CompareColumn) => CompareColumn) => {
+        setCompareColumns(prev => prev && prev.map((column, i) => (i === index ? update(column) : column)));
+      };
+      unsubscribeStream = window.electronAPI.onAIMessageChunk(({ requestId: chunkRequestId, delta, reasoning, targetIndex }) => {
+        if (chunkRequestId !== requestId || targetIndex === undefined) return;
+        updateColumn(targetIndex, column => reasoning
+          ? { ...column, reasoning: column.reasoning + delta, status: null }
+          : { ...column, content: column.content + delta, status: null });
+      });
+      unsubscribeStatus = window.electronAPI.onAIMessageStatus(({ requestId: statusRequestId, status, targetIndex }) => {
+        if (statusRequestId !== requestId || targetIndex === undefined) return;
+        updateColumn(targetIndex, column => ({ ...column, status }));
+      });
+
+      const results = await window.electronAPI.sendAIMessageCompare({
+        text,
+        imagePath,
+        chatId: currentChat.id,
+        targets,
+        requestId
+      });
+
+      // Saved in target order so the columns keep the configured order
+      const replies: Message[] = [];
+      for (const result of results) {
+        replies.push(await window.electronAPI.saveMessage({
+          chatId: currentChat.id,
+          role: 'assistant',
+          content: result.content,
+          provider: result.providerId,
+          model: result.model,
+          optimizationMethod: result.optimizationUsed,
+          actualInputTokens: result.actualInputTokens,
+          actualOutputTokens: result.actualOutputTokens,
+          cachedTokens: result.cachedTokens,
+          cacheWriteTokens: result.cacheWriteTokens,
+          reasoningTokens: result.reasoningTokens,
+          reasoning: result.reasoning,
+          actualCost: result.totalCost,
+          cancelled: result.cancelled,
+          error: result.error,
+          visionNote: result.visionNote,
+          generationParams: result.generationParams,
+          compareGroupId: savedUserMessage.id,
+          requestId: result.requestId,
+          memorySources: result.memorySources
+        }));
+      }
+      setMessages(prev => [...prev, ...replies]);
+
+      const totalCost = results.reduce((sum, result) => sum + result.totalCost, 0);
+      setCurrentChat(prev => prev ? { ...prev, totalCost: (prev.totalCost || 0) + totalCost } : null);
+      setChats(prevChats => 
+        prevChats.map(chat => 
+          chat.id === currentChat.id 
+            ? { ...chat, totalCost: (chat.totalCost || 0) + totalCost }
+            : chat
+        )
+      );
+    } catch (error: any) {
+      console.error('Failed to send compare message:', error);
+
+      // Give the saved user message a visible reply instead of leaving it dangling
+      if (userMessage) {
+        try {
+          const errorMessage = await window.electronAPI.saveMessage({
+            chatId: currentChat.id,
+            role: 'assistant',
+            content: '',
+            provider: targets[0].provider,
+            error: (error?.message || 'Request failed').replace(/^Error invoking remote method '[^']+': (Error: )?/, ''),
+            requestId
+          });
+          setMessages(prev => [...prev, errorMessage]);
+        } catch (saveError) {
+          console.error('Failed to save error message:', saveError);
+        }
+      }
+    } finally {
+      unsubscribeStream?.();
+      unsubscribeStatus?.();
+      activeRequestIdRef.current = null;
+      setCompareColumns(null);
+    }
+  };
+
+  // Pick which compare mode reply continues the conversation
+  const selectCompareReply = async (messageId: number) => {
+    const selected = messages.find(msg => msg.id === messageId);
+    if (!selected || selected.compareGroupId === undefined) return;
+
+    await window.electronAPI.selectCompareReply(messageId);
+    setMessages(prev => prev.map(msg => 
+      msg.compareGroupId === selected.compareGroupId
+        ? { ...msg, compareSelected: msg.id === messageId }
+        : msg
+    ));
+  };
+
+  // Fetch the current chat's messages again after the main process changed them, such as a
+  // compression folding them behind a checkpoint
+  const reloadMessages = async () => {
+    if (!currentChat?.id) return;
+    const chatMessages = await window.electronAPI.getChatMessages(currentChat.id);
+    setMessages(chatMessages);
+  };
+
+  const cancelMessage = async () => {
+    const requestId = activeRequestIdRef.current;
+    if (!requestId) return;
+
+    try {
+      await window.electronAPI.cancelAIMessage(requestId);
+    } catch (error) {
+      console.error('Failed to cancel message:', error);
     }
   };
 
   const getApiKeyForProvider = (provider: string): string | undefined => {
     console.log(`🔍 getApiKeyForProvider called for: ${provider}`);
-    console.log(`📋 Available API keys in settings:`, {
-      openai: settings.openaiApiKey?.substring(0, 10) + '...',
-      claude: settings.claudeApiKey?.substring(0, 10) + '...',
-      deepseek: settings.deepseekApiKey?.substring(0, 10) + '...'
-    });
-    
-    switch (provider) {
-      case 'openai':
-        return settings.openaiApiKey;
-      case 'claude':
-        return settings.claudeApiKey;
-      case 'deepseek':
-        return settings.deepseekApiKey;
-      default:
-        return undefined;
-    }
+    return getProviderApiKey(settings, provider);
   };
 
   const updateSettings = async (newSettings: Partial<AppSettings>) => {
@@ -446,12 +746,24 @@ const App: React.FC = () => {
       messages={messages}
       settings={settings}
       showMoveToNewChatOption={showMoveToNewChatOption}
+      streamingContent={streamingContent}
+      streamingReasoning={streamingReasoning}
+      requestStatus={requestStatus}
+      pendingToolCall={pendingToolCall}
+      onRespondToToolCall={respondToToolCall}
       onCreateChat={createNewChat}
       onSwitchChat={switchChat}
       onDeleteChat={deleteChat}
       onUpdateChatTitle={updateChatTitle}
+      onUpdateChatSystemPrompt={updateChatSystemPrompt}
+      onUpdateChatGenerationParams={updateChatGenerationParams}
       onMoveToNewChat={moveToNewChat}
       onSendMessage={sendMessage}
+      onCancelMessage={cancelMessage}
+      compareColumns={compareColumns}
+      onSendCompareMessage={sendCompareMessage}
+      onSelectCompareReply={selectCompareReply}
+      onReloadMessages={reloadMessages}
       onUpdateSettings={updateSettings}
       onImageRemoved={handleImageRemoved}
     />
@@ -1,11 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { AppSettings } from '@/shared/types';
+import { AppSettings, ApiKeyStatus } from '@/shared/types';
+import { getProviderDefinitions } from '@/shared/providers';
 
-interface ApiStatus {
-  openai: 'ready' | 'invalid' | 'error' | 'not-configured';
-  claude: 'ready' | 'invalid' | 'error' | 'not-configured';
-  deepseek: 'ready' | 'invalid' | 'error' | 'not-configured';
-}
+type ApiStatus = Record<string, ApiKeyStatus>;
 
 interface ApiKeyManagerProps {
   settings: AppSettings;
@@ -16,23 +13,23 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
   settings,
   onUpdateSettings,
 }) => {
-  const [apiStatus, setApiStatus] = useState<ApiStatus>({
-    openai: 'not-configured',
-    claude: 'not-configured',
-    deepseek: 'not-configured',
-  });
+  const providers = getProviderDefinitions().map(provider => ({
+    id: provider.id,
+    name: provider.name,
+    keyField: provider.apiKeySetting,
+    keyOptional: !!provider.apiKeyOptional,
+    baseUrlField: provider.baseUrlSetting,
+    defaultBaseUrl: provider.defaultBaseUrl
+  }));
+
+  const [apiStatus, setApiStatus] = useState<ApiStatus>(() =>
+    providers.reduce((status, provider) => {
+      status[provider.id] = 'not-configured';
+      return status;
+    }, {} as ApiStatus)
+  );
   const [isCheckingStatus, setIsCheckingStatus] = useState(false);
-  const [showKeys, setShowKeys] = useState({
-    openai: false,
-    claude: false,
-    deepseek: false,
-  });
-
-  const providers = [
-    { id: 'openai', name: 'OpenAI', keyField: 'openaiApiKey' as keyof AppSettings },
-    { id: 'claude', name: 'Claude', keyField: 'claudeApiKey' as keyof AppSettings },
-    { id: 'deepseek', name: 'DeepSeek', keyField: 'deepseekApiKey' as keyof AppSettings },
-  ];
+  const [showKeys, setShowKeys] = useState<Record<string, boolean>>({});
 
   // Remove automatic API key validation - only validate on manual refresh
   // This prevents excessive API calls when opening settings page
@@ -50,7 +47,7 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
   };
 
   const getStatusColor = (providerId: string): string => {
-    const status = apiStatus[providerId as keyof ApiStatus];
+    const status = apiStatus[providerId];
     switch (status) {
       case 'ready':
         return 'text-green-400';
@@ -58,6 +55,8 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
         return 'text-red-400';
       case 'error':
         return 'text-yellow-400';
+      case 'network-error':
+        return 'text-orange-400';
       case 'not-configured':
         return 'text-gray-400';
       default:
@@ -66,7 +65,7 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
   };
 
   const getStatusText = (providerId: string): string => {
-    const status = apiStatus[providerId as keyof ApiStatus];
+    const status = apiStatus[providerId];
     switch (status) {
       case 'ready':
         return 'Ready';
@@ -74,6 +73,8 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
         return 'Invalid key';
       case 'error':
         return 'Server error';
+      case 'network-error':
+        return 'Proxy/TLS error';
       case 'not-configured':
         return 'Not configured';
       default:
@@ -82,7 +83,7 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
   };
 
   const getStatusIcon = (providerId: string): JSX.Element => {
-    const status = apiStatus[providerId as keyof ApiStatus];
+    const status = apiStatus[providerId];
     const baseClass = "w-4 h-4";
     
     switch (status) {
@@ -99,8 +100,9 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
           </svg>
         );
       case 'error':
+      case 'network-error':
         return (
-          <svg className={`${baseClass} text-yellow-400`} fill="currentColor" viewBox="0 0 20 20">
+          <svg className={`${baseClass} ${status === 'error' ? 'text-yellow-400' : 'text-orange-400'}`} fill="currentColor" viewBox="0 0 20 20">
             <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
           </svg>
         );
@@ -129,7 +131,7 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
   };
 
   const toggleShowKey = (provider: string) => {
-    setShowKeys(prev => ({ ...prev, [provider]: !prev[provider as keyof typeof prev] }));
+    setShowKeys(prev => ({ ...prev, [provider]: !prev[provider] }));
   };
 
   return (
@@ -159,8 +161,8 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
       </div>
 
       {providers.map((provider) => {
-        const currentKey = settings[provider.keyField] as string || '';
-        const isVisible = showKeys[provider.id as keyof typeof showKeys];
+        const currentKey = (settings as Record<string, any>)[provider.keyField] as string || '';
+        const isVisible = !!showKeys[provider.id];
         
         return (
           <div key={provider.id} className="p-4 rounded-lg bg-white/5 border border-white/10">
@@ -188,21 +190,32 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({
               </button>
             </div>
             
+            {provider.baseUrlField && (
+              <input
+                type="text"
+                className="glass-input w-full mb-2"
+                value={(settings as Record<string, any>)[provider.baseUrlField] || ''}
+                onChange={(e) => onUpdateSettings({ [provider.baseUrlField!]: e.target.value })}
+                placeholder={`Base URL, e.g. ${provider.defaultBaseUrl}`}
+              />
+            )}
+
             <div className="relative">
               <input
                 type={isVisible ? 'text' : 'password'}
                 className="glass-input w-full pr-10"
                 value={currentKey}
                 onChange={(e) => handleApiKeyChange(provider.id, e.target.value)}
-                placeholder={`Enter your ${provider.name} API key`}
+                placeholder={provider.keyOptional ? `${provider.name} API key (optional)` : `Enter your ${provider.name} API key`}
               />
             </div>
             
-            {currentKey && apiStatus[provider.id as keyof ApiStatus] !== 'ready' && (
+            {currentKey && apiStatus[provider.id] !== 'ready' && (
               <div className="mt-2 text-xs text-yellow-400">
-                {apiStatus[provider.id as keyof ApiStatus] === 'invalid' && 'This API key appears to be invalid. Please check and try again.'}
-                {apiStatus[provider.id as keyof ApiStatus] === 'error' && 'Unable to connect to the API server. Please check your connection.'}
-                {apiStatus[provider.id as keyof ApiStatus] === 'not-configured' && 'Click refresh to test this API key.'}
+                {apiStatus[provider.id] === 'invalid' && 'This API key appears to be invalid. Please check and try again.'}
+                {apiStatus[provider.id] === 'error' && 'Unable to connect to the API server. Please check your connection.'}
+                {apiStatus[provider.id] === 'network-error' && 'The request failed at the proxy or on an untrusted certificate. Check the proxy and certificate settings.'}
+                {apiStatus[provider.id] === 'not-configured' && 'Click refresh to test this API key.'}
               </div>
             )}
           </div>
@@ -0,0 +1,53 @@
+import React from 'react';
+import { AppSettings } from '@/shared/types';
+
+interface AuditLogSettingsProps {
+  settings: AppSettings;
+  onSettingsChange: (settings: Partial<AppSettings>) => void;
+}
+
+const DEFAULT_RETENTION_DAYS = 30;
+const RETENTION_OPTIONS: { days: number; label: string }[] = [
+  { days: 0, label: 'Off' },
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' }
+];
+
+const AuditLogSettings: React.FC<AuditLogSettingsProps> = ({
+  settings,
+  onSettingsChange,
+}) => {
+  const retentionDays = settings.auditRetentionDays ?? DEFAULT_RETENTION_DAYS;
+
+  return (
+    <div className="pt-4 border-t border-white/10">
+      <label className="block text-white text-sm font-medium mb-2" style={{textShadow: '0 1px 2px rgba(0, 0, 0, 0.8)'}}>
+        Request Log
+      </label>
+      <p className="text-xs text-white/60 mb-3">
+        Every AI call is logged locally with the exact messages, parameters, timing and any error. Images are stored as hashes only. Right-click a reply to view its log.
+      </p>
+
+      <label className="block text-xs text-white/70">
+        Keep records for
+        <select
+          value={retentionDays}
+          onChange={(e) => {
+            const days = Number(e.target.value);
+            onSettingsChange({ auditRetentionDays: days === DEFAULT_RETENTION_DAYS ? undefined : days });
+          }}
+          className="glass-input w-full text-xs mt-1"
+        >
+          {RETENTION_OPTIONS.map(option => (
+            <option key={option.days} value={option.days}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default AuditLogSettings;
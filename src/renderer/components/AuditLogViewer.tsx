@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { AuditRecord } from '@/shared/types';
+import { getModelDisplayName, getProviderDefinition } from '@/shared/providers';
+
+interface AuditLogViewerProps {
+  requestId: string;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<AuditRecord['status'], string> = {
+  ok: 'bg-green-500/20 text-green-300',
+  error: 'bg-red-500/20 text-red-300',
+  cancelled: 'bg-yellow-500/20 text-yellow-300'
+};
+
+const formatJson = (value: unknown): string => JSON.stringify(value, null, 2);
+
+const AuditLogViewer: React.FC<AuditLogViewerProps> = ({
+  requestId,
+  onClose,
+}) => {
+  const [records, setRecords] = useState<AuditRecord[] | null>(null);
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.getAuditRecords(requestId)
+      .then(setRecords)
+      .catch(error => {
+        console.error('Failed to load audit records:', error);
+        setRecords([]);
+      });
+  }, [requestId]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const copyRecord = async (record: AuditRecord) => {
+    await navigator.clipboard.writeText(formatJson(record));
+    setCopiedId(record.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const renderRecord = (record: AuditRecord) => (
+    <div key={record.id} className="rounded-lg border border-white/15 bg-white/5 p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-xs min-w-0">
+          <span className="font-medium text-white truncate">
+            {getProviderDefinition(record.providerId)?.name || record.providerId} • {getModelDisplayName(record.providerId, record.modelId)}
+          </span>
+          <span className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[record.status]}`}>{record.status}</span>
+          {record.attempt > 1 && <span className="text-white/50">retry {record.attempt - 1}</span>}
+        </div>
+        <div className="flex items-center gap-2 text-xs text-white/50 shrink-0">
+          <span>{(record.latencyMs / 1000).toFixed(2)}s</span>
+          <span>{new Date(`${record.createdAt}Z`).toLocaleTimeString()}</span>
+          <button
+            onClick={() => copyRecord(record)}
+            className="px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white/70 hover:text-white transition-colors"
+          >
+            {copiedId === record.id ? 'Copied!' : 'Copy JSON'}
+          </button>
+        </div>
+      </div>
+
+      {record.usage && (
+        <div className="text-xs text-white/60">
+          {record.usage.inputTokens} in ({record.usage.cachedTokens} cached, {record.usage.cacheWriteTokens} cache write) • {record.usage.outputTokens} out ({record.usage.reasoningTokens} reasoning)
+        </div>
+      )}
+
+      {record.error && (
+        <div className="text-xs rounded bg-red-500/10 border border-red-500/30 p-2 space-y-1">
+          <div className="text-red-300">
+            {record.error.status && `${record.error.status} `}{record.error.code && `${record.error.code} `}{record.error.message}
+          </div>
+          {record.error.body !== undefined && (
+            <pre className="text-white/70 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">{formatJson(record.error.body)}</pre>
+          )}
+        </div>
+      )}
+
+      <details className="text-xs">
+        <summary className="cursor-pointer select-none text-white/70">Parameters</summary>
+        <pre className="mt-1 text-white/70 whitespace-pre-wrap break-all">{formatJson(record.params)}</pre>
+      </details>
+
+      <details className="text-xs" open>
+        <summary className="cursor-pointer select-none text-white/70">Request body</summary>
+        {record.body == null ? (
+          <div className="mt-1 text-white/50">The request failed before a body was sent.</div>
+        ) : (
+          <pre className="mt-1 rounded bg-black/30 p-2 text-white/80 whitespace-pre-wrap break-all select-text max-h-96 overflow-y-auto">{formatJson(record.body)}</pre>
+        )}
+      </details>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4" onMouseDown={onClose}>
+      <div
+        className="bg-gray-900/95 border border-white/20 rounded-lg w-full max-w-3xl max-h-full flex flex-col"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+          <h3 className="text-sm font-medium text-white">Request log</h3>
+          <button onClick={onClose} className="text-white/60 hover:text-white text-sm" title="Close">✕</button>
+        </div>
+        <div className="p-4 overflow-y-auto space-y-3">
+          {records === null ? (
+            <div className="text-xs text-white/60">Loading...</div>
+          ) : records.length === 0 ? (
+            <div className="text-xs text-white/60">
+              No audit records for this reply. They may have passed the retention period, or logging was turned off when it was sent.
+            </div>
+          ) : (
+            records.map(renderRecord)
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
@@ -5,10 +5,20 @@ import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import 'katex/dist/katex.min.css';
-import { Chat, Message, AppSettings } from '@/shared/types';
-import { AVAILABLE_MODELS } from '@/shared/models';
+import { Chat, ChatCheckpoint, Message, AppSettings, GenerationParams, ImageHandling, PendingToolCall, SendMessageOptions } from '@/shared/types';
+import { getProviderDefinition, getModelDisplayName as getModelDisplayNameFromRegistry } from '@/shared/providers';
+import { formatGenerationParams } from '@/shared/generation-params';
+import { CompareColumn, getCompareGroupReply } from '@/shared/compare';
+import { resolveCheckpoint } from '@/shared/checkpoints';
+import { IMAGE_HANDLING_LABELS, modelSupportsVision, resolveVisionTarget } from '@/shared/vision';
+import { formatToolCall, getToolDefinition } from '@/shared/tools';
 import { ImageCanvas } from './ImageCanvas';
 import TokenCounter from './TokenCounter';
+import PersonaPicker from './PersonaPicker';
+import GenerationParamsPicker from './GenerationParamsPicker';
+import ExtractSchemaPicker from './ExtractSchemaPicker';
+import ExtractionTable from './ExtractionTable';
+import AuditLogViewer from './AuditLogViewer';
 
 // Helper function to extract text content from React children
 const extractTextFromChildren = (children: any): string => {
@@ -28,8 +38,20 @@ interface ChatInterfaceProps {
   currentChat: Chat | null;
   messages: Message[];
   showMoveToNewChatOption: boolean;
-  onSendMessage: (text: string, imagePath?: string) => void;
+  streamingContent: string | null; // Partial assistant reply while streaming
+  streamingReasoning: string | null; // Partial reasoning trace, streamed before the reply
+  requestStatus: string | null; // Retry/failover progress while waiting for a reply
+  pendingToolCall: PendingToolCall | null; // Tool call waiting for the user's approval
+  onRespondToToolCall: (approved: boolean, always?: boolean) => void;
+  onSendMessage: (text: string, imagePath?: string, options?: SendMessageOptions) => void;
+  onCancelMessage: () => void;
+  compareColumns: CompareColumn[] | null; // Per-model progress while a compare send is in flight
+  onSendCompareMessage: (text: string, imagePath?: string) => void;
+  onSelectCompareReply: (messageId: number) => void;
+  onReloadMessages: () => Promise<void>; // Refetch the chat's messages after a compression or restore
   onMoveToNewChat: () => void;
+  onUpdateChatSystemPrompt: (chatId: number, systemPrompt: string | null) => void;
+  onUpdateChatGenerationParams: (chatId: number, params: GenerationParams | null) => void;
   provider: string;
   showZoomControls: boolean;
   zoomControlsRef: React.RefObject<HTMLDivElement>;
@@ -46,8 +68,20 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   currentChat,
   messages,
   showMoveToNewChatOption,
+  streamingContent,
+  streamingReasoning,
+  requestStatus,
+  pendingToolCall,
+  onRespondToToolCall,
   onSendMessage,
+  onCancelMessage,
+  compareColumns,
+  onSendCompareMessage,
+  onSelectCompareReply,
+  onReloadMessages,
   onMoveToNewChat,
+  onUpdateChatSystemPrompt,
+  onUpdateChatGenerationParams,
   provider,
   showZoomControls,
   zoomControlsRef,
@@ -56,23 +90,46 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 }) => {
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [extractSchema, setExtractSchema] = useState<NonNullable<SendMessageOptions['extractSchema']> | null>(null); // Extract mode when set
+  const [askImageHandling, setAskImageHandling] = useState(false); // Image pending for a text-only model
   const [currentImage, setCurrentImage] = useState<string | null>(null);
   const [showImageEditor, setShowImageEditor] = useState(false);
   const [zoomLevel, setZoomLevel] = useState(1);
   const [copiedCodeId, setCopiedCodeId] = useState<string | null>(null);
   const [copiedMessageId, setCopiedMessageId] = useState<number | null>(null);
+  const [messageMenu, setMessageMenu] = useState<{ message: Message; x: number; y: number } | null>(null); // Right-click menu on a reply
+  const [auditRequestId, setAuditRequestId] = useState<string | null>(null); // Request log being viewed
   const [isCompressing, setIsCompressing] = useState(false);
   const [compressionMessage, setCompressionMessage] = useState<{
     text: string;
     type: 'success' | 'info' | 'error';
   } | null>(null);
+  const [checkpoints, setCheckpoints] = useState<ChatCheckpoint[]>([]); // Compressions of this chat, folded messages point at them
+  const [expandedCheckpoints, setExpandedCheckpoints] = useState<Set<number>>(new Set());
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingContent, streamingReasoning, pendingToolCall]);
+
+  useEffect(() => {
+    loadCheckpoints();
+  }, [currentChat?.id, messages.length]);
+
+  const loadCheckpoints = async () => {
+    if (!currentChat?.id) {
+      setCheckpoints([]);
+      return;
+    }
+    try {
+      setCheckpoints(await window.electronAPI.getChatCheckpoints(currentChat.id));
+    } catch (error) {
+      console.error('Failed to load checkpoints:', error);
+    }
+  };
 
   useEffect(() => {
     // Listen for screen capture events
@@ -123,6 +180,22 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     };
   }, []);
 
+  // Close the message menu on any click or Escape
+  useEffect(() => {
+    if (!messageMenu) return;
+
+    const closeMenu = () => setMessageMenu(null);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') closeMenu();
+    };
+    document.addEventListener('mousedown', closeMenu);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', closeMenu);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [messageMenu]);
+
   // Auto-resize textarea based on content
   useEffect(() => {
     if (textareaRef.current) {
@@ -137,16 +210,44 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // Compare mode needs at least two models to compare
+  const canCompare = (settings.compareTargets?.length || 0) >= 2;
+
+  // Images for a model without vision need a decision before sending
+  const selectedModelId = settings.selectedModels?.[provider] || getProviderDefinition(provider)?.defaultModel;
+  const selectedModelSeesImages = !selectedModelId || modelSupportsVision(provider, selectedModelId);
+  const visionTarget = resolveVisionTarget(settings);
+
+  useEffect(() => {
+    if (!currentImage || selectedModelSeesImages || compareMode) {
+      setAskImageHandling(false);
+    }
+  }, [currentImage, selectedModelSeesImages, compareMode]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!inputText.trim() && !currentImage) return;
     if (!currentChat) return;
 
+    const sendsToTextOnlyModel = !!currentImage && !selectedModelSeesImages && !(compareMode && canCompare);
+    if (sendsToTextOnlyModel && (settings.visionFallback || 'ask') === 'ask') {
+      setAskImageHandling(true);
+      return;
+    }
+    await sendInput();
+  };
+
+  const sendInput = async (imageHandling?: ImageHandling) => {
+    setAskImageHandling(false);
     setIsLoading(true);
     
     try {
-      await onSendMessage(inputText.trim(), currentImage || undefined);
+      if (compareMode && canCompare) {
+        await onSendCompareMessage(inputText.trim(), currentImage || undefined);
+      } else {
+        await onSendMessage(inputText.trim(), currentImage || undefined, { imageHandling, extractSchema: extractSchema || undefined });
+      }
       setInputText('');
       setCurrentImage(null);
     } catch (error) {
@@ -156,6 +257,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
+  // Send the question a cached reply answered again, this time straight to the provider
+  const askAgainWithoutCache = async (reply: Message) => {
+    const question = messages.slice(0, messages.indexOf(reply)).reverse().find(msg => msg.role === 'user');
+    if (!question || isLoading) return;
+
+    setIsLoading(true);
+    try {
+      // Image-only questions are saved with a placeholder text
+      const text = question.imagePath && question.content === '[Image]' ? '' : question.content;
+      await onSendMessage(text, question.imagePath, { bypassCache: true, extractSchema: extractSchema || undefined });
+    } catch (error) {
+      console.error('Failed to send message:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -265,6 +383,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
+  const handleMessageContextMenu = (e: React.MouseEvent, message: Message) => {
+    if (message.role !== 'assistant') return;
+    e.preventDefault();
+    setMessageMenu({ message, x: e.clientX, y: e.clientY });
+  };
+
   const handleCompressChatHistory = async () => {
     if (!currentChat?.id) return;
     
@@ -276,13 +400,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       
       if (result.success) {
         setCompressionMessage({
-          text: `Chat history compressed! Deleted ${result.deletedCount} old messages, saved ~${result.savedTokens} tokens.`,
+          text: `Chat history compressed! Folded ${result.foldedCount} messages behind a summary, saving ~${result.savedTokens} tokens per message.`,
           type: 'success'
         });
-        // Refresh the chat to show updated messages
-        setTimeout(() => {
-          window.location.reload();
-        }, 2000);
+        await Promise.all([loadCheckpoints(), onReloadMessages()]);
       } else {
         setCompressionMessage({
           text: result.reason || 'No compression needed',
@@ -301,6 +422,28 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
+  // Undo a compression: the folded messages are shown and sent to the model again
+  const handleRestoreCheckpoint = async (checkpointId: number) => {
+    try {
+      await window.electronAPI.restoreCheckpoint(checkpointId);
+      await Promise.all([loadCheckpoints(), onReloadMessages()]);
+    } catch (error) {
+      console.error('Failed to restore checkpoint:', error);
+    }
+  };
+
+  const toggleCheckpoint = (checkpointId: number) => {
+    setExpandedCheckpoints(prev => {
+      const next = new Set(prev);
+      if (next.has(checkpointId)) {
+        next.delete(checkpointId);
+      } else {
+        next.add(checkpointId);
+      }
+      return next;
+    });
+  };
+
   const preprocessMathContent = (content: string) => {
     // Convert LaTeX delimiters to markdown math format that remark-math can handle
     return content
@@ -460,26 +603,319 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   };
 
   const getProviderColor = (provider: string) => {
-    switch (provider) {
-      case 'openai':
-        return 'text-green-400';
-      case 'claude':
-        return 'text-orange-400';
-      case 'deepseek':
-        return 'text-purple-400';
-      default:
-        return 'text-blue-400';
-    }
+    return getProviderDefinition(provider)?.color || 'text-blue-400';
   };
 
   const getModelDisplayName = (provider: string, model: string) => {
     if (!model || !provider) return '';
-    
-    const providerModels = AVAILABLE_MODELS[provider as keyof typeof AVAILABLE_MODELS];
-    if (!providerModels) return model;
-    
-    const modelInfo = providerModels.find(m => m.id === model);
-    return modelInfo ? modelInfo.name : model;
+    return getModelDisplayNameFromRegistry(provider, model);
+  };
+
+  // The model's thinking, collapsed by default; it stays open while the trace streams in
+  const renderReasoning = (reasoning: string, reasoningTokens?: number, streaming: boolean = false) => (
+    <details className="mb-2 text-xs text-white/70" open={streaming || undefined}>
+      <summary className="cursor-pointer select-none" title="Shown for reference only, never sent back to the model">
+        💭 {streaming ? 'Thinking...' : 'Thinking'}
+        {!!reasoningTokens && <span className="text-white/50"> ({reasoningTokens.toLocaleString()} tokens)</span>}
+      </summary>
+      <div className="mt-1 pl-2 border-l border-white/20 whitespace-pre-wrap select-text max-h-48 overflow-y-auto">
+        {reasoning}
+      </div>
+    </details>
+  );
+
+  const renderMessage = (message: Message, inColumn: boolean = false) => (
+      <div
+        key={message.id}
+        className={`flex ${inColumn ? 'min-w-0' : message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+      >
+        <div
+          className={`${inColumn ? 'w-full' : 'max-w-[85%]'} px-4 py-3 rounded-lg animate-slide-up break-words relative group ${
+            message.role === 'user'
+              ? 'bg-blue-500 text-white'
+              : 'bg-black/80 text-white backdrop-blur-sm border border-white/20'
+          }`}
+          onContextMenu={(e) => handleMessageContextMenu(e, message)}
+        >
+          {/* Copy button */}
+          <button
+            onClick={() => copyToClipboard(message.content, message.id)}
+            className={`absolute top-2 right-2 transition-opacity p-1 rounded bg-white/20 hover:bg-white/30 ${
+              copiedMessageId === message.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+            }`}
+            title="Copy message"
+          >
+            {copiedMessageId === message.id ? (
+              <span className="text-xs text-green-400 font-medium whitespace-nowrap">Copied!</span>
+            ) : (
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path d="M8 3a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z" />
+                <path d="M6 3a2 2 0 00-2 2v6h2V5h8v6h2V5a2 2 0 00-2-2H6zM4 9a2 2 0 00-2 2v6a2 2 0 002 2h8a2 2 0 002-2v-6a2 2 0 00-2-2H4z" />
+              </svg>
+            )}
+          </button>
+
+          {/* Show image if present */}
+          {message.imagePath && (
+            <div className="mb-3">
+              <img
+                src={`file://${message.imagePath}`}
+                alt="Captured screen"
+                className="max-w-full h-auto rounded border cursor-pointer hover:opacity-80 transition-opacity"
+                style={{ maxHeight: '120px', maxWidth: '200px' }}
+                title="Click to view full size"
+              />
+              {message.imageDescription && (
+                <details className="mt-2 text-xs text-white/80">
+                  <summary className="cursor-pointer select-none" title="The model only saw this description, not the image">
+                    Image description sent instead of the image
+                  </summary>
+                  <div className="mt-1 whitespace-pre-wrap select-text">{message.imageDescription}</div>
+                </details>
+              )}
+            </div>
+          )}
+          
+          {message.reasoning && renderReasoning(message.reasoning, message.reasoningTokens)}
+
+          <div className="text-sm select-text">
+            {message.error ? (
+              <span className="text-red-300">⚠️ {message.error}</span>
+            ) : message.cancelled && !message.content ? (
+              <span className="italic text-white/60">Response cancelled before any output was received.</span>
+            ) : message.extraction ? (
+              <>
+                <ExtractionTable extraction={message.extraction} />
+                {/* Unparseable replies are kept as text next to the error */}
+                {message.extraction.data === null && formatMessage(message.content)}
+              </>
+            ) : (
+              formatMessage(message.content)
+            )}
+          </div>
+
+          {/* What a text-only model actually received in place of the image */}
+          {message.visionNote && (
+            <div className="mt-2 text-xs px-2 py-1 rounded bg-yellow-500/20 text-yellow-200">
+              🖼️ {message.visionNote}
+            </div>
+          )}
+
+          {/* Past messages the memory strategy sent along as context */}
+          {message.memorySources && message.memorySources.length > 0 && (
+            <details className="mt-2 text-xs text-white/80">
+              <summary className="cursor-pointer select-none" title="Snippets from earlier chats the model was given with this request">
+                🧠 Recalled {message.memorySources.length} earlier {message.memorySources.length === 1 ? 'message' : 'messages'}
+              </summary>
+              <ul className="mt-1 space-y-1">
+                {message.memorySources.map(source => (
+                  <li key={source.messageId} className="px-2 py-1 rounded bg-white/10">
+                    <div className="flex items-center justify-between space-x-2 text-white/60">
+                      <span className="truncate" title={source.chatTitle}>
+                        {source.chatId === message.chatId ? 'Earlier in this chat' : source.chatTitle} • {source.role}
+                      </span>
+                      <span className="whitespace-nowrap" title="Similarity to the request">
+                        {new Date(`${source.timestamp}Z`).toLocaleDateString()} • {Math.round(source.score * 100)}%
+                      </span>
+                    </div>
+                    <div className="mt-0.5 whitespace-pre-wrap select-text max-h-16 overflow-y-auto">{source.snippet}</div>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          {/* Show provider and model for AI messages */}
+          {message.role === 'assistant' && message.provider && (
+            <div className="mt-3 pt-2 border-t border-white/30">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <span className={`text-xs font-medium ${getProviderColor(message.provider)}`}>
+                    {message.provider.toUpperCase()}
+                  </span>
+                  {message.model && (
+                    <>
+                      <span className="text-white/60 text-xs">•</span>
+                      <span className="text-xs text-white/80">
+                        {getModelDisplayName(message.provider, message.model)}
+                      </span>
+                    </>
+                  )}
+                  {message.generationParams && (
+                    <span className="text-xs text-white/50" title="Generation parameters sent with this request">
+                      {formatGenerationParams(message.generationParams)}
+                    </span>
+                  )}
+                  {inColumn && !!message.actualCost && (
+                    <span className="text-xs text-blue-300" title="Cost of this reply">
+                      ${message.actualCost.toFixed(4)}
+                    </span>
+                  )}
+                </div>
+                {message.cancelled && (
+                  <span className="text-xs px-1.5 py-0.5 rounded bg-yellow-500/20 text-yellow-300" title="This response was stopped before it finished">
+                    Cancelled
+                  </span>
+                )}
+                {message.cachedAt && (
+                  <span className="flex items-center space-x-2">
+                    <span
+                      className="text-xs px-1.5 py-0.5 rounded bg-teal-500/20 text-teal-300"
+                      title={`Reused answer from ${new Date(`${message.cachedAt}Z`).toLocaleString()}, nothing was billed`}
+                    >
+                      Cached
+                    </span>
+                    {!inColumn && (
+                      <button
+                        onClick={() => askAgainWithoutCache(message)}
+                        disabled={isLoading}
+                        className="text-xs text-white/60 hover:text-white transition-colors disabled:opacity-50"
+                        title="Send the question again and get a fresh answer from the provider"
+                      >
+                        Ask again
+                      </button>
+                    )}
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="text-xs opacity-60 mt-2">
+            {new Date(message.timestamp).toLocaleTimeString()}
+          </div>
+        </div>
+      </div>
+  );
+
+  // Tool rounds are shown as compact steps between the question and the final reply
+  const renderToolStep = (message: Message) => (
+    <div key={message.id} className="flex justify-start">
+      <div className="max-w-[85%] px-3 py-2 rounded-lg break-words text-xs bg-black/60 text-white/80 border border-white/10">
+        {message.role === 'tool' ? (
+          <details>
+            <summary className={`cursor-pointer select-none ${message.error ? 'text-red-300' : 'text-white/70'}`}>
+              ↳ {getToolDefinition(message.toolName || '')?.label || message.toolName}{message.error ? ' failed' : ''}
+            </summary>
+            {message.imagePath && (
+              <img
+                src={`file://${message.imagePath}`}
+                alt="Tool result"
+                className="mt-2 max-w-full h-auto rounded border"
+                style={{ maxHeight: '120px', maxWidth: '200px' }}
+              />
+            )}
+            <div className="mt-1 whitespace-pre-wrap select-text max-h-40 overflow-y-auto">{message.content}</div>
+          </details>
+        ) : (
+          <>
+            {message.content && <div className="text-sm select-text mb-1">{formatMessage(message.content)}</div>}
+            {message.toolCalls?.map(call => (
+              <div key={call.id} className="font-mono text-white/70 truncate" title={formatToolCall(call)}>
+                🛠️ {formatToolCall(call)}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  // Compare mode siblings side by side, with a control to pick the one that continues the chat
+  const renderCompareGroup = (siblings: Message[]) => {
+    const continuing = getCompareGroupReply(siblings.filter(msg => !msg.error && !msg.cancelled));
+
+    return (
+      <div key={`compare-${siblings[0].compareGroupId}`} className="space-y-1">
+        <div className="text-xs text-white/60">Compared {siblings.length} models</div>
+        <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${siblings.length}, minmax(0, 1fr))` }}>
+          {siblings.map(message => (
+            <div key={message.id} className="flex flex-col min-w-0 space-y-1">
+              {renderMessage(message, true)}
+              {continuing?.id === message.id ? (
+                <span className="text-xs text-green-300 text-center" title="This reply is sent as history with your next message">
+                  ✓ Continuing with this reply
+                </span>
+              ) : !message.error && !message.cancelled && (
+                <button
+                  onClick={() => onSelectCompareReply(message.id)}
+                  className="text-xs text-white/60 hover:text-white transition-colors px-2 py-1 rounded hover:bg-white/10"
+                >
+                  Use this reply
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  // Consecutive compare mode siblings are rendered together as one row of columns
+  const groupMessageRows = (rowMessages: Message[]) => rowMessages.reduce<(Message | Message[])[]>((rows, message) => {
+    const last = rows[rows.length - 1];
+    if (message.compareGroupId === undefined) {
+      rows.push(message);
+    } else if (Array.isArray(last) && last[0].compareGroupId === message.compareGroupId) {
+      last.push(message);
+    } else {
+      rows.push([message]);
+    }
+    return rows;
+  }, []);
+
+  const renderMessageRow = (row: Message | Message[]) => (
+    Array.isArray(row) ? renderCompareGroup(row)
+      : row.role === 'tool' || row.toolCalls ? renderToolStep(row)
+      : renderMessage(row)
+  );
+
+  // Messages folded behind the same compression checkpoint form one section, shown as its summary
+  const messageSections = messages.reduce<{ checkpoint?: ChatCheckpoint; messages: Message[] }[]>((sections, message) => {
+    const checkpoint = message.checkpointId !== undefined ? resolveCheckpoint(message.checkpointId, checkpoints) : undefined;
+    const last = sections[sections.length - 1];
+    if (last && last.checkpoint?.id === checkpoint?.id) {
+      last.messages.push(message);
+    } else {
+      sections.push({ checkpoint, messages: [message] });
+    }
+    return sections;
+  }, []);
+
+  const renderCheckpoint = (checkpoint: ChatCheckpoint, folded: Message[]) => {
+    const expanded = expandedCheckpoints.has(checkpoint.id);
+    return (
+      <div key={`checkpoint-${checkpoint.id}`} className="rounded-lg border border-blue-400/30 bg-blue-500/10 p-3 space-y-2">
+        <div className="flex items-center justify-between text-xs text-blue-200">
+          <span title="The model is sent this summary instead of the messages it replaces">
+            📦 {folded.length} messages compressed, ~{checkpoint.savedTokens.toLocaleString()} tokens saved per message
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => toggleCheckpoint(checkpoint.id)}
+              className="px-2 py-1 rounded hover:bg-white/10 transition-colors"
+            >
+              {expanded ? 'Hide originals' : 'Show originals'}
+            </button>
+            <button
+              onClick={() => handleRestoreCheckpoint(checkpoint.id)}
+              className="px-2 py-1 rounded hover:bg-white/10 transition-colors"
+              title="Undo this compression and send the original messages again"
+            >
+              Undo
+            </button>
+          </div>
+        </div>
+        <div className="text-sm text-white/90 select-text">
+          {formatMessage(checkpoint.summary)}
+        </div>
+        {expanded && (
+          <div className="space-y-4 pt-2 border-t border-white/10 opacity-70">
+            {groupMessageRows(folded).map(renderMessageRow)}
+          </div>
+        )}
+      </div>
+    );
   };
 
   return (
@@ -488,6 +924,24 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       {currentChat && (
         <div className="flex justify-between items-center p-2 border-b border-white/10 bg-black/20">
           <div className="flex items-center space-x-4">
+            <PersonaPicker
+              systemPrompt={currentChat.systemPrompt}
+              onSystemPromptChange={(systemPrompt) => onUpdateChatSystemPrompt(currentChat.id, systemPrompt)}
+            />
+            <GenerationParamsPicker
+              generationParams={currentChat.generationParams}
+              settings={settings}
+              provider={provider}
+              onGenerationParamsChange={(params) => onUpdateChatGenerationParams(currentChat.id, params)}
+            />
+            <ExtractSchemaPicker
+              extractSchema={extractSchema}
+              onExtractSchemaChange={(schema) => {
+                // Extract and compare mode are exclusive: a compare fan-out has no schema
+                setExtractSchema(schema);
+                if (schema) setCompareMode(false);
+              }}
+            />
             {settings.tokenOptimization?.showTokenCounter && (
               <TokenCounter 
                 currentChat={currentChat}
@@ -614,84 +1068,53 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             </div>
           </div>
         ) : (
-          messages.map((message) => (
-            <div
-              key={message.id}
-              className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-            >
-              <div
-                className={`max-w-[85%] px-4 py-3 rounded-lg animate-slide-up break-words relative group ${
-                  message.role === 'user'
-                    ? 'bg-blue-500 text-white'
-                    : 'bg-black/80 text-white backdrop-blur-sm border border-white/20'
-                }`}
-              >
-                {/* Copy button */}
-                <button
-                  onClick={() => copyToClipboard(message.content, message.id)}
-                  className={`absolute top-2 right-2 transition-opacity p-1 rounded bg-white/20 hover:bg-white/30 ${
-                    copiedMessageId === message.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
-                  }`}
-                  title="Copy message"
-                >
-                  {copiedMessageId === message.id ? (
-                    <span className="text-xs text-green-400 font-medium whitespace-nowrap">Copied!</span>
-                  ) : (
-                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                      <path d="M8 3a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z" />
-                      <path d="M6 3a2 2 0 00-2 2v6h2V5h8v6h2V5a2 2 0 00-2-2H6zM4 9a2 2 0 00-2 2v6a2 2 0 002 2h8a2 2 0 002-2v-6a2 2 0 00-2-2H4z" />
-                    </svg>
-                  )}
-                </button>
+          messageSections.map(section => (
+            section.checkpoint ? renderCheckpoint(section.checkpoint, section.messages)
+              : groupMessageRows(section.messages).map(renderMessageRow)
+          ))
+        )}
 
-                {/* Show image if present */}
-                {message.imagePath && (
-                  <div className="mb-3">
-                    <img
-                      src={`file://${message.imagePath}`}
-                      alt="Captured screen"
-                      className="max-w-full h-auto rounded border cursor-pointer hover:opacity-80 transition-opacity"
-                      style={{ maxHeight: '120px', maxWidth: '200px' }}
-                      title="Click to view full size"
-                    />
-                  </div>
-                )}
-                
+        {/* Streaming response - rendered as markdown while it arrives */}
+        {isLoading && (streamingContent || streamingReasoning) && (
+          <div className="flex justify-start">
+            <div className="max-w-[85%] px-4 py-3 rounded-lg break-words bg-black/80 text-white backdrop-blur-sm border border-white/20">
+              {streamingReasoning && renderReasoning(streamingReasoning, undefined, !streamingContent)}
+              {streamingContent && (
                 <div className="text-sm select-text">
-                  {formatMessage(message.content)}
+                  {formatMessage(streamingContent)}
                 </div>
+              )}
+              <div className="flex items-center space-x-1 mt-2">
+                <div className="w-1.5 h-1.5 bg-white/60 rounded-full animate-pulse"></div>
+                <span className="text-xs text-white/60">Streaming...</span>
+              </div>
+            </div>
+          </div>
+        )}
 
-                {/* Show provider and model for AI messages */}
-                {message.role === 'assistant' && message.provider && (
-                  <div className="mt-3 pt-2 border-t border-white/30">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-2">
-                        <span className={`text-xs font-medium ${getProviderColor(message.provider)}`}>
-                          {message.provider.toUpperCase()}
-                        </span>
-                        {message.model && (
-                          <>
-                            <span className="text-white/60 text-xs">•</span>
-                            <span className="text-xs text-white/80">
-                              {getModelDisplayName(message.provider, message.model)}
-                            </span>
-                          </>
-                        )}
-                      </div>
-                    </div>
+        {/* Compare mode columns - one per model while the replies arrive */}
+        {isLoading && compareColumns && (
+          <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${compareColumns.length}, minmax(0, 1fr))` }}>
+            {compareColumns.map((column, index) => (
+              <div key={index} className="min-w-0 px-4 py-3 rounded-lg break-words bg-black/80 text-white backdrop-blur-sm border border-white/20">
+                <div className="text-xs text-white/70 mb-2 truncate" title={column.label}>{column.label}</div>
+                {column.reasoning && renderReasoning(column.reasoning, undefined, !column.content)}
+                {column.content && (
+                  <div className="text-sm select-text">
+                    {formatMessage(column.content)}
                   </div>
                 )}
-
-                <div className="text-xs opacity-60 mt-2">
-                  {new Date(message.timestamp).toLocaleTimeString()}
+                <div className="flex items-center space-x-1 mt-2">
+                  <div className="w-1.5 h-1.5 bg-white/60 rounded-full animate-pulse"></div>
+                  <span className="text-xs text-white/60">{column.status || (column.content || column.reasoning ? 'Streaming...' : 'Waiting...')}</span>
                 </div>
               </div>
-            </div>
-          ))
+            ))}
+          </div>
         )}
 
         {/* Loading indicator */}
-        {isLoading && (
+        {isLoading && !streamingContent && !streamingReasoning && !compareColumns && (
           <div className="flex justify-start">
             <div className="bg-white/90 text-gray-800 backdrop-blur-sm px-4 py-2 rounded-lg">
               <div className="flex items-center space-x-2">
@@ -700,7 +1123,40 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                   <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
                   <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
                 </div>
-                <span className="text-sm text-gray-600">AI is thinking...</span>
+                <span className="text-sm text-gray-600">{requestStatus || 'AI is thinking...'}</span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Tool call waiting for approval */}
+        {pendingToolCall && (
+          <div className="flex justify-start">
+            <div className="max-w-[85%] px-4 py-3 rounded-lg bg-black/80 text-white backdrop-blur-sm border border-yellow-500/50 space-y-2">
+              <div className="text-sm">
+                The model wants to <span className="font-medium">{(getToolDefinition(pendingToolCall.call.name)?.label || pendingToolCall.call.name).toLowerCase()}</span>
+              </div>
+              <div className="text-xs font-mono text-white/70 break-all">{formatToolCall(pendingToolCall.call)}</div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => onRespondToToolCall(true)}
+                  className="px-3 py-1 text-xs bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors"
+                >
+                  Allow once
+                </button>
+                <button
+                  onClick={() => onRespondToToolCall(true, true)}
+                  className="px-3 py-1 text-xs bg-white/10 hover:bg-white/20 text-white rounded transition-colors"
+                  title="Run this tool without asking from now on"
+                >
+                  Always allow
+                </button>
+                <button
+                  onClick={() => onRespondToToolCall(false)}
+                  className="px-3 py-1 text-xs bg-red-500/20 hover:bg-red-500/30 text-red-300 rounded transition-colors"
+                >
+                  Deny
+                </button>
               </div>
             </div>
           </div>
@@ -771,6 +1227,52 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
         )}
 
+        {askImageHandling && (
+          <div className="mb-3 p-2 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-xs text-yellow-100 space-y-2">
+            <div>
+              {getModelDisplayName(provider, selectedModelId || '')} can't see images. How should this screenshot be sent?
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => sendInput('route')}
+                disabled={!visionTarget}
+                className="px-2 py-1 rounded bg-blue-500/30 hover:bg-blue-500/50 text-white disabled:opacity-40 transition-colors"
+                title="Answer this message with a vision-capable model instead"
+              >
+                {visionTarget ? `Send to ${getModelDisplayName(visionTarget.provider, visionTarget.model)}` : IMAGE_HANDLING_LABELS.route}
+              </button>
+              <button
+                type="button"
+                onClick={() => sendInput('describe')}
+                disabled={!visionTarget}
+                className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-white disabled:opacity-40 transition-colors"
+                title="A vision-capable model transcribes and describes the image, and the selected model answers from that text"
+              >
+                {IMAGE_HANDLING_LABELS.describe}
+              </button>
+              <button
+                type="button"
+                onClick={() => sendInput('drop')}
+                disabled={!inputText.trim()}
+                className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-white disabled:opacity-40 transition-colors"
+              >
+                {IMAGE_HANDLING_LABELS.drop}
+              </button>
+              <button
+                type="button"
+                onClick={() => setAskImageHandling(false)}
+                className="px-2 py-1 rounded text-white/60 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+            {!visionTarget && (
+              <div className="text-yellow-300/80">Add an API key for a provider with vision models to route or describe images.</div>
+            )}
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="flex space-x-2">
           <div className="flex-1">
             <textarea
@@ -778,7 +1280,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               value={inputText}
               onChange={(e) => setInputText(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder={currentImage ? "Ask about your screenshot..." : "Type a message..."}
+              placeholder={extractSchema
+                ? `Extract "${extractSchema.name}" from your screenshot...`
+                : currentImage ? "Ask about your screenshot..." : "Type a message..."}
               className="chat-input resize-y"
               disabled={isLoading}
               style={{ minHeight: '50px', maxHeight: '200px' }}
@@ -809,18 +1313,48 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 <path d="M6 3a2 2 0 00-2 2v11a2 2 0 002 2h8a2 2 0 002-2V5a2 2 0 00-2-2 3 3 0 01-3 3H9a3 3 0 01-3-3z" />
               </svg>
             </button>
+
+            <button
+              type="button"
+              onClick={() => {
+                setCompareMode(!compareMode);
+                if (!compareMode) setExtractSchema(null);
+              }}
+              disabled={!canCompare}
+              className={`glass-button p-2 disabled:opacity-40 ${compareMode && canCompare ? 'text-purple-300 bg-purple-500/20' : ''}`}
+              title={canCompare
+                ? (compareMode ? `Compare mode on: sending to ${settings.compareTargets!.length} models` : 'Compare mode: send to several models side by side')
+                : 'Add at least two compare models in Settings → API Keys to use compare mode'}
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path d="M5 3a2 2 0 00-2 2v10a2 2 0 002 2h3V3H5zM12 3v14h3a2 2 0 002-2V5a2 2 0 00-2-2h-3z" />
+              </svg>
+            </button>
           </div>
           
-          <button
-            type="submit"
-            disabled={(!inputText.trim() && !currentImage) || isLoading || !currentChat}
-            className="glass-button disabled:opacity-50 disabled:cursor-not-allowed self-end"
-            title={currentImage && !inputText.trim() ? "Send screenshot" : "Send message"}
-          >
-            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
-              <path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" />
-            </svg>
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={onCancelMessage}
+              className="glass-button self-end text-red-300 hover:text-red-200"
+              title="Stop generating"
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" />
+              </svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={(!inputText.trim() && !currentImage) || !currentChat}
+              className="glass-button disabled:opacity-50 disabled:cursor-not-allowed self-end"
+              title={currentImage && !inputText.trim() ? "Send screenshot" : "Send message"}
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                <path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" />
+              </svg>
+            </button>
+          )}
         </form>
 
         {/* Hidden file input */}
@@ -845,6 +1379,41 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           onClose={handleCloseImageEditor}
         />
       )}
+
+      {/* Reply context menu */}
+      {messageMenu && (
+        <div
+          className="fixed z-50 min-w-[160px] py-1 rounded-lg bg-gray-900/95 border border-white/20 shadow-lg text-xs text-white"
+          style={{ left: messageMenu.x, top: messageMenu.y }}
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <button
+            onClick={() => {
+              copyToClipboard(messageMenu.message.content, messageMenu.message.id);
+              setMessageMenu(null);
+            }}
+            className="block w-full text-left px-3 py-1.5 hover:bg-white/10"
+          >
+            Copy text
+          </button>
+          <button
+            onClick={() => {
+              setAuditRequestId(messageMenu.message.requestId!);
+              setMessageMenu(null);
+            }}
+            disabled={!messageMenu.message.requestId}
+            className="block w-full text-left px-3 py-1.5 hover:bg-white/10 disabled:text-white/40 disabled:hover:bg-transparent"
+            title={messageMenu.message.requestId ? 'Exactly what was sent to the model for this reply' : 'Sent before request logging was added'}
+          >
+            View request log
+          </button>
+        </div>
+      )}
+
+      {/* Request audit log */}
+      {auditRequestId && (
+        <AuditLogViewer requestId={auditRequestId} onClose={() => setAuditRequestId(null)} />
+      )}
     </div>
   );
 };
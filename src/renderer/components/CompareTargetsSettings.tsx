@@ -0,0 +1,26 @@
+import React from 'react';
+import { AppSettings } from '@/shared/types';
+import ModelTargetList from './ModelTargetList';
+
+interface CompareTargetsSettingsProps {
+  settings: AppSettings;
+  onSettingsChange: (settings: Partial<AppSettings>) => void;
+}
+
+const CompareTargetsSettings: React.FC<CompareTargetsSettingsProps> = ({
+  settings,
+  onSettingsChange,
+}) => {
+  return (
+    <ModelTargetList
+      title="Compare Models"
+      description="With compare mode on, each message is sent to all of these models at once and the replies are shown side by side."
+      addLabel="Add Model"
+      emptyLabel="No compare models configured"
+      targets={settings.compareTargets || []}
+      onChange={(compareTargets) => onSettingsChange({ compareTargets })}
+    />
+  );
+};
+
+export default CompareTargetsSettings;
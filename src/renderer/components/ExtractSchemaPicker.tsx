@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ExtractionSchema, SendMessageOptions } from '@/shared/types';
+import { BUILTIN_EXTRACTION_SCHEMAS, parseJsonSchema } from '@/shared/extraction';
+
+type ExtractSchemaChoice = NonNullable<SendMessageOptions['extractSchema']>;
+
+interface ExtractSchemaPickerProps {
+  extractSchema: ExtractSchemaChoice | null; // Null when extract mode is off
+  onExtractSchemaChange: (extractSchema: ExtractSchemaChoice | null) => void;
+}
+
+const ExtractSchemaPicker: React.FC<ExtractSchemaPickerProps> = ({
+  extractSchema,
+  onExtractSchemaChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [savedSchemas, setSavedSchemas] = useState<ExtractionSchema[]>([]);
+  const [draft, setDraft] = useState('');
+  const [draftName, setDraftName] = useState('');
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadSchemas();
+      setDraft(extractSchema ? JSON.stringify(extractSchema.schema, null, 2) : '');
+      setDraftName(extractSchema?.name || '');
+      setDraftError(null);
+    }
+  }, [isOpen, extractSchema]);
+
+  // Close when clicking outside the picker
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const loadSchemas = async () => {
+    try {
+      setSavedSchemas(await window.electronAPI.getExtractionSchemas());
+    } catch (error) {
+      console.error('Failed to load extraction schemas:', error);
+    }
+  };
+
+  const handleApply = (choice: ExtractSchemaChoice | null) => {
+    onExtractSchemaChange(choice);
+    setIsOpen(false);
+  };
+
+  // Parse the editor contents, showing the problem instead of applying a broken schema
+  const parseDraft = (): ExtractSchemaChoice | null => {
+    try {
+      const schema = parseJsonSchema(draft);
+      setDraftError(null);
+      return { name: draftName.trim() || 'Custom schema', schema };
+    } catch (error: any) {
+      setDraftError(error.message);
+      return null;
+    }
+  };
+
+  const handleApplyDraft = () => {
+    const choice = parseDraft();
+    if (choice) handleApply(choice);
+  };
+
+  const handleSaveSchema = async () => {
+    if (!draftName.trim()) return;
+    const choice = parseDraft();
+    if (!choice) return;
+
+    const existing = savedSchemas.find(s => s.name.toLowerCase() === choice.name.toLowerCase());
+    await window.electronAPI.saveExtractionSchema({ id: existing?.id, name: choice.name, schema: choice.schema });
+    loadSchemas();
+  };
+
+  const handleDeleteSchema = async (schema: ExtractionSchema) => {
+    if (!confirm(`Delete the "${schema.name}" schema?`)) return;
+    await window.electronAPI.deleteExtractionSchema(schema.id);
+    loadSchemas();
+  };
+
+  const choices: ExtractSchemaChoice[] = [...BUILTIN_EXTRACTION_SCHEMAS, ...savedSchemas];
+
+  return (
+    <div className="relative flex-shrink-0" ref={pickerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`text-xs px-2 py-1 rounded hover:bg-white/20 transition-colors flex items-center space-x-1 ${
+          extractSchema ? 'text-emerald-300' : 'text-white/60 hover:text-white'
+        }`}
+        title={extractSchema ? `Extract mode on: replies are JSON matching "${extractSchema.name}"` : 'Extract structured JSON from screenshots'}
+      >
+        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d="M5 4a3 3 0 00-3 3v6a3 3 0 003 3h10a3 3 0 003-3V7a3 3 0 00-3-3H5zm-1 9v-1h5v2H5a1 1 0 01-1-1zm7 1h4a1 1 0 001-1v-1h-5v2zm0-4h5V8h-5v2zM9 8H4v2h5V8z" clipRule="evenodd" />
+        </svg>
+        <span className="max-w-[8rem] truncate">{extractSchema ? `Extract: ${extractSchema.name}` : 'Extract'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 w-80 z-50 glass-panel bg-black/90 border border-white/20 rounded-lg p-3 space-y-3">
+          <div>
+            <div className="text-xs text-white/60 mb-1">Schemas</div>
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              <button
+                onClick={() => handleApply(null)}
+                className={`w-full text-left text-xs px-2 py-1 rounded hover:bg-white/10 ${!extractSchema ? 'text-white' : 'text-white/70'}`}
+              >
+                Off (normal replies)
+              </button>
+              {choices.map(choice => {
+                const saved = 'id' in choice ? (choice as ExtractionSchema) : undefined;
+                return (
+                  <div key={saved ? `saved-${saved.id}` : `builtin-${choice.name}`} className="flex items-center group">
+                    <button
+                      onClick={() => handleApply({ name: choice.name, schema: choice.schema })}
+                      className={`flex-1 text-left text-xs px-2 py-1 rounded hover:bg-white/10 truncate ${
+                        extractSchema?.name === choice.name ? 'text-emerald-300' : 'text-white/70'
+                      }`}
+                    >
+                      {choice.name}{!saved && <span className="text-white/40"> (built-in)</span>}
+                    </button>
+                    {saved && (
+                      <button
+                        onClick={() => handleDeleteSchema(saved)}
+                        className="text-red-400/80 hover:text-red-400 text-xs px-1 opacity-0 group-hover:opacity-100"
+                        title="Delete schema"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="pt-2 border-t border-white/10">
+            <div className="text-xs text-white/60 mb-1">JSON schema</div>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={'{ "type": "object", "properties": { "invoiceNumber": { "type": "string" } } }'}
+              rows={6}
+              className="glass-input w-full text-xs font-mono resize-none"
+            />
+            {draftError && (
+              <div className="text-xs text-red-300 mt-1">⚠️ {draftError}</div>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              placeholder="Schema name"
+              className="glass-input flex-1 text-xs"
+            />
+            <button
+              onClick={handleSaveSchema}
+              disabled={!draftName.trim() || !draft.trim()}
+              className="text-xs px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white/70 hover:text-white disabled:opacity-40 transition-colors"
+              title="Save the schema above for reuse (overwrites a schema with the same name)"
+            >
+              Save
+            </button>
+            <button
+              onClick={handleApplyDraft}
+              disabled={!draft.trim()}
+              className="text-xs px-3 py-1 rounded-lg bg-blue-500/30 hover:bg-blue-500/50 text-white disabled:opacity-40 transition-colors"
+            >
+              Use
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExtractSchemaPicker;
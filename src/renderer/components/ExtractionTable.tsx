@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { ExtractionResult } from '@/shared/types';
+import { toCsv, toExtractionTable } from '@/shared/extraction';
+
+interface ExtractionTableProps {
+  extraction: ExtractionResult;
+}
+
+const ExtractionTable: React.FC<ExtractionTableProps> = ({ extraction }) => {
+  const [copied, setCopied] = useState<'csv' | 'json' | null>(null);
+  const table = toExtractionTable(extraction.data);
+
+  const copy = async (format: 'csv' | 'json') => {
+    const text = format === 'csv' && table ? toCsv(table) : JSON.stringify(extraction.data, null, 2);
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(format);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy extraction:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-emerald-300">🧾 {extraction.schemaName}</span>
+        {extraction.data !== null && (
+          <div className="flex space-x-1">
+            {table && (
+              <button
+                onClick={() => copy('csv')}
+                className="text-xs px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white/70 hover:text-white transition-colors"
+              >
+                {copied === 'csv' ? 'Copied!' : 'Copy CSV'}
+              </button>
+            )}
+            <button
+              onClick={() => copy('json')}
+              className="text-xs px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white/70 hover:text-white transition-colors"
+            >
+              {copied === 'json' ? 'Copied!' : 'Copy JSON'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {table && (
+        <div className="overflow-x-auto max-h-64 overflow-y-auto rounded border border-white/20">
+          <table className="w-full text-xs select-text">
+            <thead className="bg-white/10 sticky top-0">
+              <tr>
+                {table.columns.map((column, index) => (
+                  <th key={index} className="text-left font-medium px-2 py-1 whitespace-nowrap">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-white/10">
+                  {row.map((cell, cellIndex) => (
+                    <td key={cellIndex} className="px-2 py-1 align-top">{cell}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* The data is still shown when it doesn't match, so nothing the model returned is lost */}
+      {extraction.errors.length > 0 && (
+        <details className="text-xs text-yellow-200">
+          <summary className="cursor-pointer select-none">
+            ⚠️ {extraction.errors.length === 1 ? '1 schema mismatch' : `${extraction.errors.length} schema mismatches`}
+          </summary>
+          <ul className="mt-1 space-y-0.5 font-mono">
+            {extraction.errors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default ExtractionTable;
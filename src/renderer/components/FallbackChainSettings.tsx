@@ -0,0 +1,27 @@
+import React from 'react';
+import { AppSettings } from '@/shared/types';
+import ModelTargetList from './ModelTargetList';
+
+interface FallbackChainSettingsProps {
+  settings: AppSettings;
+  onSettingsChange: (settings: Partial<AppSettings>) => void;
+}
+
+const FallbackChainSettings: React.FC<FallbackChainSettingsProps> = ({
+  settings,
+  onSettingsChange,
+}) => {
+  return (
+    <ModelTargetList
+      title="Fallback Providers"
+      description="Tried in order when the selected provider is still rate limited, overloaded or unreachable after retries."
+      addLabel="Add Fallback"
+      emptyLabel="No fallbacks configured"
+      targets={settings.fallbackChain || []}
+      onChange={(fallbackChain) => onSettingsChange({ fallbackChain })}
+      suggestAfter={[settings.selectedProvider]}
+    />
+  );
+};
+
+export default FallbackChainSettings;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { AppSettings, GenerationParams } from '@/shared/types';
+import { DEFAULT_GENERATION_PARAMS } from '@/shared/generation-params';
+import GenerationParamsFields from './GenerationParamsFields';
+
+interface GenerationDefaultsSettingsProps {
+  settings: AppSettings;
+  onSettingsChange: (settings: Partial<AppSettings>) => void;
+}
+
+const GenerationDefaultsSettings: React.FC<GenerationDefaultsSettingsProps> = ({
+  settings,
+  onSettingsChange,
+}) => {
+  const handleChange = (generationDefaults: GenerationParams) => {
+    onSettingsChange({ generationDefaults });
+  };
+
+  return (
+    <div className="pt-4 border-t border-white/10">
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-white text-sm font-medium" style={{textShadow: '0 1px 2px rgba(0, 0, 0, 0.8)'}}>
+          Generation Defaults
+        </label>
+        <button
+          onClick={() => handleChange({})}
+          className="text-xs text-white/70 hover:text-white transition-colors px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20"
+        >
+          Reset
+        </button>
+      </div>
+      <p className="text-xs text-white/60 mb-3">
+        Used by every chat unless overridden from the chat header. Values a model doesn't support are adjusted or skipped when sending.
+      </p>
+
+      <GenerationParamsFields
+        value={settings.generationDefaults || {}}
+        inherited={DEFAULT_GENERATION_PARAMS}
+        onChange={handleChange}
+        maxTemperature={2}
+      />
+    </div>
+  );
+};
+
+export default GenerationDefaultsSettings;
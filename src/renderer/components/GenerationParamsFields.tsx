@@ -0,0 +1,117 @@
+import React from 'react';
+import { GenerationParams, ReasoningEffort } from '@/shared/types';
+import { ModelInfo } from '@/shared/models';
+import { MIN_THINKING_BUDGET, REASONING_EFFORTS } from '@/shared/generation-params';
+
+interface GenerationParamsFieldsProps {
+  value: GenerationParams;
+  inherited: GenerationParams; // Shown as placeholders for fields left empty
+  onChange: (value: GenerationParams) => void;
+  model?: ModelInfo; // Controls which fields apply; all are shown when unknown
+  maxTemperature: number;
+}
+
+const parseNumber = (raw: string): number | undefined => {
+  if (raw.trim() === '') return undefined;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const GenerationParamsFields: React.FC<GenerationParamsFieldsProps> = ({
+  value,
+  inherited,
+  onChange,
+  model,
+  maxTemperature,
+}) => {
+  const capabilities = model?.capabilities;
+  const showSampling = !capabilities?.fixedSampling;
+  const showEffort = !model || capabilities?.reasoning === 'effort';
+  const showThinking = !model || capabilities?.reasoning === 'thinking';
+
+  const update = (changes: Partial<GenerationParams>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  const placeholder = (inheritedValue: number | string | undefined) =>
+    inheritedValue !== undefined ? `Default (${inheritedValue})` : 'Provider default';
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {showSampling && (
+        <>
+          <label className="text-xs text-white/70">
+            Temperature
+            <input
+              type="number"
+              min={0}
+              max={maxTemperature}
+              step={0.1}
+              value={value.temperature ?? ''}
+              onChange={(e) => update({ temperature: parseNumber(e.target.value) })}
+              placeholder={placeholder(inherited.temperature)}
+              className="glass-input w-full text-xs mt-1"
+            />
+          </label>
+          <label className="text-xs text-white/70">
+            Top P
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={value.topP ?? ''}
+              onChange={(e) => update({ topP: parseNumber(e.target.value) })}
+              placeholder={placeholder(inherited.topP)}
+              className="glass-input w-full text-xs mt-1"
+            />
+          </label>
+        </>
+      )}
+      <label className="text-xs text-white/70">
+        Max output tokens
+        <input
+          type="number"
+          min={1}
+          max={capabilities?.maxTokens}
+          step={100}
+          value={value.maxTokens ?? ''}
+          onChange={(e) => update({ maxTokens: parseNumber(e.target.value) })}
+          placeholder={placeholder(inherited.maxTokens)}
+          className="glass-input w-full text-xs mt-1"
+        />
+      </label>
+      {showEffort && (
+        <label className="text-xs text-white/70">
+          Reasoning effort
+          <select
+            value={value.reasoningEffort || ''}
+            onChange={(e) => update({ reasoningEffort: (e.target.value || undefined) as ReasoningEffort | undefined })}
+            className="glass-input w-full text-xs mt-1"
+          >
+            <option value="">{placeholder(inherited.reasoningEffort)}</option>
+            {REASONING_EFFORTS.map(effort => (
+              <option key={effort} value={effort}>{effort}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      {showThinking && (
+        <label className="text-xs text-white/70">
+          Thinking budget
+          <input
+            type="number"
+            min={0}
+            step={1024}
+            value={value.thinkingBudget ?? ''}
+            onChange={(e) => update({ thinkingBudget: parseNumber(e.target.value) })}
+            placeholder={inherited.thinkingBudget ? placeholder(inherited.thinkingBudget) : `Off (min ${MIN_THINKING_BUDGET})`}
+            className="glass-input w-full text-xs mt-1"
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default GenerationParamsFields;
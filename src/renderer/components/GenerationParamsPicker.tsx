@@ -0,0 +1,128 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AppSettings, GenerationParams } from '@/shared/types';
+import { getModelInfo, getProviderDefinition } from '@/shared/providers';
+import {
+  DEFAULT_GENERATION_PARAMS,
+  formatGenerationParams,
+  mergeGenerationParams,
+  validateGenerationParams
+} from '@/shared/generation-params';
+import GenerationParamsFields from './GenerationParamsFields';
+
+interface GenerationParamsPickerProps {
+  generationParams?: GenerationParams; // The chat's overrides
+  settings: AppSettings;
+  provider: string;
+  onGenerationParamsChange: (params: GenerationParams | null) => void;
+}
+
+const GenerationParamsPicker: React.FC<GenerationParamsPickerProps> = ({
+  generationParams,
+  settings,
+  provider,
+  onGenerationParamsChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<GenerationParams>(generationParams || {});
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(generationParams || {});
+    }
+  }, [isOpen, generationParams]);
+
+  // Close when clicking outside the picker
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const definition = getProviderDefinition(provider);
+  const modelId = settings.selectedModels?.[provider] || definition?.defaultModel;
+  const model = modelId ? getModelInfo(provider, modelId) : undefined;
+  const maxTemperature = definition?.capabilities.maxTemperature ?? 2;
+
+  const inherited = mergeGenerationParams(DEFAULT_GENERATION_PARAMS, settings.generationDefaults);
+  const effective = validateGenerationParams(mergeGenerationParams(inherited, generationParams), model, maxTemperature);
+  // Only warn about values the user chose, not the built-in defaults
+  const { adjustments } = validateGenerationParams(mergeGenerationParams(settings.generationDefaults, draft), model, maxTemperature);
+  const hasOverrides = !!generationParams && Object.values(generationParams).some(value => value !== undefined);
+
+  const handleApply = () => {
+    const hasDraftOverrides = Object.values(draft).some(value => value !== undefined);
+    onGenerationParamsChange(hasDraftOverrides ? draft : null);
+    setIsOpen(false);
+  };
+
+  const handleReset = () => {
+    onGenerationParamsChange(null);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative flex-shrink-0" ref={pickerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`text-xs px-2 py-1 rounded hover:bg-white/20 transition-colors flex items-center space-x-1 ${
+          hasOverrides ? 'text-purple-300' : 'text-white/60 hover:text-white'
+        }`}
+        title={`Generation parameters for this chat: ${formatGenerationParams(effective.params) || 'provider defaults'}`}
+      >
+        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+          <path d="M5 4a1 1 0 00-2 0v7.268a2 2 0 000 3.464V16a1 1 0 102 0v-1.268a2 2 0 000-3.464V4zM11 4a1 1 0 10-2 0v1.268a2 2 0 000 3.464V16a1 1 0 102 0V8.732a2 2 0 000-3.464V4zM16 3a1 1 0 011 1v7.268a2 2 0 010 3.464V16a1 1 0 11-2 0v-1.268a2 2 0 010-3.464V4a1 1 0 011-1z" />
+        </svg>
+        <span>{hasOverrides ? 'Custom params' : 'Params'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 w-80 z-50 glass-panel bg-black/90 border border-white/20 rounded-lg p-3 space-y-3">
+          <div className="text-xs text-white/60">
+            Overrides for this chat. Empty fields use the defaults from Settings.
+          </div>
+
+          <GenerationParamsFields
+            value={draft}
+            inherited={inherited}
+            onChange={setDraft}
+            model={model}
+            maxTemperature={maxTemperature}
+          />
+
+          {adjustments.length > 0 && (
+            <div className="text-xs text-yellow-300/90 space-y-0.5">
+              {adjustments.map(note => (
+                <div key={note}>⚠️ {note}</div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-between items-center pt-2 border-t border-white/10">
+            <button
+              onClick={handleReset}
+              disabled={!hasOverrides}
+              className="text-xs px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white/70 hover:text-white disabled:opacity-40 transition-colors"
+            >
+              Use defaults
+            </button>
+            <button
+              onClick={handleApply}
+              className="text-xs px-3 py-1 rounded-lg bg-blue-500/30 hover:bg-blue-500/50 text-white transition-colors"
+            >
+              Apply to chat
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationParamsPicker;
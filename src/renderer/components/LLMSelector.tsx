@@ -1,13 +1,10 @@
 import React from 'react';
-import { AppSettings } from '@/shared/types';
+import { AppSettings, ApiKeyStatus } from '@/shared/types';
 import { ModelSelector } from './ModelSelector';
 import { DEFAULT_MODELS } from '@/shared/models';
+import { getProviderDefinitions } from '@/shared/providers';
 
-interface ApiStatus {
-  openai: 'ready' | 'invalid' | 'error' | 'not-configured';
-  claude: 'ready' | 'invalid' | 'error' | 'not-configured';
-  deepseek: 'ready' | 'invalid' | 'error' | 'not-configured';
-}
+type ApiStatus = Record<string, ApiKeyStatus>;
 
 interface LLMSelectorProps {
   selectedProvider: string;
@@ -31,19 +28,20 @@ const LLMSelector: React.FC<LLMSelectorProps> = ({
   onRefreshStatus,
 }) => {
   // Remove local API status state - use props instead
-  const providers = [
-    { id: 'openai', name: 'OpenAI', color: 'text-green-400' },
-    { id: 'claude', name: 'Anthropic', color: 'text-orange-400' },
-    { id: 'deepseek', name: 'DeepSeek', color: 'text-purple-400' },
-  ];
+  const providers = getProviderDefinitions().map(provider => ({
+    id: provider.id,
+    name: provider.vendor,
+    color: provider.color,
+    keyOptional: !!provider.apiKeyOptional
+  }));
 
   const getProviderStatus = (providerId: string) => {
-    const status = apiStatus[providerId as keyof ApiStatus];
+    const status = apiStatus[providerId];
     return status === 'ready';
   };
 
   const getStatusColor = (providerId: string): string => {
-    const status = apiStatus[providerId as keyof ApiStatus];
+    const status = apiStatus[providerId];
     switch (status) {
       case 'ready':
         return 'bg-green-400';
@@ -51,6 +49,8 @@ const LLMSelector: React.FC<LLMSelectorProps> = ({
         return 'bg-red-400';
       case 'error':
         return 'bg-yellow-400';
+      case 'network-error':
+        return 'bg-orange-400';
       case 'not-configured':
         return 'bg-gray-400';
       default:
@@ -59,7 +59,7 @@ const LLMSelector: React.FC<LLMSelectorProps> = ({
   };
 
   const getStatusText = (providerId: string): string => {
-    const status = apiStatus[providerId as keyof ApiStatus];
+    const status = apiStatus[providerId];
     switch (status) {
       case 'ready':
         return 'Ready';
@@ -67,15 +67,17 @@ const LLMSelector: React.FC<LLMSelectorProps> = ({
         return 'Invalid key';
       case 'error':
         return 'Server error';
+      case 'network-error':
+        return 'Proxy/TLS error';
       case 'not-configured':
-        return 'API key required';
+        return providers.find(p => p.id === providerId)?.keyOptional ? 'Endpoint required' : 'API key required';
       default:
         return 'Unknown';
     }
   };
 
   const getOverallStatusText = (): string => {
-    const status = apiStatus[selectedProvider as keyof ApiStatus];
+    const status = apiStatus[selectedProvider];
     switch (status) {
       case 'ready':
         return 'Connected';
@@ -83,6 +85,8 @@ const LLMSelector: React.FC<LLMSelectorProps> = ({
         return 'Invalid API Key';
       case 'error':
         return 'Server Issue';
+      case 'network-error':
+        return 'Network Issue';
       case 'not-configured':
         return 'No API Key';
       default:
@@ -175,8 +179,8 @@ const LLMSelector: React.FC<LLMSelectorProps> = ({
               
               {isSelected && isConfigured && (
                 <ModelSelector
-                  provider={provider.id as 'openai' | 'claude' | 'deepseek'}
-                  selectedModel={settings.selectedModels?.[provider.id] || DEFAULT_MODELS[provider.id as keyof typeof DEFAULT_MODELS]}
+                  provider={provider.id}
+                  selectedModel={settings.selectedModels?.[provider.id] || DEFAULT_MODELS[provider.id]}
                   onModelChange={(modelId) => handleModelChange(provider.id, modelId)}
                   disabled={!isConfigured}
                 />
@@ -1,28 +1,104 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { AVAILABLE_MODELS, DEFAULT_MODELS, ModelInfo } from '@/shared/models';
+import { ModelCatalog } from '@/shared/model-catalog';
 
 interface ModelSelectorProps {
-  provider: 'openai' | 'claude' | 'deepseek';
+  provider: string;
   selectedModel: string;
   onModelChange: (modelId: string) => void;
   disabled?: boolean;
 }
 
+const formatRefreshedAt = (dateString: string) => {
+  const diff = Date.now() - new Date(dateString).getTime();
+  const hours = Math.floor(diff / (1000 * 60 * 60));
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) {
+    return `${days}d ago`;
+  } else if (hours > 0) {
+    return `${hours}h ago`;
+  } else {
+    return 'just now';
+  }
+};
+
 export const ModelSelector: React.FC<ModelSelectorProps> = ({
   provider,
   selectedModel,
   onModelChange,
   disabled = false
 }) => {
-  const models = AVAILABLE_MODELS[provider] || [];
+  // The shipped list is shown until the provider's own list arrives
+  const [catalog, setCatalog] = useState<ModelCatalog | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsLoading(true);
+    window.electronAPI.getModelCatalog(provider, refreshCount > 0)
+      .then(result => {
+        if (isCurrent) setCatalog(result);
+      })
+      .catch(error => {
+        console.error(`Failed to load models for ${provider}:`, error);
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [provider, refreshCount]);
+
+  const handleRefresh = (e: React.MouseEvent) => {
+    // The selector sits inside the provider button
+    e.stopPropagation();
+    if (!isLoading) setRefreshCount(count => count + 1);
+  };
+
+  const models = catalog?.providerId === provider ? catalog.models : (AVAILABLE_MODELS[provider] || []);
   const currentModel = models.find(m => m.id === selectedModel) || models[0];
 
-  if (!models.length) return null;
+  const catalogStatus = (
+    <div className="model-catalog-status">
+      <span>
+        {isLoading
+          ? 'Checking available models...'
+          : catalog?.error
+            ? `Couldn't list models: ${catalog.error}`
+            : catalog?.refreshedAt
+              ? `Models listed ${formatRefreshedAt(catalog.refreshedAt)}`
+              : 'Built-in model list'}
+      </span>
+      <span
+        role="button"
+        onClick={handleRefresh}
+        className={`model-catalog-refresh ${isLoading ? 'opacity-40' : ''}`}
+        title="Ask the provider for its current models"
+      >
+        Refresh
+      </span>
+    </div>
+  );
+
+  if (!models.length) {
+    return (
+      <div className="model-selector">
+        <div className="model-description">
+          {isLoading ? 'Looking for models...' : 'No models found at the configured endpoint'}
+        </div>
+        {catalogStatus}
+      </div>
+    );
+  }
 
   return (
     <div className="model-selector">
       <select 
-        value={selectedModel || DEFAULT_MODELS[provider]}
+        value={currentModel?.id || DEFAULT_MODELS[provider]}
         onChange={(e) => onModelChange(e.target.value)}
         disabled={disabled}
         className="model-dropdown"
@@ -52,6 +128,8 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
           </div>
         </div>
       )}
+
+      {catalogStatus}
     </div>
   );
 };
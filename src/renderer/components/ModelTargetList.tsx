@@ -0,0 +1,139 @@
+import React from 'react';
+import { FallbackTarget } from '@/shared/types';
+import { getProviderDefinition, getProviderDefinitions } from '@/shared/providers';
+
+interface ModelTargetListProps {
+  title: string;
+  description: string;
+  addLabel: string;
+  emptyLabel: string;
+  targets: FallbackTarget[];
+  onChange: (targets: FallbackTarget[]) => void;
+  suggestAfter?: string[]; // Provider IDs to skip when suggesting the next provider to add
+}
+
+// Ordered list of provider/model pairs, used for the fallback chain and compare mode
+const ModelTargetList: React.FC<ModelTargetListProps> = ({
+  title,
+  description,
+  addLabel,
+  emptyLabel,
+  targets,
+  onChange,
+  suggestAfter = [],
+}) => {
+  const providers = getProviderDefinitions();
+
+  const handleAdd = () => {
+    // Suggest the first provider that isn't already in use
+    const used = new Set([...suggestAfter, ...targets.map(target => target.provider)]);
+    const next = providers.find(provider => !used.has(provider.id)) || providers[0];
+    onChange([...targets, { provider: next.id }]);
+  };
+
+  const handleChange = (index: number, target: FallbackTarget) => {
+    onChange(targets.map((existing, i) => (i === index ? target : existing)));
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= targets.length) return;
+
+    const reordered = [...targets];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(targets.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="pt-4 border-t border-white/10">
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-white text-sm font-medium" style={{textShadow: '0 1px 2px rgba(0, 0, 0, 0.8)'}}>
+          {title}
+        </label>
+        <button
+          onClick={handleAdd}
+          className="text-xs text-white/70 hover:text-white transition-colors px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20"
+        >
+          {addLabel}
+        </button>
+      </div>
+      <p className="text-xs text-white/60 mb-3">
+        {description}
+      </p>
+
+      {targets.length === 0 && (
+        <p className="text-xs text-white/40 italic">{emptyLabel}</p>
+      )}
+
+      <div className="space-y-2">
+        {targets.map((target, index) => {
+          const definition = getProviderDefinition(target.provider);
+
+          return (
+            <div key={index} className="flex items-center space-x-2">
+              <span className="text-xs text-white/60 w-4">{index + 1}.</span>
+              <select
+                value={target.provider}
+                onChange={(e) => handleChange(index, { provider: e.target.value })}
+                className="glass-input flex-1 text-sm"
+              >
+                {providers.map(provider => (
+                  <option key={provider.id} value={provider.id}>{provider.name}</option>
+                ))}
+              </select>
+              {definition?.discoverModels ? (
+                <input
+                  type="text"
+                  value={target.model || ''}
+                  onChange={(e) => handleChange(index, { ...target, model: e.target.value || undefined })}
+                  placeholder="Model (optional)"
+                  className="glass-input flex-1 text-sm"
+                />
+              ) : (
+                <select
+                  value={target.model || ''}
+                  onChange={(e) => handleChange(index, { ...target, model: e.target.value || undefined })}
+                  className="glass-input flex-1 text-sm"
+                >
+                  <option value="">Selected model</option>
+                  {definition?.models.map(model => (
+                    <option key={model.id} value={model.id}>{model.name}</option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() => handleMove(index, -1)}
+                disabled={index === 0}
+                className="text-white/60 hover:text-white disabled:opacity-30 p-1"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => handleMove(index, 1)}
+                disabled={index === targets.length - 1}
+                className="text-white/60 hover:text-white disabled:opacity-30 p-1"
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => handleRemove(index)}
+                className="text-red-400/80 hover:text-red-400 p-1"
+                title="Remove"
+              >
+                ✕
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ModelTargetList;
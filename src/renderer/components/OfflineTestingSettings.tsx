@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { AppSettings, FixtureMode, MockProviderSettings } from '@/shared/types';
+
+interface OfflineTestingSettingsProps {
+  settings: AppSettings;
+  onSettingsChange: (settings: Partial<AppSettings>) => void;
+}
+
+const FIXTURE_MODE_LABELS: Record<FixtureMode, string> = {
+  off: 'Off',
+  record: 'Record replies to fixtures',
+  replay: 'Replay from fixtures (offline)'
+};
+
+// Scripted replies are edited as one text block, separated by lines holding only ---
+const REPLY_SEPARATOR = /\n-{3,}\n/;
+
+const parseNumber = (raw: string): number | undefined => {
+  if (raw.trim() === '') return undefined;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const OfflineTestingSettings: React.FC<OfflineTestingSettingsProps> = ({
+  settings,
+  onSettingsChange,
+}) => {
+  const [fixtureStatus, setFixtureStatus] = useState<{ directory: string; count: number } | null>(null);
+  const mock = settings.mockProvider || {};
+  const [scriptDraft, setScriptDraft] = useState((mock.scriptedReplies || []).join('\n---\n'));
+
+  useEffect(() => {
+    loadFixtureStatus();
+  }, [settings.fixtureMode]);
+
+  const loadFixtureStatus = async () => {
+    try {
+      setFixtureStatus(await window.electronAPI.getFixtureStatus());
+    } catch (error) {
+      console.error('Failed to load fixture status:', error);
+    }
+  };
+
+  const updateMock = (changes: Partial<MockProviderSettings>) => {
+    onSettingsChange({ mockProvider: { ...mock, ...changes } });
+  };
+
+  const saveScript = () => {
+    const replies = scriptDraft.split(REPLY_SEPARATOR).map(reply => reply.trim()).filter(Boolean);
+    updateMock({ scriptedReplies: replies.length > 0 ? replies : undefined });
+  };
+
+  return (
+    <div className="pt-4 border-t border-white/10">
+      <label className="block text-white text-sm font-medium mb-2" style={{textShadow: '0 1px 2px rgba(0, 0, 0, 0.8)'}}>
+        Offline Testing
+      </label>
+      <p className="text-xs text-white/60 mb-3">
+        Select the Mock provider to get deterministic replies without a key or network. Fixtures record real replies so the same requests can be answered offline later.
+      </p>
+
+      <div className="space-y-3">
+        <label className="block text-xs text-white/70">
+          Fixtures
+          <select
+            value={settings.fixtureMode || 'off'}
+            onChange={(e) => onSettingsChange({ fixtureMode: e.target.value === 'off' ? undefined : e.target.value as FixtureMode })}
+            className="glass-input w-full text-xs mt-1"
+          >
+            {(Object.keys(FIXTURE_MODE_LABELS) as FixtureMode[]).map(mode => (
+              <option key={mode} value={mode}>{FIXTURE_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </label>
+        {fixtureStatus && (
+          <div className="flex items-center justify-between text-xs text-white/60">
+            <span className="truncate" title={fixtureStatus.directory}>
+              {fixtureStatus.count === 1 ? '1 recorded reply' : `${fixtureStatus.count} recorded replies`}
+            </span>
+            <button
+              onClick={() => window.electronAPI.openFixturesFolder()}
+              className="text-xs text-white/70 hover:text-white transition-colors px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20"
+            >
+              Open folder
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-2">
+          <label className="text-xs text-white/70">
+            Mock latency (ms)
+            <input
+              type="number"
+              min={0}
+              step={100}
+              value={mock.latencyMs ?? ''}
+              onChange={(e) => updateMock({ latencyMs: parseNumber(e.target.value) })}
+              placeholder="0"
+              className="glass-input w-full text-xs mt-1"
+            />
+          </label>
+          <label className="text-xs text-white/70">
+            Error rate (%)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              value={mock.errorRate !== undefined ? Math.round(mock.errorRate * 100) : ''}
+              onChange={(e) => {
+                const percent = parseNumber(e.target.value);
+                updateMock({ errorRate: percent !== undefined ? Math.min(Math.max(percent, 0), 100) / 100 : undefined });
+              }}
+              placeholder="0"
+              className="glass-input w-full text-xs mt-1"
+            />
+          </label>
+          <label className="text-xs text-white/70">
+            Error status
+            <input
+              type="number"
+              min={400}
+              max={599}
+              value={mock.errorStatus ?? ''}
+              onChange={(e) => updateMock({ errorStatus: parseNumber(e.target.value) })}
+              placeholder="503"
+              className="glass-input w-full text-xs mt-1"
+            />
+          </label>
+        </div>
+        <p className="text-xs text-white/50">
+          Include [mock:error 429] in a prompt to fail that request with the given status every time.
+        </p>
+
+        <label className="block text-xs text-white/70">
+          Scripted replies (separate with a line of ---)
+          <textarea
+            value={scriptDraft}
+            onChange={(e) => setScriptDraft(e.target.value)}
+            onBlur={saveScript}
+            placeholder={'First reply\n---\nSecond reply'}
+            rows={4}
+            className="glass-input w-full text-xs mt-1 resize-none"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default OfflineTestingSettings;
@@ -4,7 +4,18 @@ import ChatInterface from './ChatInterface';
 import ChatHistory from './ChatHistory';
 import LLMSelector from './LLMSelector';
 import TokenOptimizationSettings from './TokenOptimizationSettings';
-import { Chat, Message, AppSettings } from '@/shared/types';
+import FallbackChainSettings from './FallbackChainSettings';
+import GenerationDefaultsSettings from './GenerationDefaultsSettings';
+import CompareTargetsSettings from './CompareTargetsSettings';
+import VisionFallbackSettings from './VisionFallbackSettings';
+import OfflineTestingSettings from './OfflineTestingSettings';
+import ToolSettings from './ToolSettings';
+import NetworkSettings from './NetworkSettings';
+import AuditLogSettings from './AuditLogSettings';
+import ResponseCacheSettings from './ResponseCacheSettings';
+import { Chat, Message, AppSettings, ApiKeyStatus, GenerationParams, PendingToolCall, SendMessageOptions } from '@/shared/types';
+import { CompareColumn } from '@/shared/compare';
+import { getProviderDefinition, getProviderDefinitions } from '@/shared/providers';
 import { BackgroundDetectionService, BackgroundInfo } from '../services/backgroundDetection';
 
 interface OverlayProps {
@@ -13,12 +24,24 @@ interface OverlayProps {
   messages: Message[];
   settings: AppSettings;
   showMoveToNewChatOption: boolean;
+  streamingContent: string | null;
+  streamingReasoning: string | null;
+  requestStatus: string | null;
+  pendingToolCall: PendingToolCall | null;
+  onRespondToToolCall: (approved: boolean, always?: boolean) => void;
   onCreateChat: (title?: string) => Promise<Chat>;
   onSwitchChat: (chat: Chat) => void;
   onDeleteChat: (chatId: number) => void;
   onUpdateChatTitle: (chatId: number, newTitle: string) => void;
+  onUpdateChatSystemPrompt: (chatId: number, systemPrompt: string | null) => void;
+  onUpdateChatGenerationParams: (chatId: number, params: GenerationParams | null) => void;
   onMoveToNewChat: () => void;
-  onSendMessage: (text: string, imagePath?: string) => void;
+  onSendMessage: (text: string, imagePath?: string, options?: SendMessageOptions) => void;
+  onCancelMessage: () => void;
+  compareColumns: CompareColumn[] | null;
+  onSendCompareMessage: (text: string, imagePath?: string) => void;
+  onSelectCompareReply: (messageId: number) => void;
+  onReloadMessages: () => Promise<void>;
   onUpdateSettings: (settings: Partial<AppSettings>) => void;
   onImageRemoved: () => void;
 }
@@ -29,12 +52,24 @@ const Overlay: React.FC<OverlayProps> = ({
   messages,
   settings,
   showMoveToNewChatOption,
+  streamingContent,
+  streamingReasoning,
+  requestStatus,
+  pendingToolCall,
+  onRespondToToolCall,
   onCreateChat,
   onSwitchChat,
   onDeleteChat,
   onUpdateChatTitle,
+  onUpdateChatSystemPrompt,
+  onUpdateChatGenerationParams,
   onMoveToNewChat,
   onSendMessage,
+  onCancelMessage,
+  compareColumns,
+  onSendCompareMessage,
+  onSelectCompareReply,
+  onReloadMessages,
   onUpdateSettings,
   onImageRemoved,
 }) => {
@@ -52,15 +87,12 @@ const Overlay: React.FC<OverlayProps> = ({
   const chatHistoryRef = useRef<HTMLDivElement>(null);
   const zoomControlsRef = useRef<HTMLDivElement>(null);
   
-  const [apiStatus, setApiStatus] = useState<{
-    openai: 'ready' | 'invalid' | 'error' | 'not-configured';
-    claude: 'ready' | 'invalid' | 'error' | 'not-configured';
-    deepseek: 'ready' | 'invalid' | 'error' | 'not-configured';
-  }>({
-    openai: 'not-configured',
-    claude: 'not-configured',
-    deepseek: 'not-configured',
-  });
+  const [apiStatus, setApiStatus] = useState<Record<string, ApiKeyStatus>>(() =>
+    getProviderDefinitions().reduce((status, provider) => {
+      status[provider.id] = 'not-configured';
+      return status;
+    }, {} as Record<string, ApiKeyStatus>)
+  );
   const [isCheckingApiStatus, setIsCheckingApiStatus] = useState(false);
   const [backgroundInfo, setBackgroundInfo] = useState<BackgroundInfo | null>(null);
   const [currentThemeStyles, setCurrentThemeStyles] = useState<any>(null);
@@ -168,8 +200,9 @@ const Overlay: React.FC<OverlayProps> = ({
   };
 
   const handleApiKeyChange = async (provider: string, value: string) => {
-    const keyField = `${provider}ApiKey` as keyof AppSettings;
-    onUpdateSettings({ [keyField]: value });
+    const definition = getProviderDefinition(provider);
+    if (!definition) return;
+    onUpdateSettings({ [definition.apiKeySetting]: value });
     
     // Save to .env file
     try {
@@ -180,7 +213,7 @@ const Overlay: React.FC<OverlayProps> = ({
   };
 
   const getStatusColor = (provider: string): string => {
-    const status = apiStatus[provider as keyof typeof apiStatus];
+    const status = apiStatus[provider];
     switch (status) {
       case 'ready':
         return 'text-green-400';
@@ -188,6 +221,8 @@ const Overlay: React.FC<OverlayProps> = ({
         return 'text-red-400';
       case 'error':
         return 'text-yellow-400';
+      case 'network-error':
+        return 'text-orange-400';
       case 'not-configured':
         return 'text-gray-400';
       default:
@@ -196,7 +231,7 @@ const Overlay: React.FC<OverlayProps> = ({
   };
 
   const getStatusText = (provider: string): string => {
-    const status = apiStatus[provider as keyof typeof apiStatus];
+    const status = apiStatus[provider];
     switch (status) {
       case 'ready':
         return 'Ready';
@@ -204,6 +239,8 @@ const Overlay: React.FC<OverlayProps> = ({
         return 'Invalid';
       case 'error':
         return 'Error';
+      case 'network-error':
+        return 'Proxy/TLS error';
       case 'not-configured':
         return 'Not configured';
       default:
@@ -261,8 +298,7 @@ const Overlay: React.FC<OverlayProps> = ({
                     LLM Provider
                   </span>
                   <span className="text-xs text-white/60 bg-white/10 px-2 py-1 rounded">
-                    {settings.selectedProvider === 'openai' ? 'OpenAI' : 
-                     settings.selectedProvider === 'claude' ? 'Anthropic' : 'DeepSeek'}
+                    {getProviderDefinition(settings.selectedProvider)?.vendor || settings.selectedProvider}
                   </span>
                   <div className="text-white/40 hover:text-white/60 transition-colors p-1">
                     <svg className="w-4 h-4 transform rotate-90" fill="currentColor" viewBox="0 0 20 20">
@@ -372,8 +408,20 @@ const Overlay: React.FC<OverlayProps> = ({
             currentChat={currentChat}
             messages={messages}
             showMoveToNewChatOption={showMoveToNewChatOption}
+            streamingContent={streamingContent}
+            streamingReasoning={streamingReasoning}
+            requestStatus={requestStatus}
+            pendingToolCall={pendingToolCall}
+            onRespondToToolCall={onRespondToToolCall}
             onSendMessage={onSendMessage}
+            onCancelMessage={onCancelMessage}
+            compareColumns={compareColumns}
+            onSendCompareMessage={onSendCompareMessage}
+            onSelectCompareReply={onSelectCompareReply}
+            onReloadMessages={onReloadMessages}
             onMoveToNewChat={onMoveToNewChat}
+            onUpdateChatSystemPrompt={onUpdateChatSystemPrompt}
+            onUpdateChatGenerationParams={onUpdateChatGenerationParams}
             provider={settings.selectedProvider}
             showZoomControls={showZoomControls}
             zoomControlsRef={zoomControlsRef}
@@ -507,68 +555,82 @@ const Overlay: React.FC<OverlayProps> = ({
                       </button>
                     </div>
 
-                    <div>
-                      <div className="flex items-center justify-between mb-2">
-                        <label className="block text-white text-sm font-medium" style={{textShadow: '0 1px 2px rgba(0, 0, 0, 0.8)'}}>
-                          OpenAI API Key
-                        </label>
-                        <div className="flex items-center space-x-2">
-                          <div className={`w-2 h-2 rounded-full bg-current ${getStatusColor('openai')}`}></div>
-                          <span className={`text-xs ${getStatusColor('openai')}`}>
-                            {getStatusText('openai')}
-                          </span>
-                        </div>
-                      </div>
-                      <input
-                        type="password"
-                        className="glass-input w-full"
-                        value={settings.openaiApiKey || ''}
-                        onChange={(e) => handleApiKeyChange('openai', e.target.value)}
-                        placeholder="Enter your OpenAI API key"
-                      />
-                    </div>
-
-                    <div>
-                      <div className="flex items-center justify-between mb-2">
-                        <label className="block text-white text-sm font-medium" style={{textShadow: '0 1px 2px rgba(0, 0, 0, 0.8)'}}>
-                          Claude API Key
-                        </label>
-                        <div className="flex items-center space-x-2">
-                          <div className={`w-2 h-2 rounded-full bg-current ${getStatusColor('claude')}`}></div>
-                          <span className={`text-xs ${getStatusColor('claude')}`}>
-                            {getStatusText('claude')}
-                          </span>
-                        </div>
-                      </div>
-                      <input
-                        type="password"
-                        className="glass-input w-full"
-                        value={settings.claudeApiKey || ''}
-                        onChange={(e) => handleApiKeyChange('claude', e.target.value)}
-                        placeholder="Enter your Claude API key"
-                      />
-                    </div>
-
-                    <div>
-                      <div className="flex items-center justify-between mb-2">
-                        <label className="block text-white text-sm font-medium" style={{textShadow: '0 1px 2px rgba(0, 0, 0, 0.8)'}}>
-                          DeepSeek API Key
-                        </label>
-                        <div className="flex items-center space-x-2">
-                          <div className={`w-2 h-2 rounded-full bg-current ${getStatusColor('deepseek')}`}></div>
-                          <span className={`text-xs ${getStatusColor('deepseek')}`}>
-                            {getStatusText('deepseek')}
-                          </span>
+                    {getProviderDefinitions().map(provider => (
+                      <div key={provider.id}>
+                        <div className="flex items-center justify-between mb-2">
+                          <label className="block text-white text-sm font-medium" style={{textShadow: '0 1px 2px rgba(0, 0, 0, 0.8)'}}>
+                            {provider.name} API Key
+                          </label>
+                          <div className="flex items-center space-x-2">
+                            <div className={`w-2 h-2 rounded-full bg-current ${getStatusColor(provider.id)}`}></div>
+                            <span className={`text-xs ${getStatusColor(provider.id)}`}>
+                              {getStatusText(provider.id)}
+                            </span>
+                          </div>
                         </div>
+                        {provider.baseUrlSetting && (
+                          <input
+                            type="text"
+                            className="glass-input w-full mb-2"
+                            value={(settings as Record<string, any>)[provider.baseUrlSetting] || ''}
+                            onChange={(e) => onUpdateSettings({ [provider.baseUrlSetting!]: e.target.value })}
+                            placeholder={`Base URL, e.g. ${provider.defaultBaseUrl}`}
+                          />
+                        )}
+                        <input
+                          type="password"
+                          className="glass-input w-full"
+                          value={(settings as Record<string, any>)[provider.apiKeySetting] || ''}
+                          onChange={(e) => handleApiKeyChange(provider.id, e.target.value)}
+                          placeholder={provider.apiKeyOptional ? `${provider.name} API key (optional)` : `Enter your ${provider.name} API key`}
+                        />
                       </div>
-                      <input
-                        type="password"
-                        className="glass-input w-full"
-                        value={settings.deepseekApiKey || ''}
-                        onChange={(e) => handleApiKeyChange('deepseek', e.target.value)}
-                        placeholder="Enter your DeepSeek API key"
-                      />
-                    </div>
+                    ))}
+
+                    <FallbackChainSettings
+                      settings={settings}
+                      onSettingsChange={handleSettingsChange}
+                    />
+
+                    <CompareTargetsSettings
+                      settings={settings}
+                      onSettingsChange={handleSettingsChange}
+                    />
+
+                    <VisionFallbackSettings
+                      settings={settings}
+                      onSettingsChange={handleSettingsChange}
+                    />
+
+                    <GenerationDefaultsSettings
+                      settings={settings}
+                      onSettingsChange={handleSettingsChange}
+                    />
+
+                    <ToolSettings
+                      settings={settings}
+                      onSettingsChange={handleSettingsChange}
+                    />
+
+                    <NetworkSettings
+                      settings={settings}
+                      onSettingsChange={handleSettingsChange}
+                    />
+
+                    <AuditLogSettings
+                      settings={settings}
+                      onSettingsChange={handleSettingsChange}
+                    />
+
+                    <ResponseCacheSettings
+                      settings={settings}
+                      onSettingsChange={handleSettingsChange}
+                    />
+
+                    <OfflineTestingSettings
+                      settings={settings}
+                      onSettingsChange={handleSettingsChange}
+                    />
                   </div>
                 )}
 
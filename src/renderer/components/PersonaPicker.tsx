@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Persona } from '@/shared/types';
+
+interface PersonaPickerProps {
+  systemPrompt?: string;
+  onSystemPromptChange: (systemPrompt: string | null) => void;
+}
+
+const PersonaPicker: React.FC<PersonaPickerProps> = ({
+  systemPrompt,
+  onSystemPromptChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [draft, setDraft] = useState(systemPrompt || '');
+  const [presetName, setPresetName] = useState('');
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  // Load presets once so the label can show the active persona's name
+  useEffect(() => {
+    loadPersonas();
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadPersonas();
+      setDraft(systemPrompt || '');
+      setPresetName('');
+    }
+  }, [isOpen, systemPrompt]);
+
+  // Close when clicking outside the picker
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const loadPersonas = async () => {
+    try {
+      setPersonas(await window.electronAPI.getPersonas());
+    } catch (error) {
+      console.error('Failed to load personas:', error);
+    }
+  };
+
+  // A chat shows a preset's name while its prompt still matches that preset
+  const activePersona = systemPrompt ? personas.find(p => p.systemPrompt === systemPrompt) : undefined;
+  const label = !systemPrompt ? 'No persona' : activePersona ? activePersona.name : 'Custom prompt';
+
+  const handleApply = (prompt: string | null) => {
+    onSystemPromptChange(prompt && prompt.trim() ? prompt : null);
+    setIsOpen(false);
+  };
+
+  const handleSavePreset = async () => {
+    if (!presetName.trim() || !draft.trim()) return;
+
+    const existing = personas.find(p => p.name.toLowerCase() === presetName.trim().toLowerCase());
+    await window.electronAPI.savePersona({ id: existing?.id, name: presetName.trim(), systemPrompt: draft });
+    setPresetName('');
+    loadPersonas();
+  };
+
+  const handleDeletePreset = async (persona: Persona) => {
+    if (!confirm(`Delete the "${persona.name}" persona?`)) return;
+    await window.electronAPI.deletePersona(persona.id);
+    loadPersonas();
+  };
+
+  return (
+    <div className="relative flex-shrink-0" ref={pickerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`text-xs px-2 py-1 rounded hover:bg-white/20 transition-colors flex items-center space-x-1 ${
+          systemPrompt ? 'text-purple-300' : 'text-white/60 hover:text-white'
+        }`}
+        title={systemPrompt || 'Set a system prompt for this chat'}
+      >
+        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" clipRule="evenodd" />
+        </svg>
+        <span className="max-w-[8rem] truncate">{label}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 w-80 z-50 glass-panel bg-black/90 border border-white/20 rounded-lg p-3 space-y-3">
+          <div>
+            <div className="text-xs text-white/60 mb-1">Presets</div>
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              <button
+                onClick={() => handleApply(null)}
+                className={`w-full text-left text-xs px-2 py-1 rounded hover:bg-white/10 ${!systemPrompt ? 'text-white' : 'text-white/70'}`}
+              >
+                No persona
+              </button>
+              {personas.map(persona => (
+                <div key={persona.id} className="flex items-center group">
+                  <button
+                    onClick={() => handleApply(persona.systemPrompt)}
+                    className={`flex-1 text-left text-xs px-2 py-1 rounded hover:bg-white/10 truncate ${
+                      activePersona?.id === persona.id ? 'text-purple-300' : 'text-white/70'
+                    }`}
+                    title={persona.systemPrompt}
+                  >
+                    {persona.name}
+                  </button>
+                  <button
+                    onClick={() => handleDeletePreset(persona)}
+                    className="text-red-400/80 hover:text-red-400 text-xs px-1 opacity-0 group-hover:opacity-100"
+                    title="Delete preset"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              {personas.length === 0 && (
+                <p className="text-xs text-white/40 italic px-2">No presets saved yet</p>
+              )}
+            </div>
+          </div>
+
+          <div className="pt-2 border-t border-white/10">
+            <div className="text-xs text-white/60 mb-1">System prompt for this chat</div>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="e.g. You are reviewing our Grafana dashboards, answer tersely."
+              rows={4}
+              className="glass-input w-full text-xs resize-none"
+            />
+            <div className="flex justify-end mt-2">
+              <button
+                onClick={() => handleApply(draft)}
+                className="text-xs px-3 py-1 rounded-lg bg-blue-500/30 hover:bg-blue-500/50 text-white transition-colors"
+              >
+                Apply to chat
+              </button>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Preset name"
+              className="glass-input flex-1 text-xs"
+            />
+            <button
+              onClick={handleSavePreset}
+              disabled={!presetName.trim() || !draft.trim()}
+              className="text-xs px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white/70 hover:text-white disabled:opacity-40 transition-colors"
+              title="Save the prompt above as a reusable preset (overwrites a preset with the same name)"
+            >
+              Save preset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PersonaPicker;
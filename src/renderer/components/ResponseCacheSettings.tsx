@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { AppSettings } from '@/shared/types';
+
+interface ResponseCacheSettingsProps {
+  settings: AppSettings;
+  onSettingsChange: (settings: Partial<AppSettings>) => void;
+}
+
+const TTL_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 0, label: 'Off' },
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '7 days' },
+  { hours: 24 * 30, label: '30 days' }
+];
+
+const ResponseCacheSettings: React.FC<ResponseCacheSettingsProps> = ({
+  settings,
+  onSettingsChange,
+}) => {
+  const [clearedCount, setClearedCount] = useState<number | null>(null);
+  const ttlHours = settings.responseCacheTtlHours || 0;
+
+  const clearCache = async () => {
+    try {
+      setClearedCount(await window.electronAPI.clearResponseCache());
+      setTimeout(() => setClearedCount(null), 2000);
+    } catch (error) {
+      console.error('Failed to clear response cache:', error);
+    }
+  };
+
+  return (
+    <div className="pt-4 border-t border-white/10">
+      <label className="block text-white text-sm font-medium mb-2" style={{textShadow: '0 1px 2px rgba(0, 0, 0, 0.8)'}}>
+        Response Cache
+      </label>
+      <p className="text-xs text-white/60 mb-3">
+        Asking the same model the same question about the same image, with the same settings and history, returns the saved answer at no cost. Cached replies are labeled and can be asked again for a fresh answer.
+      </p>
+
+      <div className="flex items-end gap-2">
+        <label className="block flex-1 text-xs text-white/70">
+          Reuse answers for
+          <select
+            value={ttlHours}
+            onChange={(e) => {
+              const hours = Number(e.target.value);
+              onSettingsChange({ responseCacheTtlHours: hours || undefined });
+            }}
+            className="glass-input w-full text-xs mt-1"
+          >
+            {TTL_OPTIONS.map(option => (
+              <option key={option.hours} value={option.hours}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={clearCache}
+          className="px-3 py-1.5 text-xs rounded bg-white/10 hover:bg-white/20 text-white/70 hover:text-white transition-colors"
+        >
+          {clearedCount !== null ? `Cleared ${clearedCount}` : 'Clear cache'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResponseCacheSettings;
@@ -34,8 +34,24 @@ const TokenCounter: React.FC<TokenCounterProps> = ({
       model: string;
       tokens: number;
       cost: number;
-      role: 'user' | 'assistant';
+      role: Message['role'];
+      imageTokens: number;
+      imageCost: number;
+      imageWidth?: number;
+      imageHeight?: number;
     }>;
+    imageTokens?: number;
+    imageCost?: number; // Part of the input cost spent on screenshots
+    billedUsage?: {
+      inputTokens: number;
+      outputTokens: number;
+      cachedTokens: number;
+      cacheWriteTokens: number;
+      reasoningTokens: number;
+      totalCost: number;
+      cacheSavings: number; // Saved by prompt caching, after cache write premiums
+      reasoningCost: number; // Part of the output cost spent on reasoning
+    };
   } | null>(null);
   
   const [isLoading, setIsLoading] = useState(false);
@@ -97,6 +113,34 @@ const TokenCounter: React.FC<TokenCounterProps> = ({
       tooltip += `\nTotal estimated cost: $${tokenStats.costBreakdown.totalCost.toFixed(4)}`;
     }
     
+    // Screenshots are resent with the context, often costing more than the text
+    const images = tokenStats.modelBreakdown?.filter(item => item.imageTokens > 0) || [];
+    if (images.length > 0) {
+      tooltip += `\n\n🖼️ IMAGES IN CONTEXT:`;
+      images.forEach((item, index) => {
+        const size = item.imageWidth && item.imageHeight ? `${item.imageWidth}x${item.imageHeight}` : 'unknown size';
+        tooltip += `\n• Image ${index + 1} (${size}): ${item.imageTokens.toLocaleString()} tokens, $${item.imageCost.toFixed(4)}`;
+      });
+      tooltip += `\nAll images: ${(tokenStats.imageTokens || 0).toLocaleString()} tokens, $${(tokenStats.imageCost || 0).toFixed(4)}`;
+    }
+    
+    // Provider-reported usage of the replies so far
+    if (tokenStats.billedUsage && tokenStats.billedUsage.totalCost > 0) {
+      const billed = tokenStats.billedUsage;
+      tooltip += `\n\n🧾 BILLED SO FAR:`;
+      tooltip += `\nInput: ${billed.inputTokens.toLocaleString()} tokens (${billed.cachedTokens.toLocaleString()} cached)`;
+      tooltip += `\nOutput: ${billed.outputTokens.toLocaleString()} tokens (${billed.reasoningTokens.toLocaleString()} reasoning)`;
+      if (billed.reasoningTokens > 0) {
+        tooltip += `\nReasoning cost: $${billed.reasoningCost.toFixed(4)}`;
+      }
+      tooltip += `\nTotal cost: $${billed.totalCost.toFixed(4)}`;
+      if (billed.cachedTokens > 0 || billed.cacheWriteTokens > 0) {
+        tooltip += `\n\n♻️ PROMPT CACHE:`;
+        tooltip += `\nRead: ${billed.cachedTokens.toLocaleString()} tokens, written: ${billed.cacheWriteTokens.toLocaleString()} tokens`;
+        tooltip += `\n${billed.cacheSavings >= 0 ? 'Saved' : 'Extra cost so far'}: $${Math.abs(billed.cacheSavings).toFixed(4)}`;
+      }
+    }
+    
     // Show model breakdown if there are multiple models used
     if (tokenStats.modelBreakdown) {
       const modelSummary = tokenStats.modelBreakdown.reduce((acc, item) => {
@@ -141,6 +185,11 @@ const TokenCounter: React.FC<TokenCounterProps> = ({
             </svg>
           </span>
         )}
+        {showCost && tokenStats.billedUsage && tokenStats.billedUsage.cacheSavings > 0 && (
+          <span className="text-cyan-300" title="Saved so far by the provider's prompt cache">
+            ♻️ -${tokenStats.billedUsage.cacheSavings.toFixed(4)}
+          </span>
+        )}
         {showCost && tokenStats.estimatedCost > 0 && (
           <span className="text-green-400 font-medium flex items-center" title="Estimated cost if you send a message now (includes all tokens as context)">
             <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { AppSettings } from '@/shared/types';
+import { getProviderApiKey, getProviderDefinitions } from '@/shared/providers';
+import { DEFAULT_MEMORY_TOP_K } from '@/shared/memory';
 
 interface TokenOptimizationSettingsProps {
   settings: AppSettings;
@@ -34,6 +36,40 @@ const TokenOptimizationSettings: React.FC<TokenOptimizationSettingsProps> = ({
 
   const currentOptimization = getOptimizationSettings();
 
+  // Summaries can be written by any catalog model the user has access to
+  const summaryModels = getProviderDefinitions().flatMap(provider =>
+    provider.discoverModels || (!provider.apiKeyOptional && !getProviderApiKey(settings, provider.id))
+      ? []
+      : provider.models.map(model => ({ provider, model }))
+  );
+  const selectedSummaryModel = settings.summaryModel?.model ? `${settings.summaryModel.provider}:${settings.summaryModel.model}` : '';
+
+  const handleSummaryModelChange = (value: string) => {
+    if (!value) {
+      onSettingsChange({ summaryModel: undefined });
+      return;
+    }
+    const [provider, ...model] = value.split(':');
+    onSettingsChange({ summaryModel: { provider, model: model.join(':') } });
+  };
+
+  // Memories are embedded on-device unless a provider embedding model the user has a key for is picked
+  const embeddingModels = getProviderDefinitions().flatMap(provider =>
+    getProviderApiKey(settings, provider.id)
+      ? (provider.embeddingModels || []).map(model => ({ provider, model }))
+      : []
+  );
+  const selectedEmbeddingModel = settings.memoryEmbedding?.model ? `${settings.memoryEmbedding.provider}:${settings.memoryEmbedding.model}` : '';
+
+  const handleEmbeddingModelChange = (value: string) => {
+    if (!value) {
+      onSettingsChange({ memoryEmbedding: undefined });
+      return;
+    }
+    const [provider, ...model] = value.split(':');
+    onSettingsChange({ memoryEmbedding: { provider, model: model.join(':') } });
+  };
+
   const handleStrategyChange = (strategy: string) => {
     onSettingsChange({
       tokenOptimization: {
@@ -114,6 +150,7 @@ const TokenOptimizationSettings: React.FC<TokenOptimizationSettingsProps> = ({
               <option value="rolling-window">Rolling Window</option>
               <option value="smart-summary">Smart Summary</option>
               <option value="rolling-with-summary">Rolling Window + Summary (Recommended)</option>
+              <option value="memory">Rolling Window + Memory</option>
             </select>
             <p className="text-xs text-white/60 mt-1">
               {currentOptimization.strategy === 'full-history' && 
@@ -124,12 +161,15 @@ const TokenOptimizationSettings: React.FC<TokenOptimizationSettingsProps> = ({
                 'Automatically summarizes old messages when token limit is reached. Preserves context efficiently.'}
               {currentOptimization.strategy === 'rolling-with-summary' && 
                 'Uses rolling window first, then summarizes if still over limit. Best balance of speed and context preservation.'}
+              {currentOptimization.strategy === 'memory' && 
+                'Keeps the last N messages and adds the most relevant snippets from all your past chats. The sources are listed under each reply.'}
             </p>
           </div>
 
           {/* Rolling Window Size */}
           {(currentOptimization.strategy === 'rolling-window' || 
-            currentOptimization.strategy === 'rolling-with-summary') && (
+            currentOptimization.strategy === 'rolling-with-summary' ||
+            currentOptimization.strategy === 'memory') && (
             <div>
               <label className="block text-sm font-medium text-white/80 mb-2">
                 Rolling Window Size: {currentOptimization.rollingWindowSize} messages
@@ -172,6 +212,70 @@ const TokenOptimizationSettings: React.FC<TokenOptimizationSettingsProps> = ({
                 <span>8K</span>
                 <span>15K</span>
               </div>
+
+              <label className="block text-sm font-medium text-white/80 mt-4 mb-2">
+                Summary Model
+              </label>
+              <select
+                value={selectedSummaryModel}
+                onChange={(e) => handleSummaryModelChange(e.target.value)}
+                className="w-full px-3 py-2 bg-black/30 border border-white/20 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Keyword summary (offline, free)</option>
+                {summaryModels.map(({ provider, model }) => (
+                  <option key={`${provider.id}:${model.id}`} value={`${provider.id}:${model.id}`}>
+                    {provider.name} • {model.name}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-white/60 mt-1">
+                A model keeps the conclusions of the conversation in its summaries. Each range of messages is summarized
+                once and reused, and the cost is added to the message that needed it. A cheap, fast model is enough.
+              </p>
+            </div>
+          )}
+
+          {/* Memory retrieval */}
+          {currentOptimization.strategy === 'memory' && (
+            <div>
+              <label className="block text-sm font-medium text-white/80 mb-2">
+                Recalled Snippets: {settings.memoryTopK ?? DEFAULT_MEMORY_TOP_K} per message
+              </label>
+              <input
+                type="range"
+                min="1"
+                max="10"
+                step="1"
+                value={settings.memoryTopK ?? DEFAULT_MEMORY_TOP_K}
+                onChange={(e) => onSettingsChange({ memoryTopK: parseInt(e.target.value) })}
+                className="w-full h-2 bg-black/30 rounded-lg appearance-none cursor-pointer"
+              />
+              <div className="flex justify-between text-xs text-white/60 mt-1">
+                <span>1</span>
+                <span>5</span>
+                <span>10</span>
+              </div>
+
+              <label className="block text-sm font-medium text-white/80 mt-4 mb-2">
+                Embedding Model
+              </label>
+              <select
+                value={selectedEmbeddingModel}
+                onChange={(e) => handleEmbeddingModelChange(e.target.value)}
+                className="w-full px-3 py-2 bg-black/30 border border-white/20 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">On-device (offline, free)</option>
+                {embeddingModels.map(({ provider, model }) => (
+                  <option key={`${provider.id}:${model.id}`} value={`${provider.id}:${model.id}`}>
+                    {provider.name} • {model.name}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-white/60 mt-1">
+                On-device embeddings match past messages that share words with yours. A provider model also finds
+                messages that mean the same thing in other words. Switching models indexes your chats again, a few
+                hundred messages per send, and the cost is added to the message that needed it.
+              </p>
             </div>
           )}
 
@@ -273,6 +377,13 @@ const TokenOptimizationSettings: React.FC<TokenOptimizationSettingsProps> = ({
             </div>
           </div>
 
+          {optimizationPreview.costBreakdown?.original?.imageCost > 0 && (
+            <p className="mt-3 text-xs text-white/60">
+              🖼️ Images: {optimizationPreview.costBreakdown.original.imageTokens.toLocaleString()} → {optimizationPreview.costBreakdown.optimized.imageTokens.toLocaleString()} tokens
+              (${optimizationPreview.costBreakdown.original.imageCost.toFixed(4)} → ${optimizationPreview.costBreakdown.optimized.imageCost.toFixed(4)})
+            </p>
+          )}
+
           {optimizationPreview.checkpoint && (
             <div className="mt-4 p-3 bg-blue-500/20 border border-blue-400/30 rounded-md">
               <div className="flex items-center">
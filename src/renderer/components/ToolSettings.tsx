@@ -0,0 +1,67 @@
+import React from 'react';
+import { AppSettings, ToolPermission } from '@/shared/types';
+import { BUILTIN_TOOLS, getToolPermission } from '@/shared/tools';
+
+interface ToolSettingsProps {
+  settings: AppSettings;
+  onSettingsChange: (settings: Partial<AppSettings>) => void;
+}
+
+const PERMISSION_LABELS: Record<ToolPermission, string> = {
+  ask: 'Ask every time',
+  allow: 'Always allow',
+  deny: 'Never'
+};
+
+const ToolSettings: React.FC<ToolSettingsProps> = ({
+  settings,
+  onSettingsChange,
+}) => {
+  const setPermission = (name: string, permission: ToolPermission) => {
+    const toolPermissions = { ...settings.toolPermissions, [name]: permission };
+    // 'ask' is the default, so it isn't stored
+    if (permission === 'ask') delete toolPermissions[name];
+    onSettingsChange({ toolPermissions });
+  };
+
+  return (
+    <div className="pt-4 border-t border-white/10">
+      <label className="block text-white text-sm font-medium mb-2" style={{textShadow: '0 1px 2px rgba(0, 0, 0, 0.8)'}}>
+        Tools
+      </label>
+      <p className="text-xs text-white/60 mb-3">
+        Let models that support tool calling capture your screen, read the clipboard or search earlier chats while answering. Extract mode and compare mode never use tools.
+      </p>
+
+      <label className="flex items-center gap-2 text-xs text-white/80 mb-3">
+        <input
+          type="checkbox"
+          checked={!!settings.toolsEnabled}
+          onChange={(e) => onSettingsChange({ toolsEnabled: e.target.checked || undefined })}
+        />
+        Allow models to call tools
+      </label>
+
+      {settings.toolsEnabled && (
+        <div className="space-y-2">
+          {BUILTIN_TOOLS.map(tool => (
+            <div key={tool.name} className="flex items-center justify-between gap-2">
+              <span className="text-xs text-white/70" title={tool.description}>{tool.label}</span>
+              <select
+                value={getToolPermission(settings, tool.name)}
+                onChange={(e) => setPermission(tool.name, e.target.value as ToolPermission)}
+                className="glass-input text-xs"
+              >
+                {(Object.keys(PERMISSION_LABELS) as ToolPermission[]).map(permission => (
+                  <option key={permission} value={permission}>{PERMISSION_LABELS[permission]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolSettings;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { AppSettings, ImageHandling } from '@/shared/types';
+import { getModelDisplayName, getProviderDefinition, getProviderDefinitions } from '@/shared/providers';
+import { IMAGE_HANDLING_LABELS, resolveVisionTarget } from '@/shared/vision';
+
+interface VisionFallbackSettingsProps {
+  settings: AppSettings;
+  onSettingsChange: (settings: Partial<AppSettings>) => void;
+}
+
+const VisionFallbackSettings: React.FC<VisionFallbackSettingsProps> = ({
+  settings,
+  onSettingsChange,
+}) => {
+  // Only catalog models declare vision support, so discovered models can't be picked here
+  const visionModels = getProviderDefinitions().flatMap(provider =>
+    provider.discoverModels ? [] : provider.models
+      .filter(model => model.capabilities.vision)
+      .map(model => ({ provider, model }))
+  );
+  const selected = settings.visionModel?.model ? `${settings.visionModel.provider}:${settings.visionModel.model}` : '';
+  const resolved = resolveVisionTarget(settings);
+
+  const handleModelChange = (value: string) => {
+    if (!value) {
+      onSettingsChange({ visionModel: undefined });
+      return;
+    }
+    const [provider, ...model] = value.split(':');
+    onSettingsChange({ visionModel: { provider, model: model.join(':') } });
+  };
+
+  return (
+    <div className="pt-4 border-t border-white/10">
+      <label className="block text-white text-sm font-medium mb-2" style={{textShadow: '0 1px 2px rgba(0, 0, 0, 0.8)'}}>
+        Images for Text-Only Models
+      </label>
+      <p className="text-xs text-white/60 mb-3">
+        Some models can't see images. Choose what happens when a screenshot is sent to one of them.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-white/70">
+          When it happens
+          <select
+            value={settings.visionFallback || 'ask'}
+            onChange={(e) => onSettingsChange({ visionFallback: e.target.value as 'ask' | ImageHandling })}
+            className="glass-input w-full text-xs mt-1"
+          >
+            <option value="ask">Ask every time</option>
+            {(Object.keys(IMAGE_HANDLING_LABELS) as ImageHandling[]).map(handling => (
+              <option key={handling} value={handling}>{IMAGE_HANDLING_LABELS[handling]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-white/70">
+          Vision model
+          <select
+            value={selected}
+            onChange={(e) => handleModelChange(e.target.value)}
+            className="glass-input w-full text-xs mt-1"
+          >
+            <option value="">Automatic</option>
+            {visionModels.map(({ provider, model }) => (
+              <option key={`${provider.id}:${model.id}`} value={`${provider.id}:${model.id}`}>
+                {provider.name} • {model.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="text-xs mt-2 text-white/50">
+        {resolved
+          ? `Images will be seen by ${getProviderDefinition(resolved.provider)?.name} • ${getModelDisplayName(resolved.provider, resolved.model)}`
+          : 'No vision-capable model has an API key yet, so images can only be left out.'}
+      </div>
+    </div>
+  );
+};
+
+export default VisionFallbackSettings;
@@ -1,4 +1,5 @@
 import { Message, AppSettings } from '@/shared/types';
+import { getProviderApiKey, getProviderDefinition } from '@/shared/providers';
 
 /**
  * Generate a concise and descriptive title for a chat based on its initial messages
@@ -35,22 +36,13 @@ Respond with ONLY the title, nothing else.`;
 
   try {
     // Get API key for the selected provider
-    let apiKey = '';
-    switch (settings.selectedProvider) {
-      case 'openai':
-        apiKey = settings.openaiApiKey;
-        break;
-      case 'claude':
-        apiKey = settings.claudeApiKey;
-        break;
-      case 'deepseek':
-        apiKey = settings.deepseekApiKey;
-        break;
-      default:
-        throw new Error('No valid provider selected');
+    const provider = getProviderDefinition(settings.selectedProvider);
+    if (!provider) {
+      throw new Error('No valid provider selected');
     }
+    const apiKey = getProviderApiKey(settings, settings.selectedProvider) || '';
 
-    if (!apiKey) {
+    if (!apiKey && !provider.apiKeyOptional) {
       throw new Error('No API key available for selected provider');
     }
 
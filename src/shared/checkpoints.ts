@@ -0,0 +1,46 @@
+/**
+ * Compression checkpoints
+ * Compressing a chat folds its older messages behind a summary instead of deleting them.
+ * Folded messages stay in the chat for the user to expand, while the history sent to the
+ * model carries the summary in their place. A later compression can fold an earlier
+ * checkpoint's summary in turn; undoing a compression unfolds only its own messages.
+ */
+
+import { ChatCheckpoint, Message } from './types';
+
+// The checkpoint a folded message is shown behind: the latest one that folded it, directly or not
+export function resolveCheckpoint(checkpointId: number, checkpoints: ChatCheckpoint[]): ChatCheckpoint | undefined {
+  let checkpoint = checkpoints.find(cp => cp.id === checkpointId);
+  while (checkpoint?.foldedInto !== undefined) {
+    const foldedInto: number = checkpoint.foldedInto;
+    checkpoint = checkpoints.find(cp => cp.id === foldedInto);
+  }
+  return checkpoint;
+}
+
+// Stands in for the folded messages in history. The negative ID keeps it apart from real
+// messages, and a later compression recognizes it as this checkpoint.
+export function buildCheckpointMessage(checkpoint: ChatCheckpoint, timestamp: string): Message {
+  return {
+    id: -checkpoint.id,
+    chatId: checkpoint.chatId,
+    role: 'assistant',
+    content: checkpoint.summary,
+    provider: 'system',
+    model: 'summary',
+    timestamp
+  };
+}
+
+// Replace each run of folded messages with its checkpoint's summary, where the run began
+export function foldCheckpoints(messages: Message[], checkpoints: ChatCheckpoint[]): Message[] {
+  const emitted = new Set<number>();
+  return messages.flatMap(msg => {
+    if (msg.checkpointId === undefined) return [msg];
+    const checkpoint = resolveCheckpoint(msg.checkpointId, checkpoints);
+    if (!checkpoint) return [msg];
+    if (emitted.has(checkpoint.id)) return [];
+    emitted.add(checkpoint.id);
+    return [buildCheckpointMessage(checkpoint, msg.timestamp)];
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * Compare mode helpers
+ * A compared prompt is answered by several sibling assistant messages that share
+ * a compareGroupId (the ID of the user message they answer). Only one sibling
+ * continues the conversation: the one the user picked, or the first successful
+ * reply until a pick is made.
+ */
+
+import { Message } from './types';
+
+// Live state of one compared model while its reply streams in
+export interface CompareColumn {
+  label: string; // Provider and model being asked
+  content: string;
+  reasoning: string; // Reasoning trace streamed before the reply, for models that return one
+  status: string | null; // Retry progress for this model
+}
+
+// The sibling that represents a compare group in the conversation history
+export function getCompareGroupReply(siblings: Message[]): Message | undefined {
+  return siblings.find(msg => msg.compareSelected)
+    || siblings.find(msg => !msg.error && !msg.cancelled)
+    || siblings[0];
+}
+
+// Reduce every compare group to its chosen reply so history alternates user/assistant again
+export function collapseCompareGroups(messages: Message[]): Message[] {
+  const groups = new Map<number, Message[]>();
+  messages.forEach(msg => {
+    if (msg.compareGroupId === undefined) return;
+    groups.set(msg.compareGroupId, [...(groups.get(msg.compareGroupId) || []), msg]);
+  });
+
+  return messages.filter(msg => {
+    if (msg.compareGroupId === undefined) return true;
+    return getCompareGroupReply(groups.get(msg.compareGroupId)!) === msg;
+  });
+}
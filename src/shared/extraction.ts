@@ -0,0 +1,185 @@
+/**
+ * Extract mode helpers
+ * An extract turn asks the model for JSON matching a schema instead of prose. The
+ * reply is parsed, checked against the schema and flattened into a table for display
+ * and CSV export. Only the JSON Schema subset that providers' structured output modes
+ * accept is validated: type, properties, required, items, enum and additionalProperties.
+ */
+
+import { ExtractionResult } from './types';
+
+export type JsonSchema = Record<string, any>;
+
+// Shipped presets, shown before the user's saved schemas
+export const BUILTIN_EXTRACTION_SCHEMAS: { name: string; schema: JsonSchema }[] = [
+  {
+    name: 'Table rows',
+    schema: {
+      type: 'object',
+      properties: {
+        columns: { type: 'array', items: { type: 'string' }, description: 'Column headers, left to right' },
+        rows: {
+          type: 'array',
+          items: { type: 'array', items: { type: 'string' } },
+          description: 'One array of cell values per row, in column order'
+        }
+      },
+      required: ['columns', 'rows']
+    }
+  },
+  {
+    name: 'Form fields',
+    schema: {
+      type: 'object',
+      properties: {
+        fields: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              label: { type: 'string' },
+              value: { type: 'string' }
+            },
+            required: ['label', 'value']
+          }
+        }
+      },
+      required: ['fields']
+    }
+  }
+];
+
+export const EXTRACTION_INSTRUCTIONS =
+  'Extract the requested data from the screenshot and conversation. Reply only with JSON that matches the schema. ' +
+  'Copy values exactly as shown; use an empty string for values that are blank or unreadable.';
+
+// System prompt addition for extract turns; also the only schema hint for JSON-object-only providers
+export function buildExtractionPrompt(schema: JsonSchema): string {
+  return `${EXTRACTION_INSTRUCTIONS}\n\nJSON schema:\n${JSON.stringify(schema, null, 2)}`;
+}
+
+// Structured output APIs only accept simple identifiers as schema names
+export function toSchemaIdentifier(name: string): string {
+  return name.trim().replace(/[^a-zA-Z0-9_-]+/g, '_').slice(0, 64) || 'extraction';
+}
+
+export function parseJsonSchema(text: string): JsonSchema {
+  const schema = JSON.parse(text);
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    throw new Error('Schema must be a JSON object');
+  }
+  if (schema.type !== 'object') {
+    throw new Error('The top-level schema must have "type": "object"');
+  }
+  return schema;
+}
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+// Every mismatch with its JSON path, e.g. "$.rows[2]: expected array, got string"
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+  if (schema.enum && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+    (schema.required || []).forEach((key: string) => {
+      if (!(key in record)) errors.push(`${path}.${key}: missing`);
+    });
+    Object.entries(record).forEach(([key, propertyValue]) => {
+      if (properties[key]) {
+        errors.push(...validateAgainstSchema(propertyValue, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: not allowed by the schema`);
+      }
+    });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`));
+    });
+  }
+
+  return errors;
+}
+
+// Parse a reply and check it; models sometimes wrap JSON in a code fence despite JSON mode
+export function parseExtraction(content: string, schemaName: string, schema: JsonSchema): ExtractionResult {
+  const unfenced = content.trim().replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```$/, '');
+  try {
+    const data = JSON.parse(unfenced);
+    return { schemaName, data, errors: validateAgainstSchema(data, schema) };
+  } catch {
+    return { schemaName, data: null, errors: ['The reply was not valid JSON'] };
+  }
+}
+
+export interface ExtractionTable {
+  columns: string[];
+  rows: string[][];
+}
+
+const cellText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Lay out extracted data as a table: explicit columns/rows, a list of records (top-level
+// or the object's only list), or a single record as field/value pairs
+export function toExtractionTable(data: unknown): ExtractionTable | null {
+  if (data === null || typeof data !== 'object') return null;
+
+  if (!Array.isArray(data)) {
+    const record = data as Record<string, unknown>;
+    if (Array.isArray(record.columns) && Array.isArray(record.rows) && record.rows.every(Array.isArray)) {
+      return {
+        columns: record.columns.map(cellText),
+        rows: (record.rows as unknown[][]).map(row => row.map(cellText))
+      };
+    }
+
+    const lists = Object.values(record).filter(Array.isArray);
+    if (lists.length === 1 && Object.keys(record).length === 1) {
+      return toExtractionTable(lists[0]);
+    }
+    return {
+      columns: ['Field', 'Value'],
+      rows: Object.entries(record).map(([key, value]) => [key, cellText(value)])
+    };
+  }
+
+  if (data.every(item => item !== null && typeof item === 'object' && !Array.isArray(item))) {
+    const columns = Array.from(new Set(data.flatMap(item => Object.keys(item))));
+    return {
+      columns,
+      rows: data.map(item => columns.map(column => cellText((item as Record<string, unknown>)[column])))
+    };
+  }
+  return { columns: ['Value'], rows: data.map(item => [cellText(item)]) };
+}
+
+export function toCsv(table: ExtractionTable): string {
+  const escape = (cell: string) => (/[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  return [table.columns, ...table.rows].map(row => row.map(escape).join(',')).join('\n');
+}
@@ -0,0 +1,135 @@
+/**
+ * Generation parameter resolution
+ * Requests are built from three layers: built-in defaults, the global defaults
+ * in settings and the chat's own overrides. The merged result is then fitted
+ * to what the target model accepts before it is sent.
+ */
+
+import { GenerationParams, ReasoningEffort } from './types';
+import type { ModelInfo } from './models';
+
+// Matches the values every provider used before parameters were configurable
+export const DEFAULT_GENERATION_PARAMS: GenerationParams = {
+  temperature: 0.7,
+  maxTokens: 1000
+};
+
+export const REASONING_EFFORTS: ReasoningEffort[] = ['low', 'medium', 'high'];
+
+// Anthropic rejects smaller thinking budgets
+export const MIN_THINKING_BUDGET = 1024;
+
+export interface ValidatedGenerationParams {
+  params: GenerationParams;
+  adjustments: string[]; // Human-readable notes for every value that was changed or dropped
+}
+
+// Later layers win; unset fields fall through to earlier ones
+export function mergeGenerationParams(...layers: (GenerationParams | undefined)[]): GenerationParams {
+  return layers.reduce<GenerationParams>((merged, layer) => {
+    Object.entries(layer || {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        (merged as Record<string, any>)[key] = value;
+      }
+    });
+    return merged;
+  }, {});
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Fit parameters to a model's capabilities. Without model info (discovered or
+ * unlisted models) only generic ranges are enforced and reasoning controls are dropped.
+ */
+export function validateGenerationParams(
+  params: GenerationParams,
+  model: ModelInfo | undefined,
+  maxTemperature: number = 2
+): ValidatedGenerationParams {
+  const result: GenerationParams = {};
+  const adjustments: string[] = [];
+  const capabilities = model?.capabilities;
+  const modelName = model?.name || 'this model';
+
+  // Reasoning controls only apply to models that expose them
+  if (params.reasoningEffort) {
+    if (capabilities?.reasoning === 'effort' && REASONING_EFFORTS.includes(params.reasoningEffort)) {
+      result.reasoningEffort = params.reasoningEffort;
+    } else {
+      adjustments.push(`Reasoning effort is not supported by ${modelName}`);
+    }
+  }
+  if (params.thinkingBudget) {
+    if (capabilities?.reasoning === 'thinking') {
+      result.thinkingBudget = Math.max(Math.floor(params.thinkingBudget), MIN_THINKING_BUDGET);
+      if (result.thinkingBudget !== params.thinkingBudget) {
+        adjustments.push(`Thinking budget raised to the minimum of ${MIN_THINKING_BUDGET} tokens`);
+      }
+    } else {
+      adjustments.push(`Thinking budget is not supported by ${modelName}`);
+    }
+  }
+
+  // Extended thinking requires default sampling
+  const samplingLocked = capabilities?.fixedSampling || result.thinkingBudget !== undefined;
+  if (params.temperature !== undefined) {
+    if (samplingLocked) {
+      adjustments.push(`Temperature is ignored for ${modelName}${result.thinkingBudget ? ' with thinking enabled' : ''}`);
+    } else {
+      result.temperature = clamp(params.temperature, 0, maxTemperature);
+      if (result.temperature !== params.temperature) {
+        adjustments.push(`Temperature clamped to ${result.temperature}`);
+      }
+    }
+  }
+  if (params.topP !== undefined) {
+    if (samplingLocked) {
+      adjustments.push(`Top P is ignored for ${modelName}${result.thinkingBudget ? ' with thinking enabled' : ''}`);
+    } else {
+      result.topP = clamp(params.topP, 0, 1);
+      if (result.topP !== params.topP) {
+        adjustments.push(`Top P clamped to ${result.topP}`);
+      }
+    }
+  }
+
+  if (params.maxTokens !== undefined) {
+    const limit = capabilities?.maxTokens || Number.MAX_SAFE_INTEGER;
+    result.maxTokens = clamp(Math.floor(params.maxTokens), 1, limit);
+    if (result.maxTokens !== params.maxTokens) {
+      adjustments.push(`Max output tokens clamped to ${result.maxTokens}`);
+    }
+  }
+
+  // The thinking budget is spent out of max tokens, so leave room for the answer on top of it
+  if (result.thinkingBudget !== undefined) {
+    const limit = capabilities?.maxTokens || Number.MAX_SAFE_INTEGER;
+    const maxTokens = Math.min((result.maxTokens || DEFAULT_GENERATION_PARAMS.maxTokens!) + result.thinkingBudget, limit);
+    result.maxTokens = maxTokens;
+
+    if (result.thinkingBudget >= maxTokens) {
+      const budget = maxTokens - 1;
+      if (budget < MIN_THINKING_BUDGET) {
+        adjustments.push(`Thinking disabled, ${modelName} cannot fit the minimum budget`);
+        delete result.thinkingBudget;
+      } else {
+        adjustments.push(`Thinking budget reduced to ${budget} to fit the output limit`);
+        result.thinkingBudget = budget;
+      }
+    }
+  }
+
+  return { params: result, adjustments };
+}
+
+// Short summary for message footers, e.g. "T 0.7 · max 1000 · effort high"
+export function formatGenerationParams(params: GenerationParams): string {
+  const parts: string[] = [];
+  if (params.temperature !== undefined) parts.push(`T ${params.temperature}`);
+  if (params.topP !== undefined) parts.push(`top-p ${params.topP}`);
+  if (params.maxTokens !== undefined) parts.push(`max ${params.maxTokens}`);
+  if (params.reasoningEffort) parts.push(`effort ${params.reasoningEffort}`);
+  if (params.thinkingBudget) parts.push(`thinking ${params.thinkingBudget}`);
+  return parts.join(' · ');
+}
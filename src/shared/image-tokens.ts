@@ -0,0 +1,94 @@
+/**
+ * Image token estimation
+ * Each provider bills images by its own formula over the image's pixel size, so a
+ * screenshot can cost anywhere from a few hundred to several thousand input tokens.
+ * Formulas follow the providers' vision documentation.
+ */
+
+import { getProviderDefinition } from './providers';
+import { modelSupportsVision } from './vision';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Used for images whose size wasn't recorded or whose file is gone: a typical screen selection
+export const UNKNOWN_IMAGE_SIZE: ImageSize = { width: 1024, height: 768 };
+
+// Scale down, never up, until the image fits the box
+function fitWithin(size: ImageSize, maxWidth: number, maxHeight: number): ImageSize {
+  const scale = Math.min(1, maxWidth / size.width, maxHeight / size.height);
+  return { width: size.width * scale, height: size.height * scale };
+}
+
+// OpenAI high detail: fit in 2048x2048, shrink the shortest side to 768, then bill 512px tiles
+function openAITileTokens(size: ImageSize, baseTokens: number, tileTokens: number): number {
+  let { width, height } = fitWithin(size, 2048, 2048);
+  const shortestSide = Math.min(width, height);
+  if (shortestSide > 768) {
+    width = width * 768 / shortestSide;
+    height = height * 768 / shortestSide;
+  }
+  return baseTokens + tileTokens * Math.ceil(width / 512) * Math.ceil(height / 512);
+}
+
+// OpenAI's newer small models: 32px patches capped at 1536, times a per-model multiplier
+function openAIPatchTokens(size: ImageSize, multiplier: number): number {
+  let { width, height } = size;
+  const patches = Math.ceil(width / 32) * Math.ceil(height / 32);
+  if (patches > 1536) {
+    const scale = Math.sqrt(1536 * 32 * 32 / (width * height));
+    width *= scale;
+    height *= scale;
+  }
+  return Math.ceil(Math.min(Math.ceil(width / 32) * Math.ceil(height / 32), 1536) * multiplier);
+}
+
+// Most specific prefix first
+const OPENAI_IMAGE_RATES: Array<{ prefix: string; tokens: (size: ImageSize) => number }> = [
+  { prefix: 'gpt-4.1-mini', tokens: size => openAIPatchTokens(size, 1.62) },
+  { prefix: 'gpt-4.1-nano', tokens: size => openAIPatchTokens(size, 2.46) },
+  { prefix: 'o4-mini', tokens: size => openAIPatchTokens(size, 1.72) },
+  { prefix: 'gpt-4o-mini', tokens: size => openAITileTokens(size, 2833, 5667) },
+  { prefix: 'gpt-5', tokens: size => openAITileTokens(size, 70, 140) },
+  { prefix: 'o1', tokens: size => openAITileTokens(size, 75, 150) },
+  { prefix: 'o3', tokens: size => openAITileTokens(size, 75, 150) }
+];
+
+function openAIImageTokens(size: ImageSize, modelId: string): number {
+  const rate = OPENAI_IMAGE_RATES.find(({ prefix }) => modelId.startsWith(prefix));
+  return rate ? rate.tokens(size) : openAITileTokens(size, 85, 170);
+}
+
+// Anthropic: images are shrunk to a 1568px long edge, then cost width * height / 750, at most ~1600
+function anthropicImageTokens(size: ImageSize): number {
+  const { width, height } = fitWithin(size, 1568, 1568);
+  return Math.min(Math.ceil(width * height / 750), 1600);
+}
+
+// Gemini: small images are one 258 token tile, larger ones are cut into 768px tiles of 258 each
+function geminiImageTokens(size: ImageSize): number {
+  if (size.width <= 384 && size.height <= 384) return 258;
+  return 258 * Math.ceil(size.width / 768) * Math.ceil(size.height / 768);
+}
+
+// Input tokens one image costs on a model; text-only models never receive it
+export function estimateImageTokens(size: ImageSize | undefined, providerId: string, modelId: string): number {
+  const definition = getProviderDefinition(providerId);
+  const id = definition?.id || providerId;
+  // Saved replies record the model's display name
+  const model = definition?.models.find(m => m.name === modelId)?.id || modelId;
+  if (!modelSupportsVision(id, model)) return 0;
+
+  const imageSize = size && size.width > 0 && size.height > 0 ? size : UNKNOWN_IMAGE_SIZE;
+  switch (id) {
+    case 'claude':
+      return anthropicImageTokens(imageSize);
+    case 'gemini':
+      return geminiImageTokens(imageSize);
+    default:
+      // OpenAI-compatible servers mostly mirror OpenAI's tiling
+      return openAIImageTokens(imageSize, model.toLowerCase());
+  }
+}
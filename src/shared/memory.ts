@@ -0,0 +1,117 @@
+/**
+ * Long-term memory
+ * Messages from every chat are embedded into an index, and the memory strategy sends the
+ * past snippets closest to a request as context alongside the chat's recent messages.
+ * The on-device embedder is a hashed bag of words: it needs no model download or API key,
+ * and matches on shared vocabulary rather than meaning. A provider embedding model can be
+ * configured instead for semantic matches.
+ */
+
+import type { MemorySource } from './types';
+
+// Vectors from different embedders can't be compared, so the index keeps them apart by this ID
+export const LOCAL_EMBEDDER = 'local:hashed-512';
+export const DEFAULT_MEMORY_TOP_K = 5;
+// Below this similarity a snippet shares little more than common words with the request
+export const MIN_MEMORY_SCORE = 0.2;
+const LOCAL_DIMENSIONS = 512;
+const SNIPPET_LENGTH = 500;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'her', 'was', 'one', 'our',
+  'out', 'has', 'had', 'his', 'how', 'its', 'may', 'new', 'now', 'see', 'way', 'who', 'did', 'get',
+  'let', 'say', 'she', 'too', 'use', 'that', 'with', 'have', 'this', 'will', 'your', 'from', 'they',
+  'been', 'were', 'what', 'when', 'which', 'their', 'there', 'would', 'could', 'should', 'about',
+  'into', 'than', 'then', 'them', 'these', 'those', 'some', 'just', 'also', 'only', 'very', 'here',
+  'does', 'like', 'want', 'need', 'know', 'is', 'it', 'in', 'on', 'of', 'to', 'a', 'an', 'as', 'at',
+  'be', 'by', 'do', 'if', 'me', 'my', 'no', 'or', 'so', 'up', 'we', 'i'
+]);
+
+// FNV-1a, enough to spread words over the vector's dimensions
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Strip common English endings so "crashes" and "crashing" meet at "crash"
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith('es')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+// Scale a vector to unit length, so cosine similarity is a dot product
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+  const result = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < result.length; i++) norm += result[i] * result[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) result[i] /= norm;
+  }
+  return result;
+}
+
+// Words and word pairs hashed into a fixed-size vector, with a hashed sign so collisions
+// cancel out instead of adding up. Repeated words count logarithmically.
+export function embedLocally(text: string): Float32Array {
+  const words = tokenize(text);
+  const counts = new Map<string, number>();
+  words.forEach((word, i) => {
+    counts.set(word, (counts.get(word) || 0) + 1);
+    if (i > 0) counts.set(`${words[i - 1]} ${word}`, (counts.get(`${words[i - 1]} ${word}`) || 0) + 0.5);
+  });
+
+  const vector = new Float32Array(LOCAL_DIMENSIONS);
+  counts.forEach((count, feature) => {
+    const hash = hashFeature(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % LOCAL_DIMENSIONS] += sign * (1 + Math.log(count));
+  });
+  return normalizeVector(vector);
+}
+
+// Both vectors must already be unit length; vectors of different sizes never match
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+// What is embedded and recalled: the message, and the description of its screenshot when it has one
+export function buildMemoryText(content: string, imageDescription?: string): string {
+  return imageDescription ? `${content}\n[Screenshot: ${imageDescription}]` : content;
+}
+
+// The part of a message the model is shown, cut at a word boundary
+export function buildMemorySnippet(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (text.length <= SNIPPET_LENGTH) return text;
+  const cut = text.lastIndexOf(' ', SNIPPET_LENGTH);
+  return `${text.slice(0, cut > SNIPPET_LENGTH / 2 ? cut : SNIPPET_LENGTH)}…`;
+}
+
+// Sent ahead of the chat's own instructions; numbered so the model can tell snippets apart
+export function buildMemoryPrompt(sources: MemorySource[]): string {
+  const lines = sources.map((source, i) =>
+    `[${i + 1}] From "${source.chatTitle}" (${source.timestamp.slice(0, 10)}), ${source.role}: ${source.snippet}`
+  );
+  return [
+    'Notes recalled from the user\'s earlier conversations. Use them when they are relevant to the request and ignore them otherwise; they may be out of date.',
+    ...lines
+  ].join('\n');
+}
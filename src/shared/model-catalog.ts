@@ -0,0 +1,82 @@
+/**
+ * Model catalog merging
+ * Providers list the models an account can use, but only report IDs (and sometimes
+ * a display name). Those lists are combined with the metadata shipped in the provider
+ * definitions, which stays the source of truth for vision, context size and pricing.
+ */
+
+import type { ModelInfo } from './models';
+import type { ProviderDefinition } from './providers/types';
+
+// Cached catalogs are refreshed in the background once they are older than this
+export const MODEL_CATALOG_TTL_MS = 24 * 60 * 60 * 1000;
+
+// A model as reported by a provider's list-models endpoint
+export interface RemoteModel {
+  id: string;
+  name?: string; // Display name, when the provider reports one
+}
+
+export interface ModelCatalog {
+  providerId: string;
+  models: ModelInfo[];
+  source: 'builtin' | 'remote' | 'cache'; // builtin is the list shipped with the app
+  refreshedAt?: string; // When the models were last listed from the provider
+  error?: string; // Why the last refresh failed, if it did
+}
+
+// Dated snapshots ("gpt-4.1-2025-04-14") and aliases ("-latest") share their base model's metadata
+const SNAPSHOT_SUFFIX = /^-(\d{4}-\d{2}-\d{2}|\d{8}|\d{4}|latest)$/;
+
+// Catalog entry for a model ID, matching snapshots of a listed model to it
+export function findCatalogModel(models: ModelInfo[], modelId: string): ModelInfo | undefined {
+  const exact = models.find(model => model.id === modelId);
+  if (exact) return exact;
+
+  return models
+    .filter(model => modelId.startsWith(model.id) && SNAPSHOT_SUFFIX.test(modelId.slice(model.id.length)))
+    .sort((a, b) => b.id.length - a.id.length)[0];
+}
+
+// Per-1K rates from the pricing table, shown per 1M like the shipped catalog
+const formatRate = (perThousand: number) => `$${(perThousand * 1000).toFixed(2)}/1M`;
+
+// Best-effort metadata for a model the shipped catalog doesn't know
+function describeUnlistedModel(definition: ProviderDefinition, remote: RemoteModel): ModelInfo {
+  const rates = definition.pricing[remote.id];
+  return {
+    id: remote.id,
+    name: remote.name || remote.id,
+    description: `Listed by ${definition.vendor}`,
+    pricing: rates
+      ? { input: formatRate(rates.input), output: formatRate(rates.output) }
+      : { input: 'Unknown', output: 'Unknown' },
+    capabilities: {
+      vision: definition.capabilities.vision,
+      maxTokens: 4096
+    }
+  };
+}
+
+/**
+ * Combine a provider's model list with local metadata. Known models keep the shipped
+ * order and metadata (snapshots inherit it under their own ID); models the app doesn't
+ * know yet follow, sorted by ID. Shipped models the account can't use are dropped.
+ */
+export function mergeModelCatalog(definition: ProviderDefinition, remote: RemoteModel[]): ModelInfo[] {
+  const remoteIds = new Set(remote.map(model => model.id));
+  const known = definition.models.filter(model => remoteIds.has(model.id));
+  const knownIds = new Set(known.map(model => model.id));
+
+  const unlisted = remote
+    .filter(model => !knownIds.has(model.id))
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(model => {
+      const base = findCatalogModel(definition.models, model.id);
+      return base
+        ? { ...base, id: model.id, name: model.name || `${base.name} (${model.id.slice(base.id.length + 1)})` }
+        : describeUnlistedModel(definition, model);
+    });
+
+  return [...known, ...unlisted];
+}
@@ -0,0 +1,143 @@
+import { ProviderDefinition } from './types';
+
+export const claudeProvider: ProviderDefinition = {
+  id: 'claude',
+  name: 'Claude',
+  vendor: 'Anthropic',
+  color: 'text-orange-400',
+  apiKeySetting: 'claudeApiKey',
+  envVar: 'CLAUDE_API_KEY',
+  apiKeyPlaceholder: 'your_claude_api_key_here',
+  defaultModel: 'claude-3-7-sonnet-20250219',
+  capabilities: {
+    vision: true,
+    streaming: true,
+    maxTemperature: 1,
+    toolCalling: true
+  },
+  // Cache reads cost 10% of input, writes 25% more (5 minute cache)
+  cachePricing: {
+    read: 0.1,
+    write: 1.25
+  },
+  models: [
+    {
+      id: 'claude-sonnet-4-5-20250929',
+      name: 'Claude Sonnet 4.5',
+      description: 'Best model for agents and coding',
+      pricing: {
+        input: '$3.00/1M',
+        output: '$15.00/1M',
+        context: '200k tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 64000,
+        reasoning: 'thinking'
+      }
+    },
+    {
+      id: 'claude-haiku-4-5-20251001',
+      name: 'Claude Haiku 4.5',
+      description: 'Fast, near-frontier model',
+      pricing: {
+        input: '$1.00/1M',
+        output: '$5.00/1M',
+        context: '200k tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 64000,
+        reasoning: 'thinking'
+      }
+    },
+    {
+      id: 'claude-3-7-sonnet-20250219',
+      name: 'Claude Sonnet 3.7',
+      description: 'Hybrid reasoning model',
+      pricing: {
+        input: '$3.00/1M',
+        output: '$15.00/1M',
+        context: '200k tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 8192,
+        reasoning: 'thinking'
+      }
+    },
+    {
+      id: 'claude-sonnet-4-20250514',
+      name: 'Claude Sonnet 4',
+      description: 'Advanced reasoning model',
+      pricing: {
+        input: '$3.00/1M',
+        output: '$15.00/1M',
+        context: '200k tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 8192,
+        reasoning: 'thinking'
+      }
+    },
+    {
+      id: 'claude-opus-4-1-20250805',
+      name: 'Claude Opus 4.1',
+      description: 'Most powerful, highest quality',
+      pricing: {
+        input: '$15.00/1M',
+        output: '$75.00/1M',
+        context: '200k tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 8192,
+        reasoning: 'thinking'
+      }
+    },
+    {
+      id: 'claude-opus-4-20250514',
+      name: 'Claude Opus 4',
+      description: 'High quality, creative model',
+      pricing: {
+        input: '$15.00/1M',
+        output: '$75.00/1M',
+        context: '200k tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 8192,
+        reasoning: 'thinking'
+      }
+    },
+    {
+      id: 'claude-3-5-haiku-20241022',
+      name: 'Claude Haiku 3.5',
+      description: 'Fast, cost-effective model',
+      pricing: {
+        input: '$0.80/1M',
+        output: '$4.00/1M',
+        context: '200k tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 4096
+      }
+    }
+  ],
+  pricing: {
+    'claude-sonnet-4-5-20250929': { input: 0.003, output: 0.015 },
+    'claude-haiku-4-5-20251001': { input: 0.001, output: 0.005 },
+    'claude-opus-4-1-20250805': { input: 0.015, output: 0.075 },
+    'claude-opus-4-20250514': { input: 0.015, output: 0.075 },
+    'claude-sonnet-4-20250514': { input: 0.003, output: 0.015 },
+    'claude-3-7-sonnet-20250219': { input: 0.003, output: 0.015 },
+    'claude-3-5-sonnet-20241022': { input: 0.003, output: 0.015 },
+    'claude-3-5-sonnet-20240620': { input: 0.003, output: 0.015 },
+    'claude-3-5-haiku-20241022': { input: 0.001, output: 0.005 },
+    'claude-3-opus-20240229': { input: 0.015, output: 0.075 },
+    'claude-3-sonnet-20240229': { input: 0.003, output: 0.015 },
+    'claude-3-haiku-20240307': { input: 0.00025, output: 0.00125 }
+  }
+};
@@ -0,0 +1,60 @@
+import { ProviderDefinition } from './types';
+
+export const deepseekProvider: ProviderDefinition = {
+  id: 'deepseek',
+  name: 'DeepSeek',
+  vendor: 'DeepSeek',
+  color: 'text-purple-400',
+  apiKeySetting: 'deepseekApiKey',
+  envVar: 'DEEPSEEK_API_KEY',
+  apiKeyPlaceholder: 'your_deepseek_api_key_here',
+  defaultModel: 'deepseek-chat',
+  capabilities: {
+    vision: false,
+    streaming: true,
+    maxTemperature: 2,
+    toolCalling: true
+  },
+  // Context cache hits cost a tenth of a miss, caching itself is free
+  cachePricing: {
+    read: 0.1,
+    write: 1
+  },
+  models: [
+    {
+      id: 'deepseek-chat',
+      name: 'DeepSeek Chat',
+      description: 'General conversation, fast',
+      pricing: {
+        input: '$0.07/1M',
+        output: '$1.68/1M',
+        context: '128k tokens'
+      },
+      capabilities: {
+        vision: false,
+        maxTokens: 4096
+      }
+    },
+    {
+      id: 'deepseek-reasoner',
+      name: 'DeepSeek Reasoner',
+      description: 'Advanced reasoning, slower',
+      pricing: {
+        input: '$0.55/1M',
+        output: '$2.19/1M',
+        context: '128k tokens'
+      },
+      capabilities: {
+        vision: false,
+        maxTokens: 8192,
+        fixedSampling: true,
+        toolCalling: false
+      }
+    }
+  ],
+  pricing: {
+    'deepseek-chat': { input: 0.00014, output: 0.00028 },
+    'deepseek-reasoner': { input: 0.00055, output: 0.00219 },
+    'deepseek-coder': { input: 0.00014, output: 0.00028 }
+  }
+};
@@ -0,0 +1,94 @@
+import { ProviderDefinition } from './types';
+
+export const geminiProvider: ProviderDefinition = {
+  id: 'gemini',
+  name: 'Gemini',
+  vendor: 'Google',
+  color: 'text-sky-400',
+  apiKeySetting: 'geminiApiKey',
+  envVar: 'GEMINI_API_KEY',
+  apiKeyPlaceholder: 'your_gemini_api_key_here',
+  defaultModel: 'gemini-2.5-flash',
+  capabilities: {
+    vision: true,
+    streaming: true,
+    maxTemperature: 2,
+    toolCalling: true
+  },
+  // Implicit cache hits on 2.5 models cost a quarter of input, caching itself is free
+  cachePricing: {
+    read: 0.25,
+    write: 1
+  },
+  models: [
+    {
+      id: 'gemini-2.5-pro',
+      name: 'Gemini 2.5 Pro',
+      description: 'Most capable, strong on dense screenshots',
+      pricing: {
+        input: '$1.25/1M',
+        output: '$10.00/1M',
+        context: '1M tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 65536,
+        reasoning: 'thinking'
+      }
+    },
+    {
+      id: 'gemini-2.5-flash',
+      name: 'Gemini 2.5 Flash',
+      description: 'Fast and cheap with thinking',
+      pricing: {
+        input: '$0.30/1M',
+        output: '$2.50/1M',
+        context: '1M tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 65536,
+        reasoning: 'thinking'
+      }
+    },
+    {
+      id: 'gemini-2.5-flash-lite',
+      name: 'Gemini 2.5 Flash-Lite',
+      description: 'Lowest cost, high volume',
+      pricing: {
+        input: '$0.10/1M',
+        output: '$0.40/1M',
+        context: '1M tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 65536
+      }
+    },
+    {
+      id: 'gemini-2.0-flash',
+      name: 'Gemini 2.0 Flash',
+      description: 'Previous generation, fast',
+      pricing: {
+        input: '$0.10/1M',
+        output: '$0.40/1M',
+        context: '1M tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 8192
+      }
+    }
+  ],
+  // Pro is billed at the lower rate for prompts up to 200k tokens
+  pricing: {
+    'gemini-2.5-pro': { input: 0.00125, output: 0.01 },
+    'gemini-2.5-flash': { input: 0.0003, output: 0.0025 },
+    'gemini-2.5-flash-lite': { input: 0.0001, output: 0.0004 },
+    'gemini-2.0-flash': { input: 0.0001, output: 0.0004 },
+    'gemini-2.0-flash-lite': { input: 0.000075, output: 0.0003 }
+  },
+  embeddingModels: [
+    { id: 'gemini-embedding-001', name: 'Gemini Embedding', price: 0.00015, maxInputTokens: 2048 }
+  ]
+};
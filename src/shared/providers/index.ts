@@ -0,0 +1,67 @@
+import { ProviderDefinition } from './types';
+import type { ModelInfo } from '../models';
+import { findCatalogModel } from '../model-catalog';
+import { openaiProvider } from './openai';
+import { claudeProvider } from './claude';
+import { deepseekProvider } from './deepseek';
+import { geminiProvider } from './gemini';
+import { openaiCompatibleProvider } from './openai-compatible';
+import { mockProvider } from './mock';
+
+export * from './types';
+
+// Registered providers, in the order they are shown in the UI.
+// To add a provider: create a definition here and a backend in src/main/providers.
+export const PROVIDER_DEFINITIONS: ProviderDefinition[] = [
+  openaiProvider,
+  claudeProvider,
+  deepseekProvider,
+  geminiProvider,
+  openaiCompatibleProvider,
+  mockProvider
+];
+
+export function getProviderDefinitions(): ProviderDefinition[] {
+  return PROVIDER_DEFINITIONS;
+}
+
+export function getProviderDefinition(providerId: string): ProviderDefinition | undefined {
+  if (!providerId) return undefined;
+  return PROVIDER_DEFINITIONS.find(provider => provider.id === providerId.toLowerCase());
+}
+
+export function getProviderIds(): string[] {
+  return PROVIDER_DEFINITIONS.map(provider => provider.id);
+}
+
+// Map an API model ID to its display name, falling back to the ID itself
+export function getModelDisplayName(providerId: string, modelId: string): string {
+  const model = getProviderDefinition(providerId)?.models.find(m => m.id === modelId);
+  return model ? model.name : modelId;
+}
+
+// Catalog entry for a model (snapshots resolve to their base model); undefined for discovered or unlisted models
+export function getModelInfo(providerId: string, modelId: string): ModelInfo | undefined {
+  const provider = getProviderDefinition(providerId);
+  if (!provider || provider.discoverModels) return undefined;
+  return findCatalogModel(provider.models, modelId);
+}
+
+// Read the API key for a provider from settings, ignoring .env placeholders
+export function getProviderApiKey(settings: object, providerId: string): string | undefined {
+  const provider = getProviderDefinition(providerId);
+  if (!provider) return undefined;
+
+  const key = (settings as Record<string, any>)[provider.apiKeySetting];
+  if (!key || key === provider.apiKeyPlaceholder) return undefined;
+  return key;
+}
+
+// Read the endpoint for providers with a configurable base URL
+export function getProviderBaseUrl(settings: object, providerId: string): string | undefined {
+  const provider = getProviderDefinition(providerId);
+  if (!provider?.baseUrlSetting) return undefined;
+
+  const baseUrl = (settings as Record<string, any>)[provider.baseUrlSetting];
+  return baseUrl || provider.defaultBaseUrl;
+}
@@ -0,0 +1,76 @@
+import { ProviderDefinition } from './types';
+
+// Offline stand-in that answers without a network or API key, for exercising the send
+// pipeline, optimizer strategies and cost bookkeeping. Replies are deterministic and
+// billed at round made-up rates so costs are easy to check by hand.
+export const mockProvider: ProviderDefinition = {
+  id: 'mock',
+  name: 'Mock',
+  vendor: 'Mock (offline testing)',
+  color: 'text-gray-400',
+  apiKeySetting: 'mockApiKey',
+  envVar: 'MOCK_API_KEY',
+  apiKeyPlaceholder: 'your_mock_api_key_here',
+  apiKeyOptional: true,
+  defaultModel: 'mock-echo',
+  capabilities: {
+    vision: true,
+    streaming: true,
+    maxTemperature: 2,
+    toolCalling: true
+  },
+  cachePricing: {
+    read: 0.1,
+    write: 1
+  },
+  models: [
+    {
+      id: 'mock-echo',
+      name: 'Mock Echo',
+      description: 'Repeats the prompt with what it was sent',
+      pricing: {
+        input: '$1.00/1M',
+        output: '$2.00/1M',
+        context: '128k tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 4096
+      }
+    },
+    {
+      id: 'mock-scripted',
+      name: 'Mock Scripted',
+      description: 'Plays back the scripted replies from Settings, text only',
+      pricing: {
+        input: '$1.00/1M',
+        output: '$2.00/1M',
+        context: '128k tokens'
+      },
+      capabilities: {
+        vision: false,
+        maxTokens: 4096
+      }
+    },
+    {
+      id: 'mock-reasoner',
+      name: 'Mock Reasoner',
+      description: 'Echoes with a reasoning trace first',
+      pricing: {
+        input: '$1.00/1M',
+        output: '$2.00/1M',
+        context: '128k tokens'
+      },
+      capabilities: {
+        vision: false,
+        maxTokens: 8192,
+        reasoning: 'thinking'
+      }
+    }
+  ],
+  pricing: {
+    'mock-echo': { input: 0.001, output: 0.002 },
+    'mock-scripted': { input: 0.001, output: 0.002 },
+    'mock-reasoner': { input: 0.001, output: 0.002 }
+  }
+};
@@ -0,0 +1,27 @@
+import { ProviderDefinition } from './types';
+
+// Any server speaking the OpenAI chat completions API: Ollama, llama.cpp, LM Studio, vLLM...
+export const openaiCompatibleProvider: ProviderDefinition = {
+  id: 'openai-compatible',
+  name: 'Local',
+  vendor: 'OpenAI-compatible (Local)',
+  color: 'text-cyan-400',
+  apiKeySetting: 'openaiCompatibleApiKey',
+  envVar: 'OPENAI_COMPATIBLE_API_KEY',
+  apiKeyPlaceholder: 'your_openai_compatible_api_key_here',
+  apiKeyOptional: true,
+  baseUrlSetting: 'openaiCompatibleBaseUrl',
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  discoverModels: true,
+  defaultModel: '',
+  capabilities: {
+    vision: true,
+    streaming: true,
+    maxTemperature: 2,
+    toolCalling: true
+  },
+  models: [],
+  pricing: {},
+  // Self-hosted models have no per-token cost
+  defaultPricing: { input: 0, output: 0 }
+};
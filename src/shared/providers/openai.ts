@@ -0,0 +1,211 @@
+import { ProviderDefinition } from './types';
+
+export const openaiProvider: ProviderDefinition = {
+  id: 'openai',
+  name: 'OpenAI',
+  vendor: 'OpenAI',
+  color: 'text-green-400',
+  apiKeySetting: 'openaiApiKey',
+  envVar: 'OPENAI_API_KEY',
+  apiKeyPlaceholder: 'your_openai_api_key_here',
+  defaultModel: 'gpt-4o-mini',
+  capabilities: {
+    vision: true,
+    streaming: true,
+    maxTemperature: 2,
+    toolCalling: true
+  },
+  // Cached prompt prefixes are half price, caching itself is free
+  cachePricing: {
+    read: 0.5,
+    write: 1
+  },
+  models: [
+    {
+      id: 'gpt-4.1',
+      name: 'GPT-4.1',
+      description: 'Flagship for coding and long documents',
+      pricing: {
+        input: '$2.00/1M',
+        output: '$8.00/1M',
+        context: '1M tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 32768
+      }
+    },
+    {
+      id: 'gpt-4.1-mini',
+      name: 'GPT-4.1 Mini',
+      description: 'Balanced speed and intelligence',
+      pricing: {
+        input: '$0.40/1M',
+        output: '$1.60/1M',
+        context: '1M tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 32768
+      }
+    },
+    {
+      id: 'gpt-4.1-nano',
+      name: 'GPT-4.1 Nano',
+      description: 'Fastest and cheapest GPT-4.1 model',
+      pricing: {
+        input: '$0.10/1M',
+        output: '$0.40/1M',
+        context: '1M tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 32768
+      }
+    },
+    {
+      id: 'gpt-4o',
+      name: 'GPT-4o',
+      description: 'Most capable, multimodal flagship model',
+      pricing: {
+        input: '$2.50/1M',
+        output: '$10.00/1M',
+        context: '128k tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 4096
+      }
+    },
+    {
+      id: 'gpt-4o-mini',
+      name: 'GPT-4o Mini',
+      description: 'Affordable, intelligent small model',
+      pricing: {
+        input: '$0.15/1M',
+        output: '$0.60/1M',
+        context: '128k tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 4096
+      }
+    },
+    {
+      id: 'o3-mini',
+      name: 'o3-mini',
+      description: 'Fast reasoning model, adjustable effort',
+      pricing: {
+        input: '$1.10/1M',
+        output: '$4.40/1M',
+        context: '200k tokens'
+      },
+      capabilities: {
+        vision: false,
+        maxTokens: 100000,
+        reasoning: 'effort',
+        fixedSampling: true
+      }
+    },
+    {
+      id: 'o3',
+      name: 'o3',
+      description: 'Most capable reasoning model, reads images',
+      pricing: {
+        input: '$2.00/1M',
+        output: '$8.00/1M',
+        context: '200k tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 100000,
+        reasoning: 'effort',
+        fixedSampling: true
+      }
+    },
+    {
+      id: 'o4-mini',
+      name: 'o4-mini',
+      description: 'Fast reasoning model, reads images',
+      pricing: {
+        input: '$1.10/1M',
+        output: '$4.40/1M',
+        context: '200k tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 100000,
+        reasoning: 'effort',
+        fixedSampling: true
+      }
+    },
+    {
+      id: 'gpt-4-turbo',
+      name: 'GPT-4 Turbo',
+      description: 'Previous generation flagship',
+      pricing: {
+        input: '$10.00/1M',
+        output: '$30.00/1M',
+        context: '128k tokens'
+      },
+      capabilities: {
+        vision: true,
+        maxTokens: 4096
+      }
+    }
+  ],
+  pricing: {
+    'gpt-4.1': { input: 0.002, output: 0.008 },
+    'gpt-4.1-mini': { input: 0.0004, output: 0.0016 },
+    'gpt-4.1-nano': { input: 0.0001, output: 0.0004 },
+    'o3': { input: 0.002, output: 0.008 },
+    'o4-mini': { input: 0.0011, output: 0.0044 },
+    'o1': { input: 0.015, output: 0.06 },
+    'gpt-4o': { input: 0.0025, output: 0.01 },
+    'gpt-4o-2024-08-06': { input: 0.0025, output: 0.01 },
+    'gpt-4o-2024-05-13': { input: 0.005, output: 0.015 },
+    'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
+    'gpt-4o-mini-2024-07-18': { input: 0.00015, output: 0.0006 },
+    'o1-preview': { input: 0.015, output: 0.06 },
+    'o1-preview-2024-09-12': { input: 0.015, output: 0.06 },
+    'o1-mini': { input: 0.003, output: 0.012 },
+    'o1-mini-2024-09-12': { input: 0.003, output: 0.012 },
+    'o3-mini': { input: 0.0011, output: 0.0044 },
+    'gpt-4-turbo': { input: 0.01, output: 0.03 },
+    'gpt-4-turbo-2024-04-09': { input: 0.01, output: 0.03 },
+    'gpt-4': { input: 0.03, output: 0.06 },
+    'gpt-4-32k': { input: 0.06, output: 0.12 },
+    'gpt-4-0125-preview': { input: 0.01, output: 0.03 },
+    'gpt-4-1106-preview': { input: 0.01, output: 0.03 },
+    'gpt-4-vision-preview': { input: 0.01, output: 0.03 },
+    'gpt-3.5-turbo-0125': { input: 0.0005, output: 0.0015 },
+    'gpt-3.5-turbo-instruct': { input: 0.0015, output: 0.002 },
+    'gpt-3.5-turbo-1106': { input: 0.001, output: 0.002 },
+    'gpt-3.5-turbo-16k': { input: 0.003, output: 0.004 }
+  },
+  tierPricing: {
+    // Batch Processing (50% discount)
+    batch: {
+      'gpt-4o': { input: 0.00125, output: 0.005 },
+      'gpt-4o-mini': { input: 0.000075, output: 0.0003 },
+      'gpt-4-turbo': { input: 0.005, output: 0.015 },
+      'gpt-3.5-turbo': { input: 0.00025, output: 0.00075 }
+    },
+
+    // Flex Tier (varied rates)
+    flex: {
+      'gpt-4o': { input: 0.005, output: 0.02 },
+      'gpt-4o-mini': { input: 0.0003, output: 0.0012 }
+    },
+
+    // Priority Tier (higher rates for guaranteed capacity)
+    priority: {
+      'gpt-4o': { input: 0.0075, output: 0.03 },
+      'gpt-4o-mini': { input: 0.00045, output: 0.0018 }
+    }
+  },
+  embeddingModels: [
+    { id: 'text-embedding-3-small', name: 'Text Embedding 3 Small', price: 0.00002, maxInputTokens: 8191 },
+    { id: 'text-embedding-3-large', name: 'Text Embedding 3 Large', price: 0.00013, maxInputTokens: 8191 }
+  ]
+};
@@ -0,0 +1,57 @@
+import type { ModelInfo } from '../models';
+
+// Per 1K tokens, same unit as the rest of the token optimizer
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead?: number; // Input tokens read from the prompt cache; defaults to the input rate
+  cacheWrite?: number; // Input tokens written to the prompt cache; defaults to the input rate
+}
+
+// Prompt cache rates as multiples of a model's input rate
+export interface CachePricing {
+  read: number;
+  write: number;
+}
+
+// A model that turns text into vectors for the memory index, priced per 1K input tokens
+export interface EmbeddingModel {
+  id: string;
+  name: string;
+  price: number;
+  maxInputTokens: number; // Longer texts are rejected by the provider, so they're cut to fit
+}
+
+export interface ProviderCapabilities {
+  vision: boolean; // At least one model accepts images
+  streaming: boolean;
+  maxTemperature: number; // Upper bound of the provider's temperature range
+  toolCalling: boolean; // Accepts tool definitions and returns tool calls
+}
+
+/**
+ * Static description of an AI provider. This is pure data so it can be used
+ * from both the main process and the renderer; the network code lives in the
+ * matching backend under src/main/providers.
+ */
+export interface ProviderDefinition {
+  id: string;
+  name: string; // Short name used in message attribution and key labels
+  vendor: string; // Company name shown in the provider picker
+  color: string; // Tailwind text color class
+  apiKeySetting: string; // AppSettings field holding the key
+  envVar: string; // .env variable the key can be loaded from
+  apiKeyPlaceholder: string; // Placeholder value shipped in .env.example
+  apiKeyOptional?: boolean; // Local servers usually run without authentication
+  baseUrlSetting?: string; // AppSettings field holding a user-configured endpoint
+  defaultBaseUrl?: string;
+  discoverModels?: boolean; // Models are listed from the endpoint instead of `models`
+  defaultModel: string;
+  models: ModelInfo[];
+  pricing: Record<string, ModelPricing>;
+  defaultPricing?: ModelPricing; // Used for models missing from `pricing`
+  tierPricing?: Record<string, Record<string, ModelPricing>>;
+  cachePricing?: CachePricing; // Applied to every model of the provider
+  capabilities: ProviderCapabilities;
+  embeddingModels?: EmbeddingModel[]; // Providers without an embeddings API leave this out
+}
@@ -7,102 +7,71 @@
  * - Actual rates may vary and change over time
  * - There may be differences between our calculated costs and actual provider billing
  * - This is for estimation purposes only - always verify with provider's official pricing
- * - Rates can be easily updated in the PRICING_CONFIG below
+ * - Rates can be easily updated in the provider definitions (src/shared/providers)
  */
 
-import { Message } from './types';
+import { Message, TokenUsage } from './types';
+import { PROVIDER_DEFINITIONS, getProviderDefinition, CachePricing, ModelPricing } from './providers';
+import { findCatalogModel } from './model-catalog';
+import { estimateImageTokens } from './image-tokens';
 
 // ========================================
 // CONFIGURABLE PRICING (Updated: Sept 3, 2025)
 // ========================================
-// To update pricing: modify the values below
-// All prices are per 1K tokens unless otherwise specified
+// To update pricing: modify the `pricing` table of the provider definition
+// in src/shared/providers. All prices are per 1K tokens unless otherwise specified
+const DEFAULT_PRICING: ModelPricing = { input: 0.001, output: 0.002 };
+
 export const PRICING_CONFIG = {
   lastUpdated: '2025-09-03',
   disclaimer: 'Rates are estimates and may differ from actual provider billing',
-  
-  openai: {
-    // Standard Models
-    'gpt-4o': { input: 0.0025, output: 0.01 },
-    'gpt-4o-2024-08-06': { input: 0.0025, output: 0.01 },
-    'gpt-4o-2024-05-13': { input: 0.005, output: 0.015 },
-    'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
-    'gpt-4o-mini-2024-07-18': { input: 0.00015, output: 0.0006 },
-    'o1-preview': { input: 0.015, output: 0.06 },
-    'o1-preview-2024-09-12': { input: 0.015, output: 0.06 },
-    'o1-mini': { input: 0.003, output: 0.012 },
-    'o1-mini-2024-09-12': { input: 0.003, output: 0.012 },
-    'gpt-4-turbo': { input: 0.01, output: 0.03 },
-    'gpt-4-turbo-2024-04-09': { input: 0.01, output: 0.03 },
-    'gpt-4': { input: 0.03, output: 0.06 },
-    'gpt-4-32k': { input: 0.06, output: 0.12 },
-    'gpt-4-0125-preview': { input: 0.01, output: 0.03 },
-    'gpt-4-1106-preview': { input: 0.01, output: 0.03 },
-    'gpt-4-vision-preview': { input: 0.01, output: 0.03 },
-    'gpt-3.5-turbo-0125': { input: 0.0005, output: 0.0015 },
-    'gpt-3.5-turbo-instruct': { input: 0.0015, output: 0.002 },
-    'gpt-3.5-turbo-1106': { input: 0.001, output: 0.002 },
-    'gpt-3.5-turbo-16k': { input: 0.003, output: 0.004 },
-    
-    // Batch Processing (50% discount)
-    batch: {
-      'gpt-4o': { input: 0.00125, output: 0.005 },
-      'gpt-4o-mini': { input: 0.000075, output: 0.0003 },
-      'gpt-4-turbo': { input: 0.005, output: 0.015 },
-      'gpt-3.5-turbo': { input: 0.00025, output: 0.00075 }
-    },
-    
-    // Flex Tier (varied rates)
-    flex: {
-      'gpt-4o': { input: 0.005, output: 0.02 },
-      'gpt-4o-mini': { input: 0.0003, output: 0.0012 }
-    },
-    
-    // Priority Tier (higher rates for guaranteed capacity)
-    priority: {
-      'gpt-4o': { input: 0.0075, output: 0.03 },
-      'gpt-4o-mini': { input: 0.00045, output: 0.0018 }
-    }
-  },
-  
-  claude: {
-    'claude-3-5-sonnet-20241022': { input: 0.003, output: 0.015 },
-    'claude-3-5-sonnet-20240620': { input: 0.003, output: 0.015 },
-    'claude-3-5-haiku-20241022': { input: 0.001, output: 0.005 },
-    'claude-3-opus-20240229': { input: 0.015, output: 0.075 },
-    'claude-3-sonnet-20240229': { input: 0.003, output: 0.015 },
-    'claude-3-haiku-20240307': { input: 0.00025, output: 0.00125 }
-  },
-  
-  deepseek: {
-    'deepseek-chat': { input: 0.00014, output: 0.00028 },
-    'deepseek-coder': { input: 0.00014, output: 0.00028 }
-  }
+  providers: PROVIDER_DEFINITIONS.reduce((config, provider) => {
+    config[provider.id] = { ...provider.pricing, ...(provider.tierPricing || {}) };
+    return config;
+  }, {} as Record<string, Record<string, any>>),
+  cachePricing: PROVIDER_DEFINITIONS.reduce((config, provider) => {
+    if (provider.cachePricing) config[provider.id] = provider.cachePricing;
+    return config;
+  }, {} as Record<string, CachePricing>)
 };
 
 // Helper function to get pricing with fallback
-export function getModelPricing(provider: string, model: string, tier?: string) {
-  const providerPricing = PRICING_CONFIG[provider.toLowerCase() as keyof typeof PRICING_CONFIG];
+export function getModelPricing(provider: string, model: string, tier?: string): ModelPricing {
+  const definition = getProviderDefinition(provider);
   
-  if (!providerPricing || typeof providerPricing === 'string') {
+  if (!definition) {
     // Default fallback pricing
-    return { input: 0.001, output: 0.002 };
+    return DEFAULT_PRICING;
   }
   
-  // Check tier-specific pricing for OpenAI
-  if (provider.toLowerCase() === 'openai' && tier && tier !== 'standard') {
-    const tierPricing = (providerPricing as any)[tier];
+  // Prompt cache rates follow the model's input rate unless set explicitly
+  const withCacheRates = (pricing: ModelPricing): ModelPricing => ({
+    cacheRead: pricing.input * (definition.cachePricing?.read ?? 1),
+    cacheWrite: pricing.input * (definition.cachePricing?.write ?? 1),
+    ...pricing
+  });
+
+  // Check tier-specific pricing (batch, flex, priority)
+  if (tier && tier !== 'standard') {
+    const tierPricing = definition.tierPricing?.[tier];
     if (tierPricing && tierPricing[model]) {
-      return tierPricing[model];
+      return withCacheRates(tierPricing[model]);
     }
   }
   
-  // Standard model pricing
-  return (providerPricing as any)[model] || { input: 0.001, output: 0.002 };
+  // Standard model pricing; dated snapshots are billed like the model they belong to, and
+  // saved messages record the model's display name
+  const baseModel = findCatalogModel(definition.models, model) || definition.models.find(m => m.name === model);
+  return withCacheRates(
+    definition.pricing[model]
+      || (baseModel && definition.pricing[baseModel.id])
+      || definition.defaultPricing
+      || DEFAULT_PRICING
+  );
 }
 
 // Rough token estimation (1 token ≈ 4 characters for English text)
-// This is an approximation - actual token count varies by model and content
+// Fallback for messages the tokenizer worker hasn't counted (see src/main/token-counter.ts)
 export function estimateTokens(text: string): number {
   if (!text) return 0;
   
@@ -119,27 +88,35 @@ export function estimateTokens(text: string): number {
   return Math.ceil(baseTokens + markdownTokens + specialTokens);
 }
 
+// Input tokens of a message's image on the model it is sent to, by default the one that
+// wrote the message; user messages record no model, so pass the one about to receive them
+export function estimateMessageImageTokens(message: Message, provider?: string, model?: string): number {
+  if (!message.imagePath) return 0;
+  const providerId = provider || message.provider || 'openai';
+  const modelId = model || message.model || getProviderDefinition(providerId)?.defaultModel || '';
+  const size = message.imageWidth && message.imageHeight ? { width: message.imageWidth, height: message.imageHeight } : undefined;
+  return estimateImageTokens(size, providerId, modelId);
+}
+
 // Estimate tokens for a complete message including role and metadata
-export function estimateMessageTokens(message: Message): number {
+export function estimateMessageTokens(message: Message, provider?: string, model?: string): number {
   let total = 0;
   
   // Role tokens (system prompt equivalent)
   total += 10; // Base overhead per message
   
-  // Content tokens
-  total += estimateTokens(message.content);
+  // Content tokens, counted by the model's tokenizer when available
+  total += message.tokenCount ?? estimateTokens(message.content);
   
-  // Image tokens (if present) - rough estimate
-  if (message.imagePath) {
-    total += 85; // Base image token cost (varies by model)
-  }
+  // Image tokens, from the image's size and the provider's formula
+  total += estimateMessageImageTokens(message, provider, model);
   
   return total;
 }
 
 // Estimate total tokens for message array
-export function estimateChatTokens(messages: Message[]): number {
-  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+export function estimateChatTokens(messages: Message[], provider?: string, model?: string): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message, provider, model), 0);
 }
 
 // Token optimization strategies
@@ -150,11 +127,35 @@ export interface OptimizationResult {
   savedTokens: number;
   strategy: string;
   checkpoint?: Message; // Summary message if created
+  summarized?: Message[]; // The older messages the checkpoint replaces
+  summarySource?: 'model' | 'keywords'; // Whether the checkpoint is a cached model summary or the offline keyword one
+}
+
+// Cached model-written summary of exactly these messages, if there is one
+export type SummaryLookup = (messages: Message[]) => string | undefined;
+
+// The summarized range only moves in steps of this many messages, so a cached summary
+// keeps matching for several turns instead of changing with every new message
+const SUMMARY_STEP = 10;
+
+export const SUMMARY_PROMPT =
+  'Summarize the earlier part of a conversation so the summary can replace it as context for the rest of the chat. ' +
+  'Keep the concrete facts, decisions, conclusions, error messages, commands, code identifiers and open questions; ' +
+  'drop greetings and repetition. Write compact bullet points in the language of the conversation, without commentary.';
+
+// The summary request: instructions, then the messages as a plain transcript
+export function buildSummaryPrompt(messages: Message[]): string {
+  const transcript = messages.map(msg => {
+    const speaker = msg.provider === 'system' ? 'Earlier summary' : msg.role === 'user' ? 'User' : 'Assistant';
+    const image = msg.imagePath ? (msg.imageDescription ? `[Screenshot: ${msg.imageDescription}]\n` : '[Screenshot]\n') : '';
+    return `${speaker}: ${image}${msg.content}`;
+  }).join('\n\n');
+  return `${SUMMARY_PROMPT}\n\n<conversation>\n${transcript}\n</conversation>`;
 }
 
 // Rolling window optimization
-export function applyRollingWindow(messages: Message[], windowSize: number): OptimizationResult {
-  const originalTokens = estimateChatTokens(messages);
+export function applyRollingWindow(messages: Message[], windowSize: number, provider?: string, model?: string): OptimizationResult {
+  const originalTokens = estimateChatTokens(messages, provider, model);
   
   if (messages.length <= windowSize) {
     return {
@@ -167,7 +168,7 @@ export function applyRollingWindow(messages: Message[], windowSize: number): Opt
   }
   
   const optimizedMessages = messages.slice(-windowSize);
-  const optimizedTokens = estimateChatTokens(optimizedMessages);
+  const optimizedTokens = estimateChatTokens(optimizedMessages, provider, model);
   
   return {
     messages: optimizedMessages,
@@ -179,8 +180,8 @@ export function applyRollingWindow(messages: Message[], windowSize: number): Opt
 }
 
 // Smart summary optimization
-export function applySmartSummary(messages: Message[], threshold: number): OptimizationResult {
-  const originalTokens = estimateChatTokens(messages);
+export function applySmartSummary(messages: Message[], threshold: number, provider?: string, model?: string, findSummary?: SummaryLookup): OptimizationResult {
+  const originalTokens = estimateChatTokens(messages, provider, model);
   
   if (originalTokens <= threshold) {
     return {
@@ -192,10 +193,12 @@ export function applySmartSummary(messages: Message[], threshold: number): Optim
     };
   }
   
-  // Keep recent messages (30% or minimum 5 messages)
+  // Keep recent messages (30% or minimum 5 messages), more while the summarized range waits for its next step
   const keepCount = Math.max(5, Math.floor(messages.length * 0.3));
-  const recentMessages = messages.slice(-keepCount);
-  const messagesToSummarize = messages.slice(0, -keepCount);
+  const splitAt = messages.length - keepCount;
+  const summarizedCount = splitAt >= SUMMARY_STEP ? splitAt - splitAt % SUMMARY_STEP : Math.max(splitAt, 0);
+  const recentMessages = messages.slice(summarizedCount);
+  const messagesToSummarize = messages.slice(0, summarizedCount);
   
   if (messagesToSummarize.length === 0) {
     return {
@@ -207,8 +210,9 @@ export function applySmartSummary(messages: Message[], threshold: number): Optim
     };
   }
   
-  // Create summary message
-  const summaryContent = createMessageSummary(messagesToSummarize);
+  // Create summary message, from the model when one summarized these messages before
+  const modelSummary = findSummary?.(messagesToSummarize);
+  const summaryContent = modelSummary || createMessageSummary(messagesToSummarize);
   const summaryMessage: Message = {
     id: Date.now(), // Temporary ID
     chatId: messages[0]?.chatId || 0,
@@ -220,7 +224,7 @@ export function applySmartSummary(messages: Message[], threshold: number): Optim
   };
   
   const optimizedMessages = [summaryMessage, ...recentMessages];
-  const optimizedTokens = estimateChatTokens(optimizedMessages);
+  const optimizedTokens = estimateChatTokens(optimizedMessages, provider, model);
   
   return {
     messages: optimizedMessages,
@@ -228,7 +232,9 @@ export function applySmartSummary(messages: Message[], threshold: number): Optim
     optimizedTokens,
     savedTokens: originalTokens - optimizedTokens,
     strategy: 'smart-summary',
-    checkpoint: summaryMessage
+    checkpoint: summaryMessage,
+    summarized: messagesToSummarize,
+    summarySource: modelSummary ? 'model' : 'keywords'
   };
 }
 
@@ -236,16 +242,19 @@ export function applySmartSummary(messages: Message[], threshold: number): Optim
 export function applyRollingWithSummary(
   messages: Message[], 
   windowSize: number, 
-  summaryThreshold: number
+  summaryThreshold: number,
+  provider?: string,
+  model?: string,
+  findSummary?: SummaryLookup
 ): OptimizationResult {
-  const originalTokens = estimateChatTokens(messages);
+  const originalTokens = estimateChatTokens(messages, provider, model);
   
   // First apply rolling window
-  const rollingResult = applyRollingWindow(messages, windowSize);
+  const rollingResult = applyRollingWindow(messages, windowSize, provider, model);
   
   // If still over threshold, apply summary to the windowed messages
   if (rollingResult.optimizedTokens > summaryThreshold) {
-    return applySmartSummary(rollingResult.messages, summaryThreshold);
+    return applySmartSummary(rollingResult.messages, summaryThreshold, provider, model, findSummary);
   }
   
   return {
@@ -254,7 +263,7 @@ export function applyRollingWithSummary(
   };
 }
 
-// Create a concise summary of messages
+// Offline summary of messages from keywords and matched sentences, used until a model has summarized them
 function createMessageSummary(messages: Message[]): string {
   const userMessages = messages.filter(m => m.role === 'user');
   const assistantMessages = messages.filter(m => m.role === 'assistant');
@@ -331,12 +340,12 @@ function extractKeywords(text: string): string[] {
 }
 
 // Cost estimation with configurable pricing
-export function estimateCost(tokens: number, provider: string, model: string, tokenType: 'input' | 'output' = 'input', tier?: string): number {
+export function estimateCost(tokens: number, provider: string, model: string, tokenType: 'input' | 'output' | 'cacheRead' | 'cacheWrite' = 'input', tier?: string): number {
   if (tokens <= 0) return 0;
   
   // Get pricing from the configurable structure
   const pricing = getModelPricing(provider, model, tier);
-  const rate = pricing[tokenType];
+  const rate = pricing[tokenType] ?? pricing.input;
   
   // Convert tokens to cost (pricing is per 1K tokens)
   const cost = (tokens / 1000) * rate;
@@ -344,6 +353,52 @@ export function estimateCost(tokens: number, provider: string, model: string, to
   return parseFloat(cost.toFixed(6)); // Round to 6 decimal places for precision
 }
 
+// Exact cost of a response from the token counts the provider reported
+export function calculateUsageCost(usage: TokenUsage, provider: string, model: string, tier?: string): { inputCost: number; outputCost: number; totalCost: number } {
+  // Cached and cache-written tokens are part of the input count but billed at their own rates
+  const uncachedTokens = Math.max(usage.inputTokens - usage.cachedTokens - usage.cacheWriteTokens, 0);
+  const inputCost = estimateCost(uncachedTokens, provider, model, 'input', tier)
+    + estimateCost(usage.cachedTokens, provider, model, 'cacheRead', tier)
+    + estimateCost(usage.cacheWriteTokens, provider, model, 'cacheWrite', tier);
+  const outputCost = estimateCost(usage.outputTokens, provider, model, 'output', tier);
+  
+  return {
+    inputCost,
+    outputCost,
+    totalCost: inputCost + outputCost
+  };
+}
+
+// What prompt caching saved on a reply compared to sending every input token uncached;
+// negative when cache writes cost more than the reads they enabled so far
+export function calculateCacheSavings(message: Message): number {
+  if (!message.provider || !message.model) return 0;
+  const pricing = getModelPricing(message.provider, message.model);
+  const readSavings = ((message.cachedTokens || 0) / 1000) * (pricing.input - (pricing.cacheRead ?? pricing.input));
+  const writePremium = ((message.cacheWriteTokens || 0) / 1000) * ((pricing.cacheWrite ?? pricing.input) - pricing.input);
+  return readSavings - writePremium;
+}
+
+// Share of a reply's output cost spent on reasoning, which is billed at the output rate
+export function calculateReasoningCost(message: Message): number {
+  if (!message.provider || !message.model || !message.reasoningTokens) return 0;
+  return estimateCost(message.reasoningTokens, message.provider, message.model, 'output');
+}
+
+// Totals of what has actually been billed for a chat, from the usage stored on each reply
+export function getBilledUsage(messages: Message[]): TokenUsage & { totalCost: number; cacheSavings: number; reasoningCost: number } {
+  return messages.reduce((totals, message) => ({
+    inputTokens: totals.inputTokens + (message.role === 'assistant' ? message.actualInputTokens || 0 : 0),
+    outputTokens: totals.outputTokens + (message.actualOutputTokens || 0),
+    cachedTokens: totals.cachedTokens + (message.cachedTokens || 0),
+    cacheWriteTokens: totals.cacheWriteTokens + (message.cacheWriteTokens || 0),
+    reasoningTokens: totals.reasoningTokens + (message.reasoningTokens || 0),
+    totalCost: totals.totalCost + (message.actualCost || 0),
+    cacheSavings: totals.cacheSavings + calculateCacheSavings(message),
+    reasoningCost: totals.reasoningCost + calculateReasoningCost(message)
+  }), { inputTokens: 0, outputTokens: 0, cachedTokens: 0, cacheWriteTokens: 0, reasoningTokens: 0, totalCost: 0, cacheSavings: 0, reasoningCost: 0 });
+}
+
 // Detect pricing tier (stub for now - can be enhanced later)
 function detectPricingTier(): string {
   // Default to standard tier for now
@@ -356,35 +411,53 @@ export function estimateAccurateChatCost(messages: Message[], fallbackProvider:
   inputCost: number; 
   estimatedOutputCost: number; 
   totalCost: number; 
+  imageTokens: number;
+  imageCost: number; // Part of the input cost spent on images
   breakdown: Array<{
     messageId: number;
     provider: string;
     model: string;
     tokens: number;
     cost: number;
-    role: 'user' | 'assistant';
+    role: Message['role'];
+    imageTokens: number;
+    imageCost: number;
+    imageWidth?: number;
+    imageHeight?: number;
   }>;
 } {
   let totalInputCost = 0;
   let totalOutputCost = 0;
+  let totalImageTokens = 0;
+  let totalImageCost = 0;
   const breakdown: Array<{
     messageId: number;
     provider: string;
     model: string;
     tokens: number;
     cost: number;
-    role: 'user' | 'assistant';
+    role: Message['role'];
+    imageTokens: number;
+    imageCost: number;
+    imageWidth?: number;
+    imageHeight?: number;
   }> = [];
 
   for (const message of messages) {
     // Use message's actual provider/model, or fall back to defaults
     const provider = message.provider?.toLowerCase() || fallbackProvider;
     const model = message.model || fallbackModel;
-    const tokens = estimateMessageTokens(message);
+    const tokens = estimateMessageTokens(message, provider, model);
+    
+    // Images are always input, whichever message carries them
+    const imageTokens = estimateMessageImageTokens(message, provider, model);
+    const imageCost = estimateCost(imageTokens, provider, model, 'input');
     
     // Determine if this is input or output based on role
     const isOutput = message.role === 'assistant';
-    const cost = estimateCost(tokens, provider, model, isOutput ? 'output' : 'input');
+    const cost = estimateCost(tokens - imageTokens, provider, model, isOutput ? 'output' : 'input') + imageCost;
+    totalImageTokens += imageTokens;
+    totalImageCost += imageCost;
     
     if (isOutput) {
       totalOutputCost += cost;
@@ -398,7 +471,11 @@ export function estimateAccurateChatCost(messages: Message[], fallbackProvider:
       model: model,
       tokens: tokens,
       cost: cost,
-      role: message.role
+      role: message.role,
+      imageTokens,
+      imageCost,
+      imageWidth: message.imageWidth,
+      imageHeight: message.imageHeight
     });
   }
   
@@ -406,13 +483,15 @@ export function estimateAccurateChatCost(messages: Message[], fallbackProvider:
     inputCost: totalInputCost,
     estimatedOutputCost: totalOutputCost,
     totalCost: totalInputCost + totalOutputCost,
+    imageTokens: totalImageTokens,
+    imageCost: totalImageCost,
     breakdown
   };
 }
 
 // Enhanced cost estimation for chat conversations (input + estimated output)
 export function estimateChatCost(messages: Message[], provider: string, model: string): { inputCost: number; estimatedOutputCost: number; totalCost: number } {
-  const inputTokens = estimateChatTokens(messages);
+  const inputTokens = estimateChatTokens(messages, provider, model);
   
   // Estimate output tokens as 20% of input (conservative estimate)
   const estimatedOutputTokens = Math.ceil(inputTokens * 0.2);
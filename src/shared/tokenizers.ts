@@ -0,0 +1,38 @@
+/**
+ * Which tokenizer counts tokens for which model
+ * Pure data shared with the renderer; the encoders themselves run in a worker thread in the
+ * main process (src/main/token-worker.ts), since loading and running them is too heavy for the UI.
+ */
+
+import { getProviderDefinition } from './providers';
+
+// The BPE encodings bundled with the app
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base';
+
+export interface TokenizerProfile {
+  encoding: TokenizerEncoding;
+  scale: number; // Multiplier from the bundled encoding's count to the model's own
+  exact: boolean; // False when the model's tokenizer isn't published and the count is an approximation
+}
+
+// OpenAI models since GPT-4o use o200k; GPT-4, GPT-4 Turbo and GPT-3.5 use cl100k
+const OPENAI_O200K_MODELS = /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o\d)/;
+
+// Providers that don't publish their tokenizer: the closest bundled encoding, scaled to
+// roughly match the input tokens they report for typical chats
+const APPROXIMATIONS: Record<string, TokenizerProfile> = {
+  claude: { encoding: 'cl100k_base', scale: 1.15, exact: false },
+  deepseek: { encoding: 'o200k_base', scale: 1, exact: false },
+  gemini: { encoding: 'o200k_base', scale: 1, exact: false }
+};
+
+const FALLBACK_PROFILE: TokenizerProfile = { encoding: 'cl100k_base', scale: 1, exact: false };
+
+export function getTokenizerProfile(providerId: string, modelId?: string): TokenizerProfile {
+  const id = getProviderDefinition(providerId)?.id || providerId;
+  if (id === 'openai') {
+    const encoding = OPENAI_O200K_MODELS.test(modelId || '') ? 'o200k_base' : 'cl100k_base';
+    return { encoding, scale: 1, exact: true };
+  }
+  return APPROXIMATIONS[id] || FALLBACK_PROFILE;
+}
@@ -0,0 +1,75 @@
+/**
+ * Built-in tools the model can call
+ * Definitions are pure data shared with the renderer (for the permission settings and
+ * confirmation prompts); the sandbox that runs them lives in src/main/tool-sandbox.ts.
+ */
+
+import type { ModelInfo } from './models';
+import { getModelInfo, getProviderDefinition } from './providers';
+import type { AppSettings, ToolCall, ToolPermission } from './types';
+
+export interface ToolDefinition {
+  name: string; // Identifier sent to the provider
+  label: string; // Shown in confirmations and settings
+  description: string; // Tells the model when to use the tool
+  parameters: Record<string, any>; // JSON schema of the arguments
+  returnsImage?: boolean; // Only offered to models with vision
+}
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  {
+    name: 'capture_screen',
+    label: 'Capture the screen',
+    description: 'Ask the user to select an area of their screen and return a screenshot of it. Use when you need to see something on screen that was not already shared.',
+    parameters: { type: 'object', properties: {} },
+    returnsImage: true
+  },
+  {
+    name: 'read_clipboard',
+    label: 'Read the clipboard',
+    description: 'Return the text currently on the user\'s clipboard, and the image on it if there is one.',
+    parameters: { type: 'object', properties: {} }
+  },
+  {
+    name: 'search_chats',
+    label: 'Search earlier chats',
+    description: 'Search the user\'s earlier chats in this app for messages containing the query text. Returns matching excerpts with their chat titles and dates.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Text to look for' },
+        limit: { type: 'integer', description: 'Maximum number of matches, 10 by default' }
+      },
+      required: ['query']
+    }
+  }
+];
+
+// Tool rounds allowed in one send before the model has to answer with what it has
+export const MAX_TOOL_ROUNDS = 5;
+
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+  return BUILTIN_TOOLS.find(tool => tool.name === name);
+}
+
+// Tools need confirmation unless the user allowed them for good
+export function getToolPermission(settings: AppSettings, name: string): ToolPermission {
+  return settings.toolPermissions?.[name] || 'ask';
+}
+
+export function modelSupportsTools(providerId: string, modelId: string, model: ModelInfo | undefined = getModelInfo(providerId, modelId)): boolean {
+  if (!getProviderDefinition(providerId)?.capabilities.toolCalling) return false;
+  return model?.capabilities.toolCalling ?? true;
+}
+
+// Tools offered with a send: none unless tool use is on, and never denied ones
+export function getEnabledTools(settings: AppSettings): ToolDefinition[] {
+  if (!settings.toolsEnabled) return [];
+  return BUILTIN_TOOLS.filter(tool => getToolPermission(settings, tool.name) !== 'deny');
+}
+
+// One line describing a call, e.g. search_chats("invoice")
+export function formatToolCall(call: ToolCall): string {
+  const args = Object.values(call.arguments).map(value => JSON.stringify(value)).join(', ');
+  return `${call.name}(${args})`;
+}
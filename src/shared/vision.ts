@@ -0,0 +1,63 @@
+/**
+ * Vision capability helpers
+ * Text-only models never receive images. Depending on the user's choice an image
+ * turn is either routed to a vision-capable model, converted to a text description
+ * by one first, or sent without the image.
+ */
+
+import { AppSettings, FallbackTarget, ImageHandling, Message } from './types';
+import type { ModelInfo } from './models';
+import { getProviderApiKey, getProviderDefinition, getProviderDefinitions, getModelInfo } from './providers';
+
+export const IMAGE_HANDLING_LABELS: Record<ImageHandling, string> = {
+  route: 'Send to a vision model',
+  describe: 'Describe the image first',
+  drop: 'Send text only'
+};
+
+export const IMAGE_DESCRIPTION_PROMPT =
+  'Describe this screenshot for someone who cannot see it. Transcribe all visible text verbatim, ' +
+  'then describe the layout, charts, tables and any other visual details that matter. Do not add commentary.';
+
+// Catalog models carry their own flag; discovered and unlisted models fall back to the provider's
+export function modelSupportsVision(providerId: string, modelId: string, model: ModelInfo | undefined = getModelInfo(providerId, modelId)): boolean {
+  if (model) return model.capabilities.vision;
+  return getProviderDefinition(providerId)?.capabilities.vision ?? false;
+}
+
+// Pick the model used to see images for text-only models: the configured one, or the
+// first catalog vision model of a provider with an API key (preferring its selected model)
+export function resolveVisionTarget(settings: AppSettings): Required<FallbackTarget> | null {
+  const configured = settings.visionModel;
+  if (configured?.model && getProviderApiKey(settings, configured.provider) && modelSupportsVision(configured.provider, configured.model)) {
+    return { provider: configured.provider, model: configured.model };
+  }
+
+  for (const definition of getProviderDefinitions()) {
+    if (definition.discoverModels || !getProviderApiKey(settings, definition.id)) continue;
+
+    const selected = settings.selectedModels?.[definition.id];
+    if (selected && modelSupportsVision(definition.id, selected)) {
+      return { provider: definition.id, model: selected };
+    }
+    const visionModel = definition.models.find(model => model.capabilities.vision);
+    if (visionModel) {
+      return { provider: definition.id, model: visionModel.id };
+    }
+  }
+  return null;
+}
+
+// The text a text-only model receives in place of an image
+export function withImageDescription(text: string, description: string): string {
+  return `${text}\n\n[Screenshot description]\n${description}`.trim();
+}
+
+// History for a text-only model: earlier images are left out, or replaced by their description
+export function withoutHistoryImages(history: Message[]): Message[] {
+  return history.map(msg => {
+    if (!msg.imagePath) return msg;
+    const content = msg.imageDescription ? withImageDescription(msg.content, msg.imageDescription) : msg.content;
+    return { ...msg, content, imagePath: undefined };
+  });
+}
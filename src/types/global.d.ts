@@ -4,32 +4,204 @@ interface Chat {
   title: string;
   createdAt: string;
   updatedAt: string;
+  totalCost?: number;
+  messageCount?: number;
+  systemPrompt?: string;
+  generationParams?: GenerationParams;
 }
 
-interface Message {
+interface ChatCheckpoint {
   id: number;
   chatId: number;
+  summary: string;
+  upToMessageId: number;
+  messageCount: number;
+  savedTokens: number;
+  cost: number;
+  foldedInto?: number;
+  createdAt: string;
+}
+
+interface MemorySource {
+  messageId: number;
+  chatId: number;
+  chatTitle: string;
   role: 'user' | 'assistant';
+  snippet: string;
+  score: number;
+  timestamp: string;
+}
+
+interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  reasoningEffort?: 'low' | 'medium' | 'high';
+  thinkingBudget?: number;
+}
+
+interface Persona {
+  id: number;
+  name: string;
+  systemPrompt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface Message {
+  id: number;
+  chatId: number;
+  role: 'user' | 'assistant' | 'tool';
   content: string;
   imagePath?: string;
+  imageWidth?: number; // Pixel size of the image, for estimating what it costs to send
+  imageHeight?: number;
   provider?: string;
   model?: string;
   timestamp: string;
   optimizationMethod?: string; // Track which optimization was used when sending
   actualInputTokens?: number; // Actual tokens sent to API
+  actualOutputTokens?: number; // Tokens generated, as reported by the provider
+  cachedTokens?: number; // Input tokens served from the provider's prompt cache
+  cacheWriteTokens?: number; // Input tokens written to the provider's prompt cache
+  reasoningTokens?: number; // Output tokens spent on hidden reasoning
+  reasoning?: string; // Reasoning trace shown to the user, never sent back to the model
   actualCost?: number; // Actual cost of this message
+  cancelled?: boolean; // Assistant turn stopped by the user before it completed
+  error?: string; // Assistant turn that failed after all retries and fallbacks
+  generationParams?: GenerationParams; // Parameters actually sent for this assistant turn
+  compareGroupId?: number; // Sibling replies from compare mode share the ID of the user message they answer
+  compareSelected?: boolean; // The sibling picked to continue the conversation
+  imageDescription?: string; // Text a vision model wrote for this user message's image
+  visionNote?: string; // How the image was handled when the selected model had no vision support
+  extraction?: ExtractionResult; // Parsed reply of an extract mode turn
+  requestId?: string; // The send that produced this reply, links it to its audit log records
+  toolCalls?: ToolCall[]; // Assistant turn that asked for tools instead of answering
+  toolCallId?: string; // Tool message: the call it answers
+  toolName?: string; // Tool message: the tool that ran
+  cachedAt?: string; // Reply served from the response cache, when it was first answered
+  checkpointId?: number; // Folded behind this compression checkpoint
+  memorySources?: MemorySource[];
+  tokenCount?: number; // Content tokens counted by the model's tokenizer, set in memory before optimizing and never saved
+}
+
+interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+interface ToolResult {
+  callId: string;
+  name: string;
+  content: string;
+  imagePath?: string;
+  isError?: boolean;
+}
+
+interface ToolTurn {
+  content: string;
+  calls: ToolCall[];
+  results: ToolResult[];
+}
+
+interface ExtractionSchema {
+  id: number;
+  name: string;
+  schema: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ExtractionResult {
+  schemaName: string;
+  data: unknown;
+  errors: string[];
+}
+
+interface AuditRecord {
+  id: number;
+  requestId: string;
+  providerId: string;
+  modelId: string;
+  attempt: number;
+  body: unknown;
+  params: Record<string, unknown>;
+  latencyMs: number;
+  status: 'ok' | 'error' | 'cancelled';
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    cachedTokens: number;
+    cacheWriteTokens: number;
+    reasoningTokens: number;
+  };
+  error?: { message: string; status?: number; code?: string; body?: unknown };
+  createdAt: string;
+}
+
+interface TrackedAIResponse {
+  content: string;
+  provider: string;
+  providerId: string;
+  fallbackFrom?: string;
+  model: string;
+  generationParams?: GenerationParams;
+  visionNote?: string;
+  imageDescription?: string;
+  extraction?: ExtractionResult;
+  reasoning?: string;
+  requestId?: string;
+  toolTurns?: ToolTurn[];
+  cachedAt?: string;
+  memorySources?: MemorySource[];
+  cancelled: boolean;
+  actualCost: number;
+  optimizationUsed: string;
+  usageReported: boolean;
+  actualInputTokens: number;
+  actualOutputTokens: number;
+  cachedTokens: number;
+  cacheWriteTokens: number;
+  reasoningTokens: number;
+  inputCost: number;
+  outputCost: number;
+  totalCost: number;
 }
 
 interface AppSettings {
   openaiApiKey?: string;
   claudeApiKey?: string;
   deepseekApiKey?: string;
+  geminiApiKey?: string;
+  openaiCompatibleApiKey?: string;
+  openaiCompatibleBaseUrl?: string; // e.g. http://localhost:11434/v1 for Ollama
   selectedProvider: string;
   selectedModels?: {
-    openai?: string;
-    claude?: string;
-    deepseek?: string;
+    [providerId: string]: string | undefined; // Keyed by provider definition ID
   };
+  fallbackChain?: Array<{ provider: string; model?: string }>;
+  generationDefaults?: GenerationParams;
+  compareTargets?: Array<{ provider: string; model?: string }>;
+  visionFallback?: 'ask' | 'route' | 'describe' | 'drop';
+  visionModel?: { provider: string; model?: string };
+  summaryModel?: { provider: string; model?: string };
+  memoryEmbedding?: { provider: string; model?: string };
+  memoryTopK?: number;
+  mockProvider?: {
+    latencyMs?: number;
+    errorRate?: number;
+    errorStatus?: number;
+    scriptedReplies?: string[];
+  };
+  fixtureMode?: 'off' | 'record' | 'replay';
+  proxyUrl?: string;
+  noProxy?: string;
+  caBundlePath?: string;
+  auditRetentionDays?: number;
+  toolsEnabled?: boolean;
+  toolPermissions?: Record<string, 'ask' | 'allow' | 'deny'>;
+  responseCacheTtlHours?: number;
   overlayPosition: {
     x: number;
     y: number;
@@ -39,7 +211,7 @@ interface AppSettings {
     height: number;
   };
   tokenOptimization?: {
-    strategy: 'full-history' | 'rolling-window' | 'smart-summary' | 'rolling-with-summary';
+    strategy: 'full-history' | 'rolling-window' | 'smart-summary' | 'rolling-with-summary' | 'memory';
     rollingWindowSize: number;
     summaryThreshold: number;
     showTokenCounter: boolean;
@@ -68,11 +240,25 @@ export interface ElectronAPI {
   getChat: (id: number) => Promise<Chat>;
   updateChatTitle: (id: number, title: string) => Promise<void>;
   deleteChat: (id: number) => Promise<void>;
+  updateChatSystemPrompt: (id: number, systemPrompt: string | null) => Promise<void>;
+  updateChatGenerationParams: (id: number, params: GenerationParams | null) => Promise<void>;
+
+  // Persona presets
+  getPersonas: () => Promise<Persona[]>;
+  savePersona: (persona: { id?: number; name: string; systemPrompt: string }) => Promise<Persona>;
+  deletePersona: (id: number) => Promise<void>;
+
+  // Extract mode schemas
+  getExtractionSchemas: () => Promise<ExtractionSchema[]>;
+  saveExtractionSchema: (schema: { id?: number; name: string; schema: Record<string, any> }) => Promise<ExtractionSchema>;
+  deleteExtractionSchema: (id: number) => Promise<void>;
   
   // Message operations
   saveMessage: (message: Omit<Message, 'id' | 'timestamp'>) => Promise<Message>;
+  updateMessage: (id: number, updates: { content?: string; imagePath?: string; imageDescription?: string }) => Promise<Message | null>;
   getChatMessages: (chatId: number) => Promise<Message[]>;
   deleteMessage: (id: number) => Promise<void>;
+  selectCompareReply: (messageId: number) => Promise<void>;
   
     // Settings operations
   getSettings: () => Promise<AppSettings>;
@@ -83,9 +269,23 @@ export interface ElectronAPI {
     totalTokens: number;
     messageCount: number;
     estimatedCost: number;
+    imageTokens?: number;
+    imageCost?: number;
+    billedUsage?: {
+      inputTokens: number;
+      outputTokens: number;
+      cachedTokens: number;
+      cacheWriteTokens: number;
+      reasoningTokens: number;
+      totalCost: number;
+      cacheSavings: number;
+      reasoningCost: number;
+    };
   }>;
   getOptimizationPreview: (chatId: number) => Promise<any>;
   compressChatHistory: (chatId: number) => Promise<any>;
+  getChatCheckpoints: (chatId: number) => Promise<ChatCheckpoint[]>;
+  restoreCheckpoint: (checkpointId: number) => Promise<boolean>;
   
   // AI operations
   sendAIMessage: (params: {
@@ -105,22 +305,33 @@ export interface ElectronAPI {
     chatId?: number;
     modelId?: string;
     optimizationMethod?: string;
-  }) => Promise<{
-    content: string;
-    provider: string;
-    model: string;
-    actualCost: number;
-    optimizationUsed: string;
-    actualInputTokens: number;
-    totalCost: number;
-  }>;
+    requestId?: string;
+    imageHandling?: 'route' | 'describe' | 'drop';
+    extractSchema?: { name: string; schema: Record<string, any> };
+    bypassCache?: boolean;
+  }) => Promise<TrackedAIResponse>;
+
+  // Compare mode: the same prompt sent to several models, one result per target in order
+  sendAIMessageCompare: (params: {
+    text: string;
+    imagePath?: string;
+    chatId: number;
+    targets: Array<{ provider: string; model?: string }>;
+    requestId?: string;
+  }) => Promise<Array<TrackedAIResponse & { targetIndex: number; error?: string }>>;
+  cancelAIMessage: (requestId: string) => Promise<boolean>;
+  onAIMessageChunk: (callback: (chunk: { requestId: string; delta: string; reasoning?: boolean; reset?: boolean; targetIndex?: number }) => void) => () => void;
+  onAIMessageStatus: (callback: (update: { requestId: string; status: string; targetIndex?: number }) => void) => () => void;
+  onToolConfirmation: (callback: (request: { requestId: string; confirmationId: string; call: ToolCall }) => void) => () => void;
+  respondToToolConfirmation: (confirmationId: string, approved: boolean) => Promise<void>;
   
   // API Key management
-  getApiKeysStatus: () => Promise<{
-    openai: 'ready' | 'invalid' | 'error' | 'not-configured';
-    claude: 'ready' | 'invalid' | 'error' | 'not-configured';
-    deepseek: 'ready' | 'invalid' | 'error' | 'not-configured';
-  }>;
+  getApiKeysStatus: () => Promise<Record<string, 'ready' | 'invalid' | 'error' | 'network-error' | 'not-configured'>>;
+  getModelCatalog: (providerId: string, refresh?: boolean) => Promise<import('../shared/model-catalog').ModelCatalog>;
+  getFixtureStatus: () => Promise<{ directory: string; count: number }>;
+  openFixturesFolder: () => Promise<void>;
+  getAuditRecords: (requestId: string) => Promise<AuditRecord[]>;
+  clearResponseCache: () => Promise<number>;
   saveApiKey: (provider: string, apiKey: string) => Promise<void>;
   
   // Window operations
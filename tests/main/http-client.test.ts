@@ -0,0 +1,38 @@
+import { shouldBypassProxy } from '../../src/main/http-client';
+
+describe('shouldBypassProxy', () => {
+  it('never proxies loopback', () => {
+    expect(shouldBypassProxy('http://localhost:11434/v1', [])).toBe(true);
+    expect(shouldBypassProxy('http://127.0.0.1:1234/v1', [])).toBe(true);
+    expect(shouldBypassProxy('http://[::1]:8080/v1', [])).toBe(true);
+  });
+
+  it('proxies everything else by default', () => {
+    expect(shouldBypassProxy('https://api.openai.com/v1', [])).toBe(false);
+  });
+
+  it('bypasses everything for "*"', () => {
+    expect(shouldBypassProxy('https://api.openai.com/v1', ['*'])).toBe(true);
+  });
+
+  it('matches exact hosts and their subdomains', () => {
+    expect(shouldBypassProxy('https://corp.example/v1', ['corp.example'])).toBe(true);
+    expect(shouldBypassProxy('https://llm.corp.example/v1', ['corp.example'])).toBe(true);
+    expect(shouldBypassProxy('https://notcorp.example/v1', ['corp.example'])).toBe(false);
+  });
+
+  it('accepts domain suffixes with a leading dot or wildcard', () => {
+    expect(shouldBypassProxy('https://llm.corp.example/v1', ['.corp.example'])).toBe(true);
+    expect(shouldBypassProxy('https://llm.corp.example/v1', ['*.corp.example'])).toBe(true);
+  });
+
+  it('compares hosts case-insensitively', () => {
+    expect(shouldBypassProxy('https://LLM.Corp.Example/v1', ['corp.EXAMPLE'])).toBe(true);
+  });
+
+  it('only matches the port an entry names', () => {
+    expect(shouldBypassProxy('https://llm.corp.example:8443/v1', ['llm.corp.example:8443'])).toBe(true);
+    expect(shouldBypassProxy('https://llm.corp.example/v1', ['llm.corp.example:8443'])).toBe(false);
+    expect(shouldBypassProxy('https://llm.corp.example/v1', ['llm.corp.example:443'])).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+import { getRetryDelay, isProviderUnavailable, isRetryableError, parseRetryAfter, sleep, withRetry, DEFAULT_RETRY_OPTIONS } from '../../src/main/retry-policy';
+
+const FAST_RETRIES = { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 10 };
+
+describe('isRetryableError', () => {
+  it('retries rate limits, overloads and dropped connections', () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError({ status: 529 })).toBe(true);
+    expect(isRetryableError({ code: 'ECONNRESET' })).toBe(true);
+  });
+
+  it('does not retry requests the provider refused', () => {
+    expect(isRetryableError({ status: 400 })).toBe(false);
+    expect(isRetryableError({ status: 401 })).toBe(false);
+    expect(isRetryableError(new Error('boom'))).toBe(false);
+  });
+});
+
+describe('isProviderUnavailable', () => {
+  it('fails over when the provider cannot be reached at all', () => {
+    expect(isProviderUnavailable({ code: 'ECONNREFUSED' })).toBe(true);
+    expect(isRetryableError({ code: 'ECONNREFUSED' })).toBe(false);
+  });
+
+  it('does not fail over on a bad request', () => {
+    expect(isProviderUnavailable({ status: 400 })).toBe(false);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds, milliseconds and HTTP dates', () => {
+    expect(parseRetryAfter({ 'retry-after': '2' })).toBe(2000);
+    expect(parseRetryAfter({ 'retry-after-ms': '150', 'retry-after': '2' })).toBe(150);
+
+    const delay = parseRetryAfter({ 'retry-after': new Date(Date.now() + 60000).toUTCString() });
+    expect(delay).toBeGreaterThan(55000);
+    expect(delay).toBeLessThanOrEqual(60000);
+  });
+
+  it('ignores missing and unreadable values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter({})).toBeUndefined();
+    expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeUndefined();
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially with jitter', () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(3, DEFAULT_RETRY_OPTIONS);
+      expect(delay).toBeGreaterThanOrEqual(2000);
+      expect(delay).toBeLessThanOrEqual(4000);
+    }
+  });
+
+  it('never backs off past the maximum delay', () => {
+    expect(getRetryDelay(20, DEFAULT_RETRY_OPTIONS)).toBeLessThanOrEqual(DEFAULT_RETRY_OPTIONS.maxDelayMs);
+  });
+
+  it('follows the provider retry-after hint', () => {
+    expect(getRetryDelay(1, DEFAULT_RETRY_OPTIONS, 5000)).toBe(5000);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries until the operation succeeds', async () => {
+    const operation = jest.fn()
+      .mockRejectedValueOnce({ status: 503 })
+      .mockRejectedValueOnce({ status: 429 })
+      .mockResolvedValue('ok');
+    const onRetry = jest.fn();
+
+    await expect(withRetry(operation, { options: FAST_RETRIES, onRetry })).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([retry]) => retry.attempt)).toEqual([1, 2]);
+  });
+
+  it('gives up after the maximum number of retries', async () => {
+    const operation = jest.fn().mockRejectedValue({ status: 503 });
+
+    await expect(withRetry(operation, { options: FAST_RETRIES })).rejects.toEqual({ status: 503 });
+    expect(operation).toHaveBeenCalledTimes(FAST_RETRIES.maxRetries + 1);
+  });
+
+  it('does not retry errors the caller rules out', async () => {
+    const operation = jest.fn().mockRejectedValue({ status: 503 });
+
+    await expect(withRetry(operation, { options: FAST_RETRIES, shouldRetry: () => false })).rejects.toEqual({ status: 503 });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not wait out a retry-after longer than the maximum delay', async () => {
+    const operation = jest.fn().mockRejectedValue({ status: 429, retryAfterMs: 60000 });
+
+    await expect(withRetry(operation, { options: FAST_RETRIES })).rejects.toMatchObject({ status: 429 });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops retrying once the request is cancelled', async () => {
+    const controller = new AbortController();
+    const operation = jest.fn().mockImplementation(async () => {
+      controller.abort();
+      throw { status: 503 };
+    });
+
+    await expect(withRetry(operation, { options: FAST_RETRIES, signal: controller.signal })).rejects.toEqual({ status: 503 });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('sleep', () => {
+  it('ends early when the signal aborts', async () => {
+    const controller = new AbortController();
+    const wait = sleep(60000, controller.signal);
+    controller.abort();
+
+    await expect(wait).rejects.toThrow('Request cancelled');
+  });
+});
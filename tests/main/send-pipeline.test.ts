@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MainAIService } from '../../src/main/ipc-handlers';
+import { fixtureStore } from '../../src/main/fixtures';
+import { OpenAIProvider } from '../../src/main/providers/openai';
+import { DEFAULT_GENERATION_PARAMS } from '../../src/shared/generation-params';
+import { BUILTIN_TOOLS } from '../../src/shared/tools';
+import type { AppSettings, ToolCall } from '../../src/shared/types';
+
+// The send pipeline runs offline against the mock provider and recorded fixtures; only
+// Electron and the SQLite database are replaced, everything between them is the real code
+let mockUserDataDir = '';
+let mockSettings: Partial<AppSettings> = {};
+const mockDatabase = {
+  getSettings: () => mockSettings,
+  getModelCatalog: () => null,
+  saveAuditRecord: jest.fn(),
+  pruneAuditLog: () => 0
+};
+
+jest.mock('electron', () => ({
+  app: { getPath: () => mockUserDataDir },
+  ipcMain: { handle: jest.fn() },
+  BrowserWindow: { fromWebContents: jest.fn() },
+  shell: {}
+}));
+jest.mock('../../src/main/database', () => ({ getDatabase: () => mockDatabase }));
+
+const service = new MainAIService();
+
+const sendToMock = (text: string, params: Partial<Parameters<MainAIService['sendMessage']>[1]> = {}) =>
+  service.sendMessage('mock', { text, apiKey: '', generation: DEFAULT_GENERATION_PARAMS, ...params });
+
+beforeEach(() => {
+  mockUserDataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'overlay-test-'));
+  mockSettings = {};
+  mockDatabase.saveAuditRecord.mockClear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  fs.rmSync(mockUserDataDir, { recursive: true, force: true });
+});
+
+describe('MainAIService.sendMessage with the mock provider', () => {
+  it('streams the reply and labels it with the model that answered', async () => {
+    const deltas: string[] = [];
+    const result = await sendToMock('hello there', { onDelta: delta => deltas.push(delta) });
+
+    expect(result.content).toBe('Echo: hello there');
+    expect(deltas.join('')).toBe(result.content);
+    expect(result).toMatchObject({ provider: 'Mock', providerId: 'mock', model: 'Mock Echo', modelId: 'mock-echo' });
+    expect(result.usage?.outputTokens).toBeGreaterThan(0);
+  });
+
+  it('streams the reasoning trace ahead of the reply', async () => {
+    const reasoning: string[] = [];
+    const result = await sendToMock('think first', { modelId: 'mock-reasoner', onReasoningDelta: delta => reasoning.push(delta) });
+
+    expect(result.reasoning).toBeTruthy();
+    expect(reasoning.join('')).toBe(result.reasoning);
+    expect(result.usage?.reasoningTokens).toBeGreaterThan(0);
+  });
+
+  it('withholds the image from a text-only model', async () => {
+    const result = await sendToMock('what is this?', { modelId: 'mock-scripted', image: Buffer.from('png').toString('base64') });
+
+    expect(result.visionNote).toBe('Image not sent: Mock Scripted has no vision support');
+  });
+
+  it('fails a refused request without retrying it', async () => {
+    await expect(sendToMock('[mock:error 400]')).rejects.toMatchObject({ status: 400 });
+
+    expect(mockDatabase.saveAuditRecord).toHaveBeenCalledTimes(1);
+    expect(mockDatabase.saveAuditRecord.mock.calls[0][0]).toMatchObject({ status: 'error', attempt: 1 });
+  });
+
+  it('logs the request body the backend sent', async () => {
+    await sendToMock('log me', { systemPrompt: 'Be brief', requestId: 'request-1' });
+
+    const record = mockDatabase.saveAuditRecord.mock.calls[0][0];
+    expect(record).toMatchObject({ requestId: 'request-1', providerId: 'mock', modelId: 'mock-echo', status: 'ok' });
+    expect(record.body).toMatchObject({ model: 'mock-echo', system: 'Be brief', messages: [{ role: 'user', content: 'log me' }] });
+  });
+});
+
+describe('MainAIService.sendMessageWithTools', () => {
+  it('runs the tools the model calls and sends the results back', async () => {
+    const runTool = jest.fn(async (call: ToolCall) => ({ callId: call.id, name: call.name, content: 'Found 2 chats' }));
+    const onStreamReset = jest.fn();
+    const result = await service.sendMessageWithTools('mock', {
+      text: 'Look it up [mock:tool search_chats]',
+      apiKey: '',
+      generation: DEFAULT_GENERATION_PARAMS,
+      tools: BUILTIN_TOOLS.filter(tool => tool.name === 'search_chats'),
+      runTool,
+      onStreamReset
+    });
+
+    expect(runTool).toHaveBeenCalledWith(expect.objectContaining({ name: 'search_chats', arguments: { query: '' } }));
+    expect(result.toolTurns).toHaveLength(1);
+    expect(result.content).toContain('- search_chats: Found 2 chats');
+    expect(onStreamReset).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('fixture replay', () => {
+  const params = { text: 'What is 2 + 2?', modelId: 'gpt-4o-mini', generation: DEFAULT_GENERATION_PARAMS };
+
+  it('answers from a recorded fixture without calling the provider', async () => {
+    const streamResponse = jest.spyOn(OpenAIProvider.prototype as any, 'streamResponse').mockResolvedValue({ content: 'Recorded answer' });
+
+    mockSettings = { fixtureMode: 'record' };
+    const recorded = await service.sendMessage('openai', { ...params, apiKey: 'sk-test' });
+    expect(recorded.content).toBe('Recorded answer');
+    expect(fixtureStore.countFixtures()).toBe(1);
+
+    streamResponse.mockRejectedValue(new Error('The network is off'));
+    mockSettings = { fixtureMode: 'replay' };
+    const deltas: string[] = [];
+    const replayed = await service.sendMessage('openai', { ...params, apiKey: '', onDelta: delta => deltas.push(delta) });
+
+    expect(replayed.content).toBe('Recorded answer');
+    expect(deltas.join('')).toBe('Recorded answer');
+    expect(streamResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails a request that was never recorded', async () => {
+    mockSettings = { fixtureMode: 'replay' };
+
+    await expect(service.sendMessage('openai', { ...params, apiKey: '' })).rejects.toThrow('No recorded fixture for this request');
+  });
+});
@@ -0,0 +1,54 @@
+import { foldCheckpoints, resolveCheckpoint } from '../../src/shared/checkpoints';
+import type { ChatCheckpoint, Message } from '../../src/shared/types';
+
+const message = (id: number, checkpointId?: number): Message => ({
+  id,
+  chatId: 1,
+  role: id % 2 ? 'user' : 'assistant',
+  content: `Message ${id}`,
+  timestamp: `2025-01-01 00:00:0${id}`,
+  checkpointId
+});
+
+const checkpoint = (id: number, fields: Partial<ChatCheckpoint> = {}): ChatCheckpoint => ({
+  id,
+  chatId: 1,
+  summary: `Summary ${id}`,
+  upToMessageId: 0,
+  messageCount: 0,
+  savedTokens: 0,
+  cost: 0,
+  createdAt: '2025-01-01 00:00:00',
+  ...fields
+});
+
+describe('resolveCheckpoint', () => {
+  it('follows checkpoints that were folded into later ones', () => {
+    const checkpoints = [checkpoint(1, { foldedInto: 2 }), checkpoint(2, { foldedInto: 3 }), checkpoint(3)];
+
+    expect(resolveCheckpoint(1, checkpoints)?.id).toBe(3);
+    expect(resolveCheckpoint(3, checkpoints)?.id).toBe(3);
+    expect(resolveCheckpoint(4, checkpoints)).toBeUndefined();
+  });
+});
+
+describe('foldCheckpoints', () => {
+  it('replaces a run of folded messages with its summary', () => {
+    const folded = foldCheckpoints([message(1, 1), message(2, 1), message(3), message(4)], [checkpoint(1)]);
+
+    expect(folded.map(msg => [msg.id, msg.content])).toEqual([[-1, 'Summary 1'], [3, 'Message 3'], [4, 'Message 4']]);
+    expect(folded[0]).toMatchObject({ role: 'assistant', provider: 'system', timestamp: message(1).timestamp });
+  });
+
+  it('shows messages of an earlier checkpoint behind the one that folded it', () => {
+    const folded = foldCheckpoints([message(1, 1), message(2, 1), message(3, 2), message(4)], [checkpoint(1, { foldedInto: 2 }), checkpoint(2)]);
+
+    expect(folded.map(msg => msg.content)).toEqual(['Summary 2', 'Message 4']);
+  });
+
+  it('keeps messages whose checkpoint is gone', () => {
+    const folded = foldCheckpoints([message(1, 5), message(2)], []);
+
+    expect(folded.map(msg => msg.id)).toEqual([1, 2]);
+  });
+});
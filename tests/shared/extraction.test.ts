@@ -0,0 +1,46 @@
+import { parseExtraction } from '../../src/shared/extraction';
+
+const SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    amount: { type: 'number' },
+    status: { enum: ['paid', 'open'] },
+    items: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['name', 'amount'],
+  additionalProperties: false
+};
+
+describe('parseExtraction', () => {
+  it('parses a reply that matches the schema', () => {
+    const result = parseExtraction('{"name": "Invoice", "amount": 12, "items": ["a"]}', 'invoice', SCHEMA);
+
+    expect(result).toEqual({ schemaName: 'invoice', data: { name: 'Invoice', amount: 12, items: ['a'] }, errors: [] });
+  });
+
+  it('unwraps JSON in a code fence', () => {
+    const result = parseExtraction('```json\n{"name": "Invoice", "amount": 12.5}\n```', 'invoice', SCHEMA);
+
+    expect(result.data).toEqual({ name: 'Invoice', amount: 12.5 });
+    expect(result.errors).toEqual([]);
+  });
+
+  it('reports every mismatch with its path', () => {
+    const result = parseExtraction('{"amount": "12", "status": "late", "items": [1], "note": "x"}', 'invoice', SCHEMA);
+
+    expect(result.errors).toEqual([
+      '$.name: missing',
+      '$.amount: expected number, got string',
+      '$.status: must be one of "paid", "open"',
+      '$.items[0]: expected string, got integer',
+      '$.note: not allowed by the schema'
+    ]);
+  });
+
+  it('reports a reply that is not JSON', () => {
+    const result = parseExtraction('Sorry, I cannot help with that.', 'invoice', SCHEMA);
+
+    expect(result).toEqual({ schemaName: 'invoice', data: null, errors: ['The reply was not valid JSON'] });
+  });
+});
@@ -0,0 +1,55 @@
+import { mergeGenerationParams, validateGenerationParams, MIN_THINKING_BUDGET } from '../../src/shared/generation-params';
+import { getModelInfo } from '../../src/shared/providers';
+
+describe('mergeGenerationParams', () => {
+  it('lets later layers win and unset fields fall through', () => {
+    const merged = mergeGenerationParams(
+      { temperature: 0.7, maxTokens: 1000 },
+      { temperature: undefined, topP: 0.9 },
+      undefined,
+      { maxTokens: 500 }
+    );
+
+    expect(merged).toEqual({ temperature: 0.7, topP: 0.9, maxTokens: 500 });
+  });
+});
+
+describe('validateGenerationParams', () => {
+  it('clamps values to the generic ranges for an unknown model', () => {
+    const { params, adjustments } = validateGenerationParams({ temperature: 3, topP: 1.5, maxTokens: 0 }, undefined);
+
+    expect(params).toEqual({ temperature: 2, topP: 1, maxTokens: 1 });
+    expect(adjustments).toEqual(['Temperature clamped to 2', 'Top P clamped to 1', 'Max output tokens clamped to 1']);
+  });
+
+  it('honors the provider temperature limit', () => {
+    const { params } = validateGenerationParams({ temperature: 1.5 }, undefined, 1);
+
+    expect(params.temperature).toBe(1);
+  });
+
+  it('drops reasoning controls the model does not expose', () => {
+    const model = getModelInfo('openai', 'gpt-4o');
+    const { params, adjustments } = validateGenerationParams({ reasoningEffort: 'high', thinkingBudget: 2048 }, model);
+
+    expect(params).toEqual({});
+    expect(adjustments).toEqual(['Reasoning effort is not supported by GPT-4o', 'Thinking budget is not supported by GPT-4o']);
+  });
+
+  it('raises a small thinking budget and leaves room for the answer', () => {
+    const model = getModelInfo('claude', 'claude-sonnet-4-20250514');
+    const { params, adjustments } = validateGenerationParams({ temperature: 0.5, maxTokens: 1000, thinkingBudget: 500 }, model);
+
+    expect(params).toEqual({ thinkingBudget: MIN_THINKING_BUDGET, maxTokens: 1000 + MIN_THINKING_BUDGET });
+    expect(adjustments).toContain(`Thinking budget raised to the minimum of ${MIN_THINKING_BUDGET} tokens`);
+    expect(adjustments).toContain('Temperature is ignored for Claude Sonnet 4 with thinking enabled');
+  });
+
+  it('shrinks a thinking budget that does not fit the output limit', () => {
+    const model = getModelInfo('claude', 'claude-sonnet-4-20250514');
+    const { params, adjustments } = validateGenerationParams({ maxTokens: 1000, thinkingBudget: 9000 }, model);
+
+    expect(params).toEqual({ thinkingBudget: 8191, maxTokens: 8192 });
+    expect(adjustments).toContain('Thinking budget reduced to 8191 to fit the output limit');
+  });
+});
@@ -0,0 +1,38 @@
+import { estimateImageTokens } from '../../src/shared/image-tokens';
+
+describe('estimateImageTokens', () => {
+  it('bills OpenAI images by 512px tiles', () => {
+    expect(estimateImageTokens({ width: 1024, height: 768 }, 'openai', 'gpt-4o')).toBe(85 + 170 * 4);
+  });
+
+  it('shrinks large OpenAI images before tiling', () => {
+    // 4096x2048 fits 2048x1024, then the short side drops to 768: 1536x768 is 3x2 tiles
+    expect(estimateImageTokens({ width: 4096, height: 2048 }, 'openai', 'gpt-4o')).toBe(85 + 170 * 6);
+  });
+
+  it('uses the per-model rates of the small OpenAI models', () => {
+    expect(estimateImageTokens({ width: 1024, height: 768 }, 'openai', 'gpt-4o-mini')).toBe(2833 + 5667 * 4);
+  });
+
+  it('bills Anthropic images by area, up to the cap', () => {
+    expect(estimateImageTokens({ width: 1000, height: 1000 }, 'claude', 'claude-sonnet-4-20250514')).toBe(1334);
+    expect(estimateImageTokens({ width: 3000, height: 2000 }, 'claude', 'claude-sonnet-4-20250514')).toBe(1600);
+  });
+
+  it('bills Gemini images by 768px tiles', () => {
+    expect(estimateImageTokens({ width: 300, height: 300 }, 'gemini', 'gemini-2.5-flash')).toBe(258);
+    expect(estimateImageTokens({ width: 1600, height: 900 }, 'gemini', 'gemini-2.5-flash')).toBe(258 * 6);
+  });
+
+  it('assumes a typical screen selection when the size is unknown', () => {
+    expect(estimateImageTokens(undefined, 'openai', 'gpt-4o')).toBe(estimateImageTokens({ width: 1024, height: 768 }, 'openai', 'gpt-4o'));
+  });
+
+  it('finds the model by the display name saved on replies', () => {
+    expect(estimateImageTokens({ width: 1024, height: 768 }, 'openai', 'GPT-4o')).toBe(85 + 170 * 4);
+  });
+
+  it('costs nothing on a text-only model', () => {
+    expect(estimateImageTokens({ width: 1024, height: 768 }, 'deepseek', 'deepseek-chat')).toBe(0);
+  });
+});
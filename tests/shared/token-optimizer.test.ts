@@ -0,0 +1,76 @@
+import { calculateUsageCost, getBilledUsage } from '../../src/shared/token-optimizer';
+import type { Message, TokenUsage } from '../../src/shared/types';
+
+const usage = (fields: Partial<TokenUsage>): TokenUsage => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  cachedTokens: 0,
+  cacheWriteTokens: 0,
+  reasoningTokens: 0,
+  ...fields
+});
+
+const message = (fields: Partial<Message>): Message => ({
+  id: 1,
+  chatId: 1,
+  role: 'assistant',
+  content: '',
+  timestamp: '2025-01-01 00:00:00',
+  ...fields
+});
+
+describe('calculateUsageCost', () => {
+  it('bills input and output at the model rates', () => {
+    // Mock Echo: $0.001 in and $0.002 out per 1K tokens
+    const cost = calculateUsageCost(usage({ inputTokens: 2000, outputTokens: 1000 }), 'mock', 'mock-echo');
+
+    expect(cost.inputCost).toBeCloseTo(0.002);
+    expect(cost.outputCost).toBeCloseTo(0.002);
+    expect(cost.totalCost).toBeCloseTo(0.004);
+  });
+
+  it('bills cached input at the cache read rate', () => {
+    const cost = calculateUsageCost(usage({ inputTokens: 10000, cachedTokens: 4000 }), 'mock', 'mock-echo');
+
+    // 6000 uncached at $0.001, 4000 cached at a tenth of that
+    expect(cost.inputCost).toBeCloseTo(0.0064);
+  });
+
+  it('bills cache writes at the provider premium', () => {
+    const cost = calculateUsageCost(usage({ inputTokens: 2000, cacheWriteTokens: 1000 }), 'claude', 'claude-sonnet-4-20250514');
+
+    // 1000 uncached at $0.003, 1000 written at 1.25 times that
+    expect(cost.inputCost).toBeCloseTo(0.00675);
+  });
+
+  it('bills a dated snapshot like the model it belongs to', () => {
+    const snapshot = calculateUsageCost(usage({ inputTokens: 1000, outputTokens: 1000 }), 'openai', 'gpt-4o-mini-2024-07-18');
+    const model = calculateUsageCost(usage({ inputTokens: 1000, outputTokens: 1000 }), 'openai', 'gpt-4o-mini');
+
+    expect(snapshot.totalCost).toBeCloseTo(model.totalCost);
+  });
+});
+
+describe('getBilledUsage', () => {
+  it('totals the usage stored on replies', () => {
+    const totals = getBilledUsage([
+      message({ role: 'user', actualInputTokens: 50 }),
+      message({ provider: 'mock', model: 'Mock Echo', actualInputTokens: 1000, actualOutputTokens: 200, cachedTokens: 500, reasoningTokens: 100, actualCost: 0.5 }),
+      message({ provider: 'mock', model: 'Mock Echo', actualInputTokens: 300, actualOutputTokens: 100, actualCost: 0.25 })
+    ]);
+
+    expect(totals).toMatchObject({ inputTokens: 1300, outputTokens: 300, cachedTokens: 500, cacheWriteTokens: 0, reasoningTokens: 100 });
+    expect(totals.totalCost).toBeCloseTo(0.75);
+    // 500 cached tokens saved $0.0009 per 1K; 100 reasoning tokens at the $0.002 output rate
+    expect(totals.cacheSavings).toBeCloseTo(0.00045);
+    expect(totals.reasoningCost).toBeCloseTo(0.0002);
+  });
+
+  it('counts cache writes that cost more than they saved as negative savings', () => {
+    const totals = getBilledUsage([
+      message({ provider: 'claude', model: 'claude-sonnet-4-20250514', actualInputTokens: 1000, cacheWriteTokens: 1000 })
+    ]);
+
+    expect(totals.cacheSavings).toBeCloseTo(-0.00075);
+  });
+});